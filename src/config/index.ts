@@ -2,6 +2,9 @@
  * Environment configuration
  */
 
+import path from 'path';
+import { parseCidr } from '../utils/destinationPolicy';
+
 // Default values that indicate insecure configuration
 const DEFAULT_API_KEY = 'miaw-api-key';
 const DEFAULT_WEBHOOK_SECRET = 'webhook-secret';
@@ -19,26 +22,97 @@ interface Config {
   // Session Storage
   sessionPath: string;
 
+  // Instance Registry
+  registryPath: string;
+  autoRestoreInstances: boolean;
+
   // Webhook Configuration
   webhookTimeout: number;
   webhookMaxRetries: number;
   webhookRetryDelay: number;
+  webhookRetryMultiplier: number;
+  webhookRetryJitter: number;
+  webhookRetryMaxDelay: number;
+  webhookConcurrency: number;
+  webhookCircuitThreshold: number;
+  webhookCircuitCooldown: number;
+  webhookQueueStore: 'file' | 'memory';
+  webhookQueuePath: string;
+  webhookDeadLetterPath: string;
+  webhookDeadLetterMax: number;
+  webhookDeliveryLogSize: number;
+
+  // Webhook destination policy (SSRF protection)
+  webhookHttpsOnly: boolean;
+  webhookAllowPrivateNetworks: boolean;
+  webhookAllowedHosts: string[];
+  webhookDeniedHosts: string[];
+  webhookAllowedCidrs: string[];
+  webhookDeniedCidrs: string[];
+
+  // Event streams
+  eventStreamBufferSize: number;
+  eventStreamHeartbeatInterval: number;
+  eventStreamTokenTtl: number;
+
+  // Event sinks
+  eventSinkFileDir: string;
+
+  // Message statuses kept per instance
+  messageStatusStoreSize: number;
 
   // Logging
   logLevel: string;
 }
 
+/**
+ * Split a comma-separated environment variable
+ */
+function parseList(value?: string): string[] {
+  return (value || '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
 function loadConfig(): Config {
+  const sessionPath = process.env.SESSION_PATH || './sessions';
+
   const config: Config = {
     port: parseInt(process.env.API_PORT || '3000', 10),
     host: process.env.API_HOST || '0.0.0.0',
     apiKey: process.env.API_KEY || DEFAULT_API_KEY,
     webhookSecret: process.env.API_WEBHOOK_SECRET || DEFAULT_WEBHOOK_SECRET,
     corsOrigin: process.env.CORS_ORIGIN || '*',
-    sessionPath: process.env.SESSION_PATH || './sessions',
+    sessionPath,
+    registryPath: process.env.INSTANCE_REGISTRY_PATH || path.join(sessionPath, 'instances.json'),
+    autoRestoreInstances: process.env.AUTO_RESTORE_INSTANCES !== 'false',
     webhookTimeout: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000', 10),
     webhookMaxRetries: parseInt(process.env.WEBHOOK_MAX_RETRIES || '6', 10),
     webhookRetryDelay: parseInt(process.env.WEBHOOK_RETRY_DELAY_MS || '60000', 10),
+    webhookRetryMultiplier: parseFloat(process.env.WEBHOOK_RETRY_MULTIPLIER || '3'),
+    webhookRetryJitter: parseFloat(process.env.WEBHOOK_RETRY_JITTER || '0.2'),
+    webhookRetryMaxDelay: parseInt(process.env.WEBHOOK_RETRY_MAX_DELAY_MS || '3600000', 10),
+    webhookConcurrency: parseInt(process.env.WEBHOOK_CONCURRENCY || '10', 10),
+    webhookCircuitThreshold: parseInt(process.env.WEBHOOK_CIRCUIT_THRESHOLD || '5', 10),
+    webhookCircuitCooldown: parseInt(process.env.WEBHOOK_CIRCUIT_COOLDOWN_MS || '60000', 10),
+    webhookQueueStore: process.env.WEBHOOK_QUEUE_STORE === 'memory' ? 'memory' : 'file',
+    webhookQueuePath: process.env.WEBHOOK_QUEUE_PATH || path.join(sessionPath, 'webhook-queue.jsonl'),
+    webhookDeadLetterPath:
+      process.env.WEBHOOK_DEAD_LETTER_PATH || path.join(sessionPath, 'webhook-dead-letters.jsonl'),
+    webhookDeadLetterMax: parseInt(process.env.WEBHOOK_DEAD_LETTER_MAX || '10000', 10),
+    webhookDeliveryLogSize: parseInt(process.env.WEBHOOK_DELIVERY_LOG_SIZE || '500', 10),
+    webhookHttpsOnly: process.env.WEBHOOK_HTTPS_ONLY === 'true',
+    webhookAllowPrivateNetworks: process.env.WEBHOOK_ALLOW_PRIVATE_NETWORKS === 'true',
+    webhookAllowedHosts: parseList(process.env.WEBHOOK_ALLOWED_HOSTS),
+    webhookDeniedHosts: parseList(process.env.WEBHOOK_DENIED_HOSTS),
+    webhookAllowedCidrs: parseList(process.env.WEBHOOK_ALLOWED_CIDRS),
+    webhookDeniedCidrs: parseList(process.env.WEBHOOK_DENIED_CIDRS),
+    eventStreamBufferSize: parseInt(process.env.EVENT_STREAM_BUFFER_SIZE || '1000', 10),
+    eventStreamHeartbeatInterval: parseInt(process.env.EVENT_STREAM_HEARTBEAT_MS || '30000', 10),
+    eventStreamTokenTtl: parseInt(process.env.EVENT_STREAM_TOKEN_TTL_MS || '300000', 10),
+    eventSinkFileDir: process.env.EVENT_SINK_FILE_DIR || path.join(sessionPath, 'events'),
+    messageStatusStoreSize: parseInt(process.env.MESSAGE_STATUS_STORE_SIZE || '1000', 10),
     logLevel: process.env.LOG_LEVEL || 'info',
   };
 
@@ -75,6 +149,47 @@ function validateConfig(config: Config): void {
     config.port = 3000;
   }
 
+  // Webhook delivery needs at least one worker
+  if (!(config.webhookConcurrency >= 1)) {
+    warnings.push(
+      `Invalid webhook concurrency ${config.webhookConcurrency}. Must be at least 1. Defaulting to 10.`
+    );
+    config.webhookConcurrency = 10;
+  }
+
+  // Jitter is a fraction of the retry delay
+  if (!(config.webhookRetryJitter >= 0 && config.webhookRetryJitter <= 1)) {
+    warnings.push(
+      `Invalid webhook retry jitter ${config.webhookRetryJitter}. Must be between 0 and 1. Defaulting to 0.2.`
+    );
+    config.webhookRetryJitter = 0.2;
+  }
+
+  // Unparseable CIDRs are ignored rather than failing startup
+  for (const key of ['webhookAllowedCidrs', 'webhookDeniedCidrs'] as const) {
+    const invalid = config[key].filter((cidr) => !parseCidr(cidr));
+    if (invalid.length > 0) {
+      warnings.push(`Ignoring invalid webhook CIDRs: ${invalid.join(', ')}.`);
+      config[key] = config[key].filter((cidr) => parseCidr(cidr));
+    }
+  }
+
+  // Heartbeats faster than a second would flood idle stream connections
+  if (!(config.eventStreamHeartbeatInterval >= 1000)) {
+    warnings.push(
+      `Invalid event stream heartbeat interval ${config.eventStreamHeartbeatInterval}. Must be at least 1000 ms. Defaulting to 30000.`
+    );
+    config.eventStreamHeartbeatInterval = 30000;
+  }
+
+  // Stream tokens only need to outlive the request that opens the stream
+  if (!(config.eventStreamTokenTtl >= 1000)) {
+    warnings.push(
+      `Invalid event stream token TTL ${config.eventStreamTokenTtl}. Must be at least 1000 ms. Defaulting to 300000.`
+    );
+    config.eventStreamTokenTtl = 300000;
+  }
+
   // Check for open CORS in non-development
   if (config.corsOrigin === '*' && process.env.NODE_ENV === 'production') {
     warnings.push(
@@ -7,6 +7,8 @@ import { FastifyRequest, FastifyReply } from 'fastify';
 import crypto from 'crypto';
 import { config } from '../config';
 import { UnauthorizedError } from '../utils/errorHandler';
+import { redactUrl } from '../utils/redact';
+import { verifyStreamToken } from '../utils/streamToken';
 
 /**
  * Timing-safe string comparison to prevent timing attacks
@@ -19,6 +21,11 @@ function timingSafeEqual(a: string, b: string): boolean {
   return crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
 }
 
+interface AuthOptions {
+  // Accept a stream token as ?token= for clients that cannot set headers (browser EventSource, WebSocket)
+  allowStreamToken?: boolean;
+}
+
 /**
  * Extract API key from request
  */
@@ -38,15 +45,51 @@ function extractApiKey(request: FastifyRequest): string | null {
   return null;
 }
 
+/**
+ * Extract a stream token from the query string
+ */
+function extractStreamToken(request: FastifyRequest): string | null {
+  const token = (request.query as Record<string, unknown> | undefined)?.token;
+  return typeof token === 'string' && token ? token : null;
+}
+
+/**
+ * Whether a stream token is valid for the requested route: tokens issued for an
+ * instance only open that instance's streams
+ */
+function isStreamTokenValid(request: FastifyRequest, token: string): boolean {
+  const claims = verifyStreamToken(token, config.apiKey);
+  if (!claims) {
+    return false;
+  }
+  const instanceId = (request.params as { id?: string } | undefined)?.id;
+  return !claims.instanceId || claims.instanceId === instanceId;
+}
+
 /**
  * Authentication middleware factory
  */
-export function createAuthMiddleware() {
+export function createAuthMiddleware(options: AuthOptions = {}) {
   return async function authMiddleware(
     request: FastifyRequest,
     _reply: FastifyReply
   ): Promise<void> {
     const apiKey = extractApiKey(request);
+    const streamToken = !apiKey && options.allowStreamToken ? extractStreamToken(request) : null;
+
+    if (streamToken) {
+      if (!isStreamTokenValid(request, streamToken)) {
+        request.log.warn({
+          event: 'auth_failure',
+          reason: 'invalid_stream_token',
+          ip: request.ip,
+          method: request.method,
+          url: redactUrl(request.url),
+        }, 'Authentication failed: Invalid stream token');
+        throw new UnauthorizedError('Invalid or expired stream token');
+      }
+      return;
+    }
 
     if (!apiKey) {
       // Log auth failure for security auditing
@@ -55,7 +98,7 @@ export function createAuthMiddleware() {
         reason: 'missing_api_key',
         ip: request.ip,
         method: request.method,
-        url: request.url,
+        url: redactUrl(request.url),
       }, 'Authentication failed: Missing API key');
       throw new UnauthorizedError('Missing API key');
     }
@@ -67,7 +110,7 @@ export function createAuthMiddleware() {
         reason: 'invalid_api_key',
         ip: request.ip,
         method: request.method,
-        url: request.url,
+        url: redactUrl(request.url),
       }, 'Authentication failed: Invalid API key');
       throw new UnauthorizedError('Invalid API key');
     }
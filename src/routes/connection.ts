@@ -1,14 +1,17 @@
 /**
  * Connection Routes
- * POST /instances/:id/connect - Connect instance (returns QR)
+ * POST /instances/:id/connect - Connect instance (returns QR or pairing code)
  * DELETE /instances/:id/disconnect - Disconnect instance
  * POST /instances/:id/restart - Restart instance
  * GET /instances/:id/status - Get connection status
+ * GET /instances/:id/qr - Get latest QR code
+ * GET /instances/:id/wait - Wait for a connection state (long-poll)
  */
 
 import { FastifyInstance } from 'fastify';
 import { createAuthMiddleware } from '../middleware/auth';
-import { NotFoundError, ServiceUnavailableError } from '../utils/errorHandler';
+import { ConflictError, GoneError, NotFoundError, ServiceUnavailableError } from '../utils/errorHandler';
+import { QR_CODE_FORMATS, QrCodeFormat, negotiateQrCodeFormat, renderQrCode } from '../utils/qrCode';
 
 /**
  * Register connection routes
@@ -25,7 +28,11 @@ export async function connectionRoutes(server: FastifyInstance): Promise<void> {
     '/instances/:id/connect',
     {
       schema: {
-        description: 'Connect instance to WhatsApp (returns QR code if needed). Scan the QR code with WhatsApp to authenticate. Listen to webhooks for the QR code.',
+        description: `Connect instance to WhatsApp.
+
+**QR login (default):** returns the QR code if needed. Scan it with WhatsApp to authenticate. Fetch \`GET /instances/:id/qr\` or listen to webhooks for refreshed QR codes.
+
+**Pairing code login:** pass \`pairingPhoneNumber\` to receive an 8-character code instead. Enter it in WhatsApp under *Linked devices > Link with phone number*. A \`pairing_code\` webhook event is emitted as well. Without a code within 30 seconds the request fails and the instance is back on QR login.`,
         tags: ['Connection'],
         summary: 'Connect instance',
         params: {
@@ -35,6 +42,9 @@ export async function connectionRoutes(server: FastifyInstance): Promise<void> {
           },
           required: ['id'],
         },
+        body: {
+          $ref: 'connectInstance#',
+        },
         response: {
           200: {
             type: 'object',
@@ -53,6 +63,15 @@ export async function connectionRoutes(server: FastifyInstance): Promise<void> {
                     properties: {
                       status: { type: 'string', enum: ['qr_required'] },
                       qr: { type: 'string' },
+                      expiresAt: { type: 'string', format: 'date-time' },
+                    },
+                  },
+                  {
+                    type: 'object',
+                    properties: {
+                      status: { type: 'string', enum: ['pairing_code_required'] },
+                      pairingCode: { type: 'string' },
+                      phoneNumber: { type: 'string' },
                     },
                   },
                 ],
@@ -72,6 +91,19 @@ export async function connectionRoutes(server: FastifyInstance): Promise<void> {
               },
             },
           },
+          409: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              error: {
+                type: 'object',
+                properties: {
+                  code: { type: 'string' },
+                  message: { type: 'string' },
+                },
+              },
+            },
+          },
           503: {
             type: 'object',
             properties: {
@@ -90,6 +122,7 @@ export async function connectionRoutes(server: FastifyInstance): Promise<void> {
     },
     async (request, reply) => {
       const params = request.params as { id: string };
+      const body = request.body as { pairingPhoneNumber?: string } | null;
       const instanceManager = (server as any).instanceManager;
       const client = instanceManager.getClient(params.id);
 
@@ -97,26 +130,47 @@ export async function connectionRoutes(server: FastifyInstance): Promise<void> {
         throw new NotFoundError('Instance');
       }
 
-      const instance = instanceManager.getInstance(params.id);
+      if (body?.pairingPhoneNumber) {
+        try {
+          const pairingCode = await instanceManager.requestPairingCode(params.id, body.pairingPhoneNumber);
+          reply.send({
+            success: true,
+            data: {
+              status: 'pairing_code_required',
+              pairingCode,
+              phoneNumber: instanceManager.getInstance(params.id)?.pairingPhoneNumber,
+            },
+          });
+          return;
+        } catch (err: any) {
+          if (err.message?.includes('already connected')) {
+            throw new ConflictError('Instance is already connected');
+          }
+          throw new ServiceUnavailableError(err.message);
+        }
+      }
 
       try {
-        await client.connect();
+        // A client left over from a pairing code login would show no QR code
+        await instanceManager.resetPairingLogin(params.id);
+        await instanceManager.getClient(params.id).connect();
 
         // Check current status
-        const currentState = instance?.status;
+        const currentState = instanceManager.getInstance(params.id)?.status;
+        const qrCode = instanceManager.getQrCode(params.id);
 
         if (currentState === 'connected') {
           reply.send({
             success: true,
             data: { status: 'connected' },
           });
-        } else if (currentState === 'qr_required') {
-          // Get QR from latest event
+        } else if (currentState === 'qr_required' && qrCode) {
           reply.send({
             success: true,
             data: {
               status: 'qr_required',
-              qr: 'Scan QR code with WhatsApp (check webhook for QR)',
+              qr: qrCode.qr,
+              expiresAt: qrCode.expiresAt,
             },
           });
         } else {
@@ -183,6 +237,7 @@ export async function connectionRoutes(server: FastifyInstance): Promise<void> {
       }
 
       await client.disconnect();
+      instanceManager.setDesiredState(params.id, 'disconnected');
 
       reply.send({
         success: true,
@@ -274,7 +329,9 @@ export async function connectionRoutes(server: FastifyInstance): Promise<void> {
 - \`connecting\`: Connection in progress
 - \`connected\`: Successfully connected
 - \`reconnecting\`: Reconnection in progress (after connection loss)
-- \`qr_required\`: QR code needs to be scanned`,
+- \`qr_required\`: QR code needs to be scanned (or pairing code entered)
+
+**Pending login** (\`pendingLogin\`): \`qr\` or \`pairing_code\` while the instance waits for authentication.`,
         tags: ['Connection'],
         summary: 'Get instance status',
         params: {
@@ -299,6 +356,9 @@ export async function connectionRoutes(server: FastifyInstance): Promise<void> {
                   },
                   phoneNumber: { type: 'string', nullable: true },
                   connectedAt: { type: 'string', format: 'date-time', nullable: true },
+                  pendingLogin: { type: 'string', enum: ['qr', 'pairing_code'], nullable: true },
+                  pairingCode: { type: 'string', nullable: true },
+                  pairingPhoneNumber: { type: 'string', nullable: true },
                 },
               },
             },
@@ -335,6 +395,258 @@ export async function connectionRoutes(server: FastifyInstance): Promise<void> {
           status: instance.status,
           phoneNumber: instance.phoneNumber,
           connectedAt: instance.connectedAt,
+          pendingLogin: instance.pendingLogin,
+          pairingCode: instance.pairingCode,
+          pairingPhoneNumber: instance.pairingPhoneNumber,
+        },
+      });
+    }
+  );
+
+  /**
+   * GET /instances/:id/qr
+   * Get latest QR code
+   */
+  server.get(
+    '/instances/:id/qr',
+    {
+      schema: {
+        description: `Get the latest QR code for an instance that is waiting to be paired.
+
+**Formats** (\`format\` query parameter, or \`Accept\` header when omitted):
+- \`json\` (default): QR string, data URL and expiry info
+- \`raw\` (\`text/plain\`): QR string as received from WhatsApp
+- \`png\` (\`image/png\`): PNG image
+- \`svg\` (\`image/svg+xml\`): SVG image
+- \`dataurl\`: PNG data URL as plain text
+- \`terminal\`: Unicode rendering for terminals
+
+Non-JSON formats report expiry in the \`X-QR-Expires-At\` header.
+
+**Errors:**
+- \`404\`: Instance not found or no QR code received yet
+- \`410\`: Instance is already connected, or the QR code expired and no new one arrived`,
+        tags: ['Connection'],
+        summary: 'Get QR code',
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+          },
+          required: ['id'],
+        },
+        querystring: {
+          type: 'object',
+          properties: {
+            format: { type: 'string', enum: QR_CODE_FORMATS },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: {
+                type: 'object',
+                properties: {
+                  qr: { type: 'string' },
+                  dataUrl: { type: 'string' },
+                  receivedAt: { type: 'string', format: 'date-time' },
+                  expiresAt: { type: 'string', format: 'date-time' },
+                  expiresIn: { type: 'number', description: 'Milliseconds until the QR code expires' },
+                },
+              },
+            },
+          },
+          404: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              error: {
+                type: 'object',
+                properties: {
+                  code: { type: 'string' },
+                  message: { type: 'string' },
+                },
+              },
+            },
+          },
+          410: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              error: {
+                type: 'object',
+                properties: {
+                  code: { type: 'string' },
+                  message: { type: 'string' },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const params = request.params as { id: string };
+      const query = request.query as { format?: QrCodeFormat };
+      const instanceManager = (server as any).instanceManager;
+      const instance = instanceManager.getInstance(params.id);
+
+      if (!instance) {
+        throw new NotFoundError('Instance');
+      }
+
+      if (instance.status === 'connected') {
+        throw new GoneError('Instance is already connected, no QR code available');
+      }
+
+      const qrCode = instanceManager.getQrCode(params.id);
+
+      if (!qrCode) {
+        throw new NotFoundError('QR code');
+      }
+
+      // An expired code can no longer be scanned, the next qr event replaces it
+      const expiresIn = qrCode.expiresAt.getTime() - Date.now();
+      if (expiresIn <= 0) {
+        throw new GoneError('QR code expired, wait for the next one or reconnect');
+      }
+
+      const format = query.format || negotiateQrCodeFormat(request.headers.accept);
+
+      reply.header('Cache-Control', 'no-store');
+
+      if (format === 'json') {
+        const { body: dataUrl } = await renderQrCode(qrCode.qr, 'dataurl');
+        reply.send({
+          success: true,
+          data: {
+            qr: qrCode.qr,
+            dataUrl,
+            receivedAt: qrCode.receivedAt,
+            expiresAt: qrCode.expiresAt,
+            expiresIn,
+          },
+        });
+        return;
+      }
+
+      const rendered = await renderQrCode(qrCode.qr, format);
+      reply
+        .header('X-QR-Expires-At', qrCode.expiresAt.toISOString())
+        .type(rendered.contentType)
+        .send(rendered.body);
+    }
+  );
+
+  /**
+   * GET /instances/:id/wait
+   * Long-poll until the instance reaches a connection state
+   */
+  server.get(
+    '/instances/:id/wait',
+    {
+      schema: {
+        description: `Hold the request open until the instance reaches the requested connection state.
+
+**Finishes when:**
+- \`state_reached\`: the instance is in the requested state (immediately if it already is)
+- \`qr\`: a QR code arrived and needs to be scanned (not while a pairing code login is pending)
+- \`error\`: the instance reported an error
+- \`deleted\`: the instance was deleted
+- \`timeout\`: \`timeout\` milliseconds passed
+
+Useful for automation: call connect, logout or restart, then block on this endpoint.`,
+        tags: ['Connection'],
+        summary: 'Wait for connection state',
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+          },
+          required: ['id'],
+        },
+        querystring: {
+          type: 'object',
+          properties: {
+            state: {
+              type: 'string',
+              enum: ['disconnected', 'connecting', 'connected', 'reconnecting', 'qr_required'],
+              default: 'connected',
+            },
+            timeout: {
+              type: 'integer',
+              minimum: 1000,
+              maximum: 300000,
+              default: 30000,
+              description: 'Max wait time in milliseconds',
+            },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: {
+                type: 'object',
+                properties: {
+                  instanceId: { type: 'string' },
+                  state: { type: 'string' },
+                  reason: {
+                    type: 'string',
+                    enum: ['state_reached', 'qr', 'error', 'deleted', 'timeout', 'aborted'],
+                  },
+                  matched: { type: 'boolean' },
+                  waitedMs: { type: 'number' },
+                  qr: { type: 'string', nullable: true },
+                  error: { type: 'string', nullable: true },
+                },
+              },
+            },
+          },
+          404: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              error: {
+                type: 'object',
+                properties: {
+                  code: { type: 'string' },
+                  message: { type: 'string' },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const params = request.params as { id: string };
+      const query = request.query as { state: string; timeout: number };
+      const instanceManager = (server as any).instanceManager;
+
+      if (!instanceManager.getInstance(params.id)) {
+        throw new NotFoundError('Instance');
+      }
+
+      // Stop waiting if the client goes away
+      const controller = new AbortController();
+      reply.raw.on('close', () => controller.abort());
+
+      const result = await instanceManager.waitForState(
+        params.id,
+        query.state,
+        query.timeout,
+        controller.signal
+      );
+
+      reply.send({
+        success: true,
+        data: {
+          ...result,
+          matched: result.reason === 'state_reached',
         },
       });
     }
@@ -0,0 +1,414 @@
+/**
+ * Event Stream Routes
+ * GET /instances/:id/events/ws - WebSocket stream of an instance's events
+ * GET /events/ws - WebSocket stream of the events of all instances
+ * GET /instances/:id/events/stream - Server-Sent Events stream of an instance's events
+ * POST /instances/:id/events/token - Issue a stream token for an instance's streams
+ * POST /events/token - Issue a stream token for the streams of all instances
+ */
+
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import type { WebSocket } from '@fastify/websocket';
+import { config } from '../config';
+import { createAuthMiddleware } from '../middleware/auth';
+import { webhookEventNames } from '../schemas';
+import { EventStreamFilter, EventStreamHub } from '../services/EventStreamHub';
+import { NotFoundError, BadRequestError } from '../utils/errorHandler';
+import { createStreamToken } from '../utils/streamToken';
+import { WebhookEvent, WebhookPayload } from '../types';
+
+// Reconnect delay suggested to EventSource clients
+const SSE_RETRY_MS = 3000;
+
+const streamQuerySchema = {
+  type: 'object',
+  properties: {
+    events: { type: 'string', description: 'Comma-separated event names, all events when omitted' },
+    lastEventId: { type: 'string', description: 'Resume after this event ID (replayed from a short buffer)' },
+    token: { type: 'string', description: 'Stream token for clients that cannot send headers' },
+  },
+};
+
+/**
+ * Parse and check a comma-separated event list
+ */
+export function parseEventNames(value?: string | string[]): WebhookEvent[] {
+  const names = (Array.isArray(value) ? value : (value || '').split(','))
+    .map((name) => name.trim())
+    .filter((name) => name.length > 0);
+
+  const unknown = names.filter((name) => !webhookEventNames.includes(name as WebhookEvent));
+  if (unknown.length > 0) {
+    throw new BadRequestError(`Unknown event names: ${unknown.join(', ')}`);
+  }
+
+  return names as WebhookEvent[];
+}
+
+/**
+ * Stream hub events over a WebSocket.
+ *
+ * Server messages: `subscribed`, `event` (`id` + `data` WebhookPayload), `heartbeat`, `error`.
+ * Client messages: `{ "type": "subscribe", "events": [...], "lastEventId": "..." }` to change
+ * the filter or resume, `{ "type": "ping" }` for an application-level `pong`.
+ */
+function streamToSocket(
+  socket: WebSocket,
+  hub: EventStreamHub,
+  initialFilter: EventStreamFilter,
+  lastEventId?: string
+): void {
+  let unsubscribe = () => {};
+  let alive = true;
+
+  const send = (message: object) => {
+    if (socket.readyState === socket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  };
+
+  const sendEvent = (payload: WebhookPayload) => send({ type: 'event', id: payload.id, data: payload });
+
+  const subscribe = (filter: EventStreamFilter, resumeFrom?: string) => {
+    unsubscribe();
+
+    // Replay and subscribe run synchronously, so no event falls in between
+    const missed = resumeFrom ? hub.replay(resumeFrom, filter) : null;
+    missed?.forEach(sendEvent);
+    unsubscribe = hub.subscribe(filter, sendEvent);
+
+    send({
+      type: 'subscribed',
+      instanceId: filter.instanceId ?? null,
+      events: filter.events || [],
+      resumed: !!missed,
+      replayed: missed?.length || 0,
+    });
+  };
+
+  socket.on('message', (raw) => {
+    let message: any;
+    try {
+      message = JSON.parse(raw.toString());
+    } catch {
+      send({ type: 'error', error: { code: 'BAD_REQUEST', message: 'Messages must be JSON' } });
+      return;
+    }
+
+    if (message?.type === 'ping') {
+      send({ type: 'pong', timestamp: Date.now() });
+      return;
+    }
+
+    if (message?.type !== 'subscribe') {
+      send({ type: 'error', error: { code: 'BAD_REQUEST', message: 'Unknown message type' } });
+      return;
+    }
+
+    try {
+      const events = parseEventNames(message.events);
+      subscribe(
+        { instanceId: initialFilter.instanceId, events },
+        typeof message.lastEventId === 'string' ? message.lastEventId : undefined
+      );
+    } catch (err: any) {
+      send({ type: 'error', error: { code: 'BAD_REQUEST', message: err.message } });
+    }
+  });
+
+  // Clients that stop answering pings are dropped; the heartbeat message keeps proxies from idling out
+  const heartbeat = setInterval(() => {
+    if (!alive) {
+      socket.terminate();
+      return;
+    }
+    alive = false;
+    socket.ping();
+    send({ type: 'heartbeat', timestamp: Date.now() });
+  }, config.eventStreamHeartbeatInterval);
+
+  socket.on('pong', () => {
+    alive = true;
+  });
+
+  socket.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+
+  subscribe(initialFilter, lastEventId);
+}
+
+/**
+ * Stream hub events as Server-Sent Events. Each event carries the payload ID as
+ * `id` (so browsers resume with Last-Event-ID) and the event name as `event`.
+ * Returns a function that ends the stream from the server side.
+ */
+function streamToEventSource(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  hub: EventStreamHub,
+  filter: EventStreamFilter,
+  lastEventId?: string
+): () => void {
+  // The response is written by hand, keep headers set by hooks (CORS)
+  reply.hijack();
+  const res = reply.raw;
+  res.writeHead(200, {
+    ...(reply.getHeaders() as Record<string, string>),
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+
+  const sendEvent = (payload: WebhookPayload) => {
+    res.write(`id: ${payload.id}\nevent: ${payload.event}\ndata: ${JSON.stringify(payload)}\n\n`);
+  };
+
+  // Replay and subscribe run synchronously, so no event falls in between
+  const missed = lastEventId ? hub.replay(lastEventId, filter) : null;
+  res.write(`retry: ${SSE_RETRY_MS}\n\n`);
+  if (lastEventId && !missed) {
+    res.write(`event: resume_failed\ndata: ${JSON.stringify({ lastEventId })}\n\n`);
+  }
+  missed?.forEach(sendEvent);
+  const unsubscribe = hub.subscribe(filter, sendEvent);
+
+  // Comment lines keep proxies from closing idle connections
+  const heartbeat = setInterval(() => {
+    res.write(`: heartbeat ${Date.now()}\n\n`);
+  }, config.eventStreamHeartbeatInterval);
+
+  const stop = () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  };
+  request.raw.on('close', stop);
+
+  return () => {
+    stop();
+    res.end();
+  };
+}
+
+/**
+ * Register event stream routes
+ */
+export async function eventRoutes(server: FastifyInstance): Promise<void> {
+  // All routes require authentication; browsers cannot set headers on WebSocket and
+  // EventSource requests, so these also accept a short-lived stream token as ?token=
+  server.addHook('onRequest', createAuthMiddleware({ allowStreamToken: true }));
+
+  function getHub(): EventStreamHub {
+    return (server as any).eventStreamHub;
+  }
+
+  // Hijacked SSE responses are invisible to Fastify and would keep server.close() waiting;
+  // WebSocket clients are closed by @fastify/websocket
+  const eventSources = new Set<() => void>();
+  server.addHook('preClose', async () => {
+    for (const end of eventSources) {
+      end();
+    }
+    eventSources.clear();
+  });
+
+  // Reject bad requests with a plain HTTP error before the WebSocket upgrade
+  async function checkInstance(request: FastifyRequest) {
+    const params = request.params as { id: string };
+    if (!(server as any).instanceManager.getInstance(params.id)) {
+      throw new NotFoundError('Instance');
+    }
+  }
+
+  async function checkEvents(request: FastifyRequest) {
+    parseEventNames((request.query as { events?: string }).events);
+  }
+
+  /**
+   * GET /instances/:id/events/ws
+   * WebSocket stream of an instance's events
+   */
+  server.get(
+    '/instances/:id/events/ws',
+    {
+      websocket: true,
+      preValidation: [checkInstance, checkEvents],
+      schema: {
+        description:
+          'WebSocket stream of the WebhookPayload objects of an instance, independent of webhook configuration. Send `{"type":"subscribe","events":[...],"lastEventId":"..."}` to change the event filter or resume.',
+        tags: ['Events'],
+        summary: 'Stream instance events (WebSocket)',
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+          },
+          required: ['id'],
+        },
+        querystring: streamQuerySchema,
+      },
+    },
+    (socket, request) => {
+      const params = request.params as { id: string };
+      const query = request.query as { events?: string; lastEventId?: string };
+
+      streamToSocket(
+        socket,
+        getHub(),
+        { instanceId: params.id, events: parseEventNames(query.events) },
+        query.lastEventId
+      );
+    }
+  );
+
+  /**
+   * GET /events/ws
+   * WebSocket stream of the events of all instances
+   */
+  server.get(
+    '/events/ws',
+    {
+      websocket: true,
+      preValidation: [checkEvents],
+      schema: {
+        description:
+          'WebSocket stream of the WebhookPayload objects of all instances. Same protocol as `/instances/:id/events/ws`.',
+        tags: ['Events'],
+        summary: 'Stream all events (WebSocket)',
+        querystring: streamQuerySchema,
+      },
+    },
+    (socket, request) => {
+      const query = request.query as { events?: string; lastEventId?: string };
+
+      streamToSocket(socket, getHub(), { events: parseEventNames(query.events) }, query.lastEventId);
+    }
+  );
+
+  /**
+   * GET /instances/:id/events/stream
+   * Server-Sent Events stream of an instance's events
+   */
+  server.get(
+    '/instances/:id/events/stream',
+    {
+      preValidation: [checkInstance, checkEvents],
+      schema: {
+        description:
+          'Server-Sent Events stream of the WebhookPayload objects of an instance (QR codes, connection changes, messages, ...) for browser dashboards. The SSE `event` is the event name and `id` the payload ID; reconnecting clients send `Last-Event-ID` (or `?lastEventId=`) to replay missed events from a short buffer.',
+        tags: ['Events'],
+        summary: 'Stream instance events (SSE)',
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+          },
+          required: ['id'],
+        },
+        querystring: streamQuerySchema,
+      },
+    },
+    async (request, reply) => {
+      const params = request.params as { id: string };
+      const query = request.query as { events?: string; lastEventId?: string };
+      const lastEventId = (request.headers['last-event-id'] as string | undefined) || query.lastEventId;
+
+      const end = streamToEventSource(
+        request,
+        reply,
+        getHub(),
+        { instanceId: params.id, events: parseEventNames(query.events) },
+        lastEventId
+      );
+      eventSources.add(end);
+      request.raw.on('close', () => eventSources.delete(end));
+    }
+  );
+}
+
+const streamTokenResponseSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    data: {
+      type: 'object',
+      properties: {
+        token: { type: 'string' },
+        expiresAt: { type: 'number' },
+      },
+    },
+  },
+};
+
+/**
+ * Register stream token routes (API key in a header only, a token cannot issue tokens)
+ */
+export async function eventTokenRoutes(server: FastifyInstance): Promise<void> {
+  server.addHook('onRequest', createAuthMiddleware());
+
+  function issue(instanceId?: string) {
+    const expiresAt = Date.now() + config.eventStreamTokenTtl;
+    return {
+      success: true,
+      data: { token: createStreamToken({ instanceId, expiresAt }, config.apiKey), expiresAt },
+    };
+  }
+
+  /**
+   * POST /instances/:id/events/token
+   * Issue a stream token for an instance's streams
+   */
+  server.post(
+    '/instances/:id/events/token',
+    {
+      schema: {
+        description:
+          'Issue a short-lived token that opens the event streams of this instance as `?token=`, for clients that cannot send headers. Only needed to open a stream; get a new one before reconnecting after it expired.',
+        tags: ['Events'],
+        summary: 'Issue instance stream token',
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+          },
+          required: ['id'],
+        },
+        response: {
+          200: streamTokenResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const params = request.params as { id: string };
+
+      if (!(server as any).instanceManager.getInstance(params.id)) {
+        throw new NotFoundError('Instance');
+      }
+
+      reply.send(issue(params.id));
+    }
+  );
+
+  /**
+   * POST /events/token
+   * Issue a stream token for the streams of all instances
+   */
+  server.post(
+    '/events/token',
+    {
+      schema: {
+        description: 'Issue a short-lived token that opens the event streams of all instances as `?token=`.',
+        tags: ['Events'],
+        summary: 'Issue stream token',
+        response: {
+          200: streamTokenResponseSchema,
+        },
+      },
+    },
+    async (_request, reply) => {
+      reply.send(issue());
+    }
+  );
+}
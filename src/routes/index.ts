@@ -13,6 +13,8 @@ import { groupRoutes } from './groups';
 import { profileRoutes } from './profile';
 import { presenceRoutes } from './presence';
 import { webhookRoutes } from './webhooks';
+import { eventRoutes, eventTokenRoutes } from './events';
+import { sinkRoutes } from './sinks';
 import { businessRoutes } from './business';
 import { newsletterRoutes } from './newsletters';
 import { basicGetsRoutes } from './basic-gets';
@@ -46,6 +48,15 @@ export async function registerRoutes(server: FastifyInstance, instanceManager: I
   // Webhook management routes
   await server.register(webhookRoutes);
 
+  // Live event stream routes
+  await server.register(eventRoutes);
+  await server.register(eventTokenRoutes);
+
+  // Event sink routes (Redis Streams, NATS, JSONL)
+  await server.register(async (server) => {
+    await sinkRoutes(server, instanceManager);
+  });
+
   // Business features routes
   await server.register(businessRoutes);
 
@@ -3,12 +3,14 @@
  * POST /instances - Create new instance
  * GET /instances - List all instances
  * GET /instances/:id - Get instance details
+ * PATCH /instances/:id - Update webhook configuration
  * DELETE /instances/:id - Delete instance
  */
 
 import { FastifyInstance } from 'fastify';
 import { createAuthMiddleware } from '../middleware/auth';
-import { ConflictError, NotFoundError } from '../utils/errorHandler';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/errorHandler';
+import { assertWebhookDestination } from '../utils/destinationPolicy';
 
 /**
  * Register instance routes
@@ -44,6 +46,7 @@ export async function instanceRoutes(server: FastifyInstance): Promise<void> {
                   webhookUrl: { type: 'string', nullable: true },
                   webhookEvents: { type: 'array', items: { type: 'string' } },
                   webhookEnabled: { type: 'boolean' },
+                  hasWebhookSecret: { type: 'boolean' },
                   createdAt: { type: 'string', format: 'date-time' },
                   lastActivity: { type: 'string', format: 'date-time' },
                 },
@@ -71,10 +74,15 @@ export async function instanceRoutes(server: FastifyInstance): Promise<void> {
         instanceId: string;
         webhookUrl?: string;
         webhookEvents?: string[];
+        webhookSecret?: string;
       };
 
       const instanceManager = (server as any).instanceManager;
 
+      if (body.webhookUrl) {
+        await assertWebhookDestination((server as any).destinationPolicy, body.webhookUrl, 'webhookUrl');
+      }
+
       try {
         const state = await instanceManager.createInstance(body);
         reply.status(201).send({
@@ -116,6 +124,7 @@ export async function instanceRoutes(server: FastifyInstance): Promise<void> {
                     webhookUrl: { type: 'string', nullable: true },
                     webhookEvents: { type: 'array', items: { type: 'string' } },
                     webhookEnabled: { type: 'boolean' },
+                    hasWebhookSecret: { type: 'boolean' },
                     createdAt: { type: 'string', format: 'date-time' },
                     lastActivity: { type: 'string', format: 'date-time' },
                   },
@@ -168,6 +177,7 @@ export async function instanceRoutes(server: FastifyInstance): Promise<void> {
                   webhookUrl: { type: 'string', nullable: true },
                   webhookEvents: { type: 'array', items: { type: 'string' } },
                   webhookEnabled: { type: 'boolean' },
+                  hasWebhookSecret: { type: 'boolean' },
                   createdAt: { type: 'string', format: 'date-time' },
                   lastActivity: { type: 'string', format: 'date-time' },
                   connectedAt: { type: 'string', format: 'date-time', nullable: true },
@@ -208,6 +218,116 @@ export async function instanceRoutes(server: FastifyInstance): Promise<void> {
     }
   );
 
+  /**
+   * PATCH /instances/:id
+   * Update webhook configuration without reconnecting
+   */
+  server.patch(
+    '/instances/:id',
+    {
+      schema: {
+        description: `Update the webhook configuration of an instance at runtime.
+
+**Behavior:**
+- Changes apply to the next emitted event; the WhatsApp connection is not touched
+- Setting \`webhookUrl\` to \`null\` removes the URL and disables the webhook
+- Setting a URL on an instance without one enables the webhook unless \`webhookEnabled\` is given`,
+        tags: ['Instances'],
+        summary: 'Update instance',
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+          },
+          required: ['id'],
+        },
+        body: {
+          $ref: 'updateInstance#',
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: {
+                type: 'object',
+                properties: {
+                  instanceId: { type: 'string' },
+                  status: { type: 'string' },
+                  webhookUrl: { type: 'string', nullable: true },
+                  webhookEvents: { type: 'array', items: { type: 'string' } },
+                  webhookEnabled: { type: 'boolean' },
+                  hasWebhookSecret: { type: 'boolean' },
+                  createdAt: { type: 'string', format: 'date-time' },
+                  lastActivity: { type: 'string', format: 'date-time' },
+                  connectedAt: { type: 'string', format: 'date-time', nullable: true },
+                  phoneNumber: { type: 'string', nullable: true },
+                },
+              },
+            },
+          },
+          400: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              error: {
+                type: 'object',
+                properties: {
+                  code: { type: 'string' },
+                  message: { type: 'string' },
+                },
+              },
+            },
+          },
+          404: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              error: {
+                type: 'object',
+                properties: {
+                  code: { type: 'string' },
+                  message: { type: 'string' },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const params = request.params as { id: string };
+      const body = request.body as {
+        webhookUrl?: string | null;
+        webhookEvents?: string[];
+        webhookEnabled?: boolean;
+        webhookSecret?: string | null;
+      };
+
+      const instanceManager = (server as any).instanceManager;
+
+      if (body.webhookUrl) {
+        await assertWebhookDestination((server as any).destinationPolicy, body.webhookUrl, 'webhookUrl');
+      }
+
+      try {
+        const state = instanceManager.updateInstance(params.id, body);
+        reply.send({
+          success: true,
+          data: state,
+        });
+      } catch (err: any) {
+        if (err.message?.includes('not found')) {
+          throw new NotFoundError('Instance');
+        }
+        if (err.message?.includes('without a webhook URL')) {
+          throw new BadRequestError(err.message);
+        }
+        throw err;
+      }
+    }
+  );
+
   /**
    * DELETE /instances/:id
    * Delete instance
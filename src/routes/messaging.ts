@@ -9,6 +9,7 @@
  * DELETE /instances/:id/messages/:messageId/local - Delete message for self only
  * POST /instances/:id/messages/forward - Forward message
  * GET /instances/:id/messages/:messageId/media - Download media from message
+ * GET /instances/:id/messages/:messageId/status - Get delivery status of a sent message
  * GET /instances/:id/chats/:jid/messages/load - Load more messages from history
  * POST /instances/:id/messages/image - Send image message
  * POST /instances/:id/messages/video - Send video message
@@ -163,6 +164,11 @@ export async function messagingRoutes(server: FastifyInstance): Promise<void> {
       try {
         const result = await client.sendText(body.to, body.text, body.quoted);
 
+        // Status is known from now on, not only after the first receipt
+        if (result.messageId) {
+          instanceManager.recordSentMessage(params.id, result.messageId, body.to);
+        }
+
         reply.send({
           success: true,
           data: {
@@ -293,6 +299,11 @@ export async function messagingRoutes(server: FastifyInstance): Promise<void> {
           quoted: body.quoted,
         });
 
+        // Status is known from now on, not only after the first receipt
+        if (result.messageId) {
+          instanceManager.recordSentMessage(params.id, result.messageId, body.to);
+        }
+
         reply.send({
           success: true,
           data: {
@@ -1155,6 +1166,98 @@ export async function messagingRoutes(server: FastifyInstance): Promise<void> {
     }
   );
 
+  /**
+   * GET /instances/:id/messages/:messageId/status
+   * Get delivery status of a sent message
+   */
+  server.get(
+    '/instances/:id/messages/:messageId/status',
+    {
+      schema: {
+        description: `Get the sent, delivered and read timestamps of a message sent by the instance.
+
+**Behavior:**
+- Statuses are recorded from the acknowledgements WhatsApp sends while the instance is connected, and also delivered as \`message_status\` webhook events
+- In groups, \`participants\` holds the delivery, read and played time of each member
+- The last \`MESSAGE_STATUS_STORE_SIZE\` messages per instance are kept in memory`,
+        tags: ['Messaging'],
+        summary: 'Get message status',
+        params: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            messageId: { type: 'string' },
+          },
+          required: ['id', 'messageId'],
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: {
+                type: 'object',
+                properties: {
+                  messageId: { type: 'string' },
+                  chatId: { type: 'string' },
+                  status: { type: 'string' },
+                  sentAt: { type: 'number' },
+                  deliveredAt: { type: 'number' },
+                  readAt: { type: 'number' },
+                  playedAt: { type: 'number' },
+                  failedAt: { type: 'number' },
+                  participants: {
+                    type: 'object',
+                    additionalProperties: {
+                      type: 'object',
+                      properties: {
+                        deliveredAt: { type: 'number' },
+                        readAt: { type: 'number' },
+                        playedAt: { type: 'number' },
+                      },
+                    },
+                  },
+                  updatedAt: { type: 'number' },
+                },
+              },
+            },
+          },
+          404: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              error: {
+                type: 'object',
+                properties: {
+                  code: { type: 'string' },
+                  message: { type: 'string' },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const params = request.params as { id: string; messageId: string };
+
+      const instanceManager = (server as any).instanceManager;
+      if (!instanceManager.getInstance(params.id)) {
+        throw new NotFoundError('Instance');
+      }
+
+      const status = instanceManager.getMessageStatus(params.id, params.messageId);
+      if (!status) {
+        throw new NotFoundError('Message status');
+      }
+
+      reply.send({
+        success: true,
+        data: status,
+      });
+    }
+  );
+
   /**
    * GET /instances/:id/chats/:jid/messages/load
    * Load more messages from chat history
@@ -1383,6 +1486,11 @@ export async function messagingRoutes(server: FastifyInstance): Promise<void> {
           throw new BadRequestError('Failed to send image', { error: result.error });
         }
 
+        // Status is known from now on, not only after the first receipt
+        if (result.messageId) {
+          instanceManager.recordSentMessage(params.id, result.messageId, body.to);
+        }
+
         reply.send({
           success: true,
           data: {
@@ -1516,6 +1624,11 @@ export async function messagingRoutes(server: FastifyInstance): Promise<void> {
           throw new BadRequestError('Failed to send video', { error: result.error });
         }
 
+        // Status is known from now on, not only after the first receipt
+        if (result.messageId) {
+          instanceManager.recordSentMessage(params.id, result.messageId, body.to);
+        }
+
         reply.send({
           success: true,
           data: {
@@ -1645,6 +1758,11 @@ export async function messagingRoutes(server: FastifyInstance): Promise<void> {
           throw new BadRequestError('Failed to send audio', { error: result.error });
         }
 
+        // Status is known from now on, not only after the first receipt
+        if (result.messageId) {
+          instanceManager.recordSentMessage(params.id, result.messageId, body.to);
+        }
+
         reply.send({
           success: true,
           data: {
@@ -1776,6 +1894,11 @@ export async function messagingRoutes(server: FastifyInstance): Promise<void> {
           throw new BadRequestError('Failed to send document', { error: result.error });
         }
 
+        // Status is known from now on, not only after the first receipt
+        if (result.messageId) {
+          instanceManager.recordSentMessage(params.id, result.messageId, body.to);
+        }
+
         reply.send({
           success: true,
           data: {
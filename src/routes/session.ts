@@ -93,6 +93,7 @@ export async function sessionRoutes(server: FastifyInstance): Promise<void> {
 
       try {
         await client.logout();
+        instanceManager.setDesiredState(params.id, 'disconnected');
         reply.send({
           success: true,
           message: 'Logged out successfully. Session cleared.',
@@ -179,6 +180,7 @@ export async function sessionRoutes(server: FastifyInstance): Promise<void> {
 
       try {
         await client.dispose();
+        instanceManager.setDesiredState(params.id, 'disconnected');
         reply.send({
           success: true,
           message: 'Instance disposed successfully. Resources cleaned up.',
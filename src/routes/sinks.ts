@@ -0,0 +1,356 @@
+/**
+ * Event Sink Routes
+ * GET /instances/:id/sinks - List event sinks
+ * POST /instances/:id/sinks - Add an event sink
+ * GET /instances/:id/sinks/:sinkId - Get an event sink
+ * PATCH /instances/:id/sinks/:sinkId - Update an event sink
+ * DELETE /instances/:id/sinks/:sinkId - Remove an event sink
+ */
+
+import { FastifyInstance } from 'fastify';
+import { createAuthMiddleware } from '../middleware/auth';
+import { InstanceManager } from '../services/InstanceManager';
+import { NotFoundError, BadRequestError } from '../utils/errorHandler';
+import { EventSink, EventSinkInput, EventSinkUpdate } from '../types';
+
+const errorResponseSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    error: {
+      type: 'object',
+      properties: {
+        code: { type: 'string' },
+        message: { type: 'string' },
+      },
+    },
+  },
+};
+
+const eventSinkSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    type: { type: 'string' },
+    events: {
+      type: 'array',
+      items: { type: 'string' },
+    },
+    enabled: { type: 'boolean' },
+    redis: {
+      type: 'object',
+      properties: {
+        url: { type: 'string' },
+        stream: { type: 'string' },
+        maxLen: { type: 'number' },
+      },
+    },
+    nats: {
+      type: 'object',
+      properties: {
+        servers: { type: 'string' },
+        subject: { type: 'string' },
+      },
+    },
+    file: {
+      type: 'object',
+      properties: {
+        fileName: { type: 'string' },
+      },
+    },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+};
+
+const instanceParamsSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+  },
+  required: ['id'],
+};
+
+const sinkParamsSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    sinkId: { type: 'string' },
+  },
+  required: ['id', 'sinkId'],
+};
+
+/**
+ * Hide credentials in broker URLs (user:password@ or token@)
+ */
+export function redactCredentials(url: string): string {
+  return url.replace(/^([a-z][a-z0-9+.-]*:\/\/)[^@/]+@/i, '$1***@');
+}
+
+/**
+ * Sink as returned by the API (broker credentials are never returned)
+ */
+function toSinkResponse(sink: EventSink) {
+  return {
+    ...sink,
+    redis: sink.redis && { ...sink.redis, url: redactCredentials(sink.redis.url) },
+    nats: sink.nats && {
+      ...sink.nats,
+      servers: sink.nats.servers
+        .split(',')
+        .map((server) => redactCredentials(server.trim()))
+        .join(','),
+    },
+  };
+}
+
+/**
+ * Every sink type needs its own settings block
+ */
+function checkSinkSettings(input: EventSinkInput): void {
+  if (input.type === 'redis_stream' && !input.redis) {
+    throw new BadRequestError('redis settings are required for redis_stream sinks');
+  }
+  if (input.type === 'nats' && !input.nats) {
+    throw new BadRequestError('nats settings are required for nats sinks');
+  }
+}
+
+/**
+ * Map InstanceManager lookup errors to API errors
+ */
+function toNotFoundError(err: any): unknown {
+  if (err.message?.startsWith('Instance') && err.message.includes('not found')) {
+    return new NotFoundError('Instance');
+  }
+  if (err.message?.startsWith('Sink') && err.message.includes('not found')) {
+    return new NotFoundError('Sink');
+  }
+  return err;
+}
+
+/**
+ * Register event sink routes
+ */
+export async function sinkRoutes(server: FastifyInstance, instanceManager: InstanceManager): Promise<void> {
+  // All routes require authentication
+  server.addHook('onRequest', createAuthMiddleware());
+
+  /**
+   * GET /instances/:id/sinks
+   * List event sinks
+   */
+  server.get(
+    '/instances/:id/sinks',
+    {
+      schema: {
+        description: 'List the event sinks of an instance',
+        tags: ['Events'],
+        summary: 'List event sinks',
+        params: instanceParamsSchema,
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: {
+                type: 'array',
+                items: eventSinkSchema,
+              },
+            },
+          },
+          404: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const params = request.params as { id: string };
+
+      try {
+        const sinks = instanceManager.listSinks(params.id);
+        reply.send({
+          success: true,
+          data: sinks.map(toSinkResponse),
+        });
+      } catch (err) {
+        throw toNotFoundError(err);
+      }
+    }
+  );
+
+  /**
+   * POST /instances/:id/sinks
+   * Add an event sink
+   */
+  server.post(
+    '/instances/:id/sinks',
+    {
+      schema: {
+        description: `Write the events of an instance to a broker or file, in addition to webhooks.
+
+**Types:**
+- \`redis_stream\` - \`XADD\` to a Redis stream (fields \`id\`, \`event\`, \`instanceId\`, \`payload\`), consume with \`XREADGROUP\`
+- \`nats\` - publish the payload JSON to a NATS subject (\`Nats-Msg-Id\` is the event ID), consume with queue groups or JetStream
+- \`jsonl_file\` - append one payload JSON per line to a file in \`EVENT_SINK_FILE_DIR\`
+
+**Behavior:**
+- Events are written in order, failed writes are logged and not retried
+- Broker credentials in URLs are redacted in responses`,
+        tags: ['Events'],
+        summary: 'Add event sink',
+        params: instanceParamsSchema,
+        body: {
+          $ref: 'createEventSink#',
+        },
+        response: {
+          201: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: eventSinkSchema,
+            },
+          },
+          400: errorResponseSchema,
+          404: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const params = request.params as { id: string };
+      const body = request.body as EventSinkInput;
+
+      checkSinkSettings(body);
+
+      try {
+        const sink = instanceManager.addSink(params.id, body);
+        reply.status(201).send({
+          success: true,
+          data: toSinkResponse(sink),
+        });
+      } catch (err) {
+        throw toNotFoundError(err);
+      }
+    }
+  );
+
+  /**
+   * GET /instances/:id/sinks/:sinkId
+   * Get an event sink
+   */
+  server.get(
+    '/instances/:id/sinks/:sinkId',
+    {
+      schema: {
+        description: 'Get a single event sink',
+        tags: ['Events'],
+        summary: 'Get event sink',
+        params: sinkParamsSchema,
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: eventSinkSchema,
+            },
+          },
+          404: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const params = request.params as { id: string; sinkId: string };
+
+      try {
+        const sink = instanceManager.getSink(params.id, params.sinkId);
+        reply.send({
+          success: true,
+          data: toSinkResponse(sink),
+        });
+      } catch (err) {
+        throw toNotFoundError(err);
+      }
+    }
+  );
+
+  /**
+   * PATCH /instances/:id/sinks/:sinkId
+   * Update an event sink
+   */
+  server.patch(
+    '/instances/:id/sinks/:sinkId',
+    {
+      schema: {
+        description:
+          'Change the events or enabled flag of an event sink. Disabling closes its connection; to change the destination, add a new sink.',
+        tags: ['Events'],
+        summary: 'Update event sink',
+        params: sinkParamsSchema,
+        body: {
+          $ref: 'updateEventSink#',
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: eventSinkSchema,
+            },
+          },
+          404: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const params = request.params as { id: string; sinkId: string };
+
+      try {
+        const sink = instanceManager.updateSink(params.id, params.sinkId, request.body as EventSinkUpdate);
+        reply.send({
+          success: true,
+          data: toSinkResponse(sink),
+        });
+      } catch (err) {
+        throw toNotFoundError(err);
+      }
+    }
+  );
+
+  /**
+   * DELETE /instances/:id/sinks/:sinkId
+   * Remove an event sink
+   */
+  server.delete(
+    '/instances/:id/sinks/:sinkId',
+    {
+      schema: {
+        description: 'Remove an event sink. Events already handed to it are still written before its connection closes.',
+        tags: ['Events'],
+        summary: 'Remove event sink',
+        params: sinkParamsSchema,
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+            },
+          },
+          404: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const params = request.params as { id: string; sinkId: string };
+
+      try {
+        instanceManager.removeSink(params.id, params.sinkId);
+        reply.send({
+          success: true,
+          message: 'Event sink removed successfully',
+        });
+      } catch (err) {
+        throw toNotFoundError(err);
+      }
+    }
+  );
+}
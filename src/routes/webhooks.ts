@@ -2,11 +2,302 @@
  * Webhook Management Routes
  * POST /instances/:id/webhook/test - Send test webhook
  * GET /instances/:id/webhook/status - Get webhook delivery stats
+ * GET /webhooks/stats - Get server-wide webhook delivery stats
+ * GET /instances/:id/webhook/dead-letters - List failed deliveries
+ * GET /instances/:id/webhook/dead-letters/:deliveryId - Inspect a failed delivery
+ * POST /instances/:id/webhook/dead-letters/:deliveryId/replay - Replay a failed delivery
+ * POST /instances/:id/webhook/dead-letters/replay - Replay failed deliveries by time range
+ * DELETE /instances/:id/webhook/dead-letters - Purge failed deliveries
+ * GET /instances/:id/webhook/deliveries - List recent delivery attempts
+ * GET /instances/:id/webhook/deliveries/:deliveryId - Inspect a delivery and its attempts
+ * GET /instances/:id/webhooks - List webhook subscriptions
+ * POST /instances/:id/webhooks - Add a webhook subscription
+ * GET /instances/:id/webhooks/:webhookId - Get a webhook subscription
+ * PATCH /instances/:id/webhooks/:webhookId - Update a webhook subscription
+ * DELETE /instances/:id/webhooks/:webhookId - Remove a webhook subscription
+ * POST /instances/:id/webhook/secret/rotate - Rotate the instance webhook secret
+ * POST /instances/:id/webhooks/:webhookId/secret/rotate - Rotate a subscription secret
  */
 
+import crypto from 'crypto';
+import tls from 'tls';
 import { FastifyInstance } from 'fastify';
 import { createAuthMiddleware } from '../middleware/auth';
 import { NotFoundError, BadRequestError, ServiceUnavailableError } from '../utils/errorHandler';
+import { assertWebhookDestination } from '../utils/destinationPolicy';
+import { redactHeaders } from '../utils/redact';
+import {
+  WebhookAuth,
+  WebhookSecretRotationInput,
+  WebhookSubscription,
+  WebhookSubscriptionInput,
+  WebhookSubscriptionUpdate,
+  WebhookTlsSettings,
+} from '../types';
+
+// Delivery counters shared by instance, destination and aggregate stats
+const deliveryStatsProperties = {
+  queued: { type: 'number' },
+  delivered: { type: 'number' },
+  failed: { type: 'number' },
+  lastDeliveryTime: { type: 'number' },
+  lastFailureTime: { type: 'number' },
+};
+
+const circuitSchema = {
+  type: 'object',
+  properties: {
+    url: { type: 'string' },
+    state: { type: 'string', enum: ['closed', 'open', 'half_open'] },
+    consecutiveFailures: { type: 'number' },
+    openedAt: { type: 'number' },
+    nextProbeAt: { type: 'number' },
+  },
+};
+
+const destinationStatsSchema = {
+  type: 'object',
+  properties: {
+    url: { type: 'string' },
+    ...deliveryStatsProperties,
+    lastError: { type: 'string' },
+    lastStatusCode: { type: 'number' },
+    averageLatencyMs: { type: 'number' },
+    circuit: circuitSchema,
+  },
+};
+
+const instanceStatsSchema = {
+  type: 'object',
+  properties: {
+    instanceId: { type: 'string' },
+    ...deliveryStatsProperties,
+    inFlight: { type: 'number' },
+    lastError: { type: 'string' },
+    averageLatencyMs: { type: 'number' },
+    destinations: {
+      type: 'array',
+      items: destinationStatsSchema,
+    },
+  },
+};
+
+const backpressureSchema = {
+  type: 'object',
+  properties: {
+    concurrency: { type: 'number' },
+    inFlight: { type: 'number' },
+    queued: { type: 'number' },
+    waitingForWorker: { type: 'number' },
+    blocked: { type: 'number' },
+    oldestQueuedAgeMs: { type: 'number' },
+  },
+};
+
+const errorResponseSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    error: {
+      type: 'object',
+      properties: {
+        code: { type: 'string' },
+        message: { type: 'string' },
+      },
+    },
+  },
+};
+
+const deadLetterSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    instanceId: { type: 'string' },
+    event: { type: 'string' },
+    url: { type: 'string' },
+    subscriptionId: { type: 'string' },
+    attempts: { type: 'number' },
+    lastStatusCode: { type: 'number' },
+    lastError: { type: 'string' },
+    failedAt: { type: 'number' },
+  },
+};
+
+// Time range / event filter shared by list, bulk replay and purge
+const deadLetterFilterProperties = {
+  event: { type: 'string' },
+  from: { type: 'integer', minimum: 0, description: 'Only failures at or after this time (ms since epoch)' },
+  to: { type: 'integer', minimum: 0, description: 'Only failures at or before this time (ms since epoch)' },
+};
+
+// Attempt as listed; request/response capture is only in the delivery detail
+const deliveryAttemptSchema = {
+  type: 'object',
+  properties: {
+    deliveryId: { type: 'string' },
+    instanceId: { type: 'string' },
+    event: { type: 'string' },
+    url: { type: 'string' },
+    subscriptionId: { type: 'string' },
+    attempt: { type: 'number' },
+    status: { type: 'string', enum: ['success', 'failed'] },
+    statusCode: { type: 'number' },
+    latencyMs: { type: 'number' },
+    error: { type: 'string' },
+    startedAt: { type: 'number' },
+  },
+};
+
+const instanceParamsSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+  },
+  required: ['id'],
+};
+
+const deadLetterParamsSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    deliveryId: { type: 'string' },
+  },
+  required: ['id', 'deliveryId'],
+};
+
+const webhookSubscriptionSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    url: { type: 'string' },
+    events: { type: 'array', items: { type: 'string' } },
+    hasSecret: { type: 'boolean' },
+    previousSecretExpiresAt: { type: 'string', format: 'date-time' },
+    headers: { type: 'object', additionalProperties: { type: 'string' } },
+    auth: {
+      type: 'object',
+      properties: {
+        type: { type: 'string' },
+        username: { type: 'string' },
+      },
+    },
+    tls: {
+      type: 'object',
+      properties: {
+        hasClientCertificate: { type: 'boolean' },
+        hasCa: { type: 'boolean' },
+      },
+    },
+    retryPolicy: {
+      type: 'object',
+      properties: {
+        baseDelayMs: { type: 'number' },
+        multiplier: { type: 'number' },
+        jitter: { type: 'number' },
+        maxDelayMs: { type: 'number' },
+        maxAttempts: { type: 'number' },
+      },
+    },
+    filter: { type: 'object', additionalProperties: true },
+    format: { type: 'string' },
+    template: { type: 'object', additionalProperties: true },
+    batch: {
+      type: 'object',
+      properties: {
+        maxSize: { type: 'number' },
+        maxWaitMs: { type: 'number' },
+      },
+    },
+    enabled: { type: 'boolean' },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+};
+
+const webhookParamsSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    webhookId: { type: 'string' },
+  },
+  required: ['id', 'webhookId'],
+};
+
+const secretRotationResponseSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    data: {
+      type: 'object',
+      properties: {
+        secret: { type: 'string' },
+        previousSecretExpiresAt: { type: 'string', format: 'date-time' },
+      },
+    },
+  },
+};
+
+/**
+ * Subscription as returned by the API (secrets, credentials and TLS material are never returned)
+ */
+function toWebhookResponse(webhook: WebhookSubscription) {
+  const { secret, previousSecret, auth, tls: tlsSettings, ...rest } = webhook;
+  return {
+    ...rest,
+    headers: redactHeaders(webhook.headers || {}),
+    format: webhook.format || 'miaw',
+    auth: auth && { type: auth.type, username: auth.type === 'basic' ? auth.username : undefined },
+    tls: tlsSettings && { hasClientCertificate: !!tlsSettings.cert, hasCa: !!tlsSettings.ca },
+    hasSecret: !!secret,
+    previousSecretExpiresAt: previousSecret?.expiresAt,
+  };
+}
+
+/**
+ * Credentials need the fields of their type, TLS material must load
+ */
+function checkWebhookCredentials(auth?: WebhookAuth | null, tlsSettings?: WebhookTlsSettings | null): void {
+  if (auth?.type === 'bearer' && !auth.token) {
+    throw new BadRequestError('auth.token is required for bearer auth');
+  }
+  if (auth?.type === 'basic' && (!auth.username || auth.password === undefined)) {
+    throw new BadRequestError('auth.username and auth.password are required for basic auth');
+  }
+
+  if (!tlsSettings) {
+    return;
+  }
+  if (!tlsSettings.cert !== !tlsSettings.key) {
+    throw new BadRequestError('tls.cert and tls.key must be set together');
+  }
+  // Node ignores CA strings without PEM certificates instead of failing
+  if (tlsSettings.ca !== undefined && !tlsSettings.ca.includes('-----BEGIN CERTIFICATE-----')) {
+    throw new BadRequestError('tls.ca must be a PEM certificate bundle');
+  }
+  try {
+    tls.createSecureContext({
+      cert: tlsSettings.cert,
+      key: tlsSettings.key,
+      passphrase: tlsSettings.passphrase,
+      ca: tlsSettings.ca,
+    });
+  } catch (err: any) {
+    throw new BadRequestError(`Invalid tls settings: ${err.message}`);
+  }
+}
+
+/**
+ * Map InstanceManager lookup errors to API errors
+ */
+function toNotFoundError(err: any): unknown {
+  if (err.message?.startsWith('Instance') && err.message.includes('not found')) {
+    return new NotFoundError('Instance');
+  }
+  if (err.message?.startsWith('Webhook') && err.message.includes('not found')) {
+    return new NotFoundError('Webhook');
+  }
+  return err;
+}
 
 /**
  * Register webhook management routes
@@ -52,6 +343,7 @@ export async function webhookRoutes(server: FastifyInstance): Promise<void> {
                 type: 'object',
                 properties: {
                   sent: { type: 'boolean' },
+                  deliveryId: { type: 'string' },
                   webhookUrl: { type: 'string' },
                   testEvent: { type: 'object' },
                 },
@@ -117,6 +409,7 @@ export async function webhookRoutes(server: FastifyInstance): Promise<void> {
 
       // Create test event payload
       const testEvent = {
+        id: crypto.randomUUID(),
         event: body.event || 'test',
         instanceId: params.id,
         timestamp: Date.now(),
@@ -133,7 +426,7 @@ export async function webhookRoutes(server: FastifyInstance): Promise<void> {
           throw new ServiceUnavailableError('Webhook dispatcher not available');
         }
 
-        await webhookDispatcher.queue(instance.webhookUrl, testEvent);
+        const deliveryId = await webhookDispatcher.queue(instance.webhookUrl, testEvent);
 
         // Wait a moment for delivery attempt
         await new Promise((resolve) => setTimeout(resolve, 2000));
@@ -142,6 +435,7 @@ export async function webhookRoutes(server: FastifyInstance): Promise<void> {
           success: true,
           data: {
             sent: true,
+            deliveryId,
             webhookUrl: instance.webhookUrl,
             testEvent,
           },
@@ -162,7 +456,7 @@ export async function webhookRoutes(server: FastifyInstance): Promise<void> {
     '/instances/:id/webhook/status',
     {
       schema: {
-        description: 'Get webhook delivery statistics for an instance',
+        description: 'Get webhook delivery statistics for an instance, broken down by destination URL (queued, delivered, failed, last error, average latency, circuit breaker state)',
         tags: ['Webhooks'],
         summary: 'Get webhook statistics',
         params: {
@@ -186,16 +480,7 @@ export async function webhookRoutes(server: FastifyInstance): Promise<void> {
                     type: 'array',
                     items: { type: 'string' },
                   },
-                  stats: {
-                    type: 'object',
-                    properties: {
-                      queued: { type: 'number' },
-                      delivered: { type: 'number' },
-                      failed: { type: 'number' },
-                      lastDeliveryTime: { type: 'number' },
-                      lastFailureTime: { type: 'number' },
-                    },
-                  },
+                  stats: instanceStatsSchema,
                 },
               },
             },
@@ -232,7 +517,7 @@ export async function webhookRoutes(server: FastifyInstance): Promise<void> {
           throw new ServiceUnavailableError('Webhook dispatcher not available');
         }
 
-        const stats = webhookDispatcher.getStats();
+        const stats = webhookDispatcher.getInstanceStats(params.id);
 
         reply.send({
           success: true,
@@ -250,4 +535,787 @@ export async function webhookRoutes(server: FastifyInstance): Promise<void> {
       }
     }
   );
+
+  /**
+   * GET /webhooks/stats
+   * Get server-wide webhook delivery statistics
+   */
+  server.get(
+    '/webhooks/stats',
+    {
+      schema: {
+        description: 'Get webhook delivery statistics across all instances, with a per-instance breakdown and worker pool backpressure (`waitingForWorker` keeps growing when consumers are too slow for the configured concurrency)',
+        tags: ['Webhooks'],
+        summary: 'Get aggregate webhook statistics',
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: {
+                type: 'object',
+                properties: {
+                  ...deliveryStatsProperties,
+                  backpressure: backpressureSchema,
+                  circuitOpens: { type: 'number' },
+                  circuits: {
+                    type: 'array',
+                    items: circuitSchema,
+                  },
+                  instances: {
+                    type: 'array',
+                    items: instanceStatsSchema,
+                  },
+                },
+              },
+            },
+          },
+          503: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              error: {
+                type: 'object',
+                properties: {
+                  code: { type: 'string' },
+                  message: { type: 'string' },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (_request, reply) => {
+      const webhookDispatcher = (server as any).webhookDispatcher;
+      if (!webhookDispatcher) {
+        throw new ServiceUnavailableError('Webhook dispatcher not available');
+      }
+
+      reply.send({
+        success: true,
+        data: webhookDispatcher.getAggregateStats(),
+      });
+    }
+  );
+
+  /**
+   * Get webhook dispatcher or fail with 503
+   */
+  function getDispatcher() {
+    const webhookDispatcher = (server as any).webhookDispatcher;
+    if (!webhookDispatcher) {
+      throw new ServiceUnavailableError('Webhook dispatcher not available');
+    }
+    return webhookDispatcher;
+  }
+
+  /**
+   * Ensure the instance exists
+   */
+  function assertInstance(instanceId: string): void {
+    if (!(server as any).instanceManager.getInstance(instanceId)) {
+      throw new NotFoundError('Instance');
+    }
+  }
+
+  /**
+   * GET /instances/:id/webhook/dead-letters
+   * List deliveries that exhausted their retries
+   */
+  server.get(
+    '/instances/:id/webhook/dead-letters',
+    {
+      schema: {
+        description: 'List webhook deliveries that failed after the maximum number of retries, newest first',
+        tags: ['Webhooks'],
+        summary: 'List dead letters',
+        params: instanceParamsSchema,
+        querystring: {
+          type: 'object',
+          properties: {
+            ...deadLetterFilterProperties,
+            limit: { type: 'integer', minimum: 1, maximum: 500, default: 50 },
+            offset: { type: 'integer', minimum: 0, default: 0 },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: {
+                type: 'object',
+                properties: {
+                  total: { type: 'number' },
+                  items: { type: 'array', items: deadLetterSchema },
+                },
+              },
+            },
+          },
+          404: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const params = request.params as { id: string };
+      const query = request.query as {
+        event?: string;
+        from?: number;
+        to?: number;
+        limit: number;
+        offset: number;
+      };
+
+      assertInstance(params.id);
+
+      const deadLetters = getDispatcher().listDeadLetters({
+        instanceId: params.id,
+        event: query.event,
+        from: query.from,
+        to: query.to,
+      });
+
+      reply.send({
+        success: true,
+        data: {
+          total: deadLetters.length,
+          items: deadLetters.slice(query.offset, query.offset + query.limit),
+        },
+      });
+    }
+  );
+
+  /**
+   * GET /instances/:id/webhook/dead-letters/:deliveryId
+   * Inspect a failed delivery including its payload
+   */
+  server.get(
+    '/instances/:id/webhook/dead-letters/:deliveryId',
+    {
+      schema: {
+        description: 'Get a failed webhook delivery including the original payload',
+        tags: ['Webhooks'],
+        summary: 'Get dead letter',
+        params: deadLetterParamsSchema,
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: {
+                type: 'object',
+                properties: {
+                  ...deadLetterSchema.properties,
+                  // An array of payloads for batched deliveries
+                  payload: {
+                    anyOf: [
+                      { type: 'object', additionalProperties: true },
+                      { type: 'array', items: { type: 'object', additionalProperties: true } },
+                    ],
+                  },
+                },
+              },
+            },
+          },
+          404: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const params = request.params as { id: string; deliveryId: string };
+
+      assertInstance(params.id);
+
+      const deadLetter = getDispatcher().getDeadLetter(params.id, params.deliveryId);
+      if (!deadLetter) {
+        throw new NotFoundError('Dead letter');
+      }
+
+      reply.send({
+        success: true,
+        data: deadLetter,
+      });
+    }
+  );
+
+  /**
+   * POST /instances/:id/webhook/dead-letters/:deliveryId/replay
+   * Queue a failed delivery again
+   */
+  server.post(
+    '/instances/:id/webhook/dead-letters/:deliveryId/replay',
+    {
+      schema: {
+        description: 'Queue a failed webhook delivery again with a fresh retry budget. The delivery keeps its original ID.',
+        tags: ['Webhooks'],
+        summary: 'Replay dead letter',
+        params: deadLetterParamsSchema,
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+            },
+          },
+          404: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const params = request.params as { id: string; deliveryId: string };
+
+      assertInstance(params.id);
+
+      if (!getDispatcher().replayDeadLetter(params.id, params.deliveryId)) {
+        throw new NotFoundError('Dead letter');
+      }
+
+      reply.send({
+        success: true,
+        message: 'Dead letter queued for delivery',
+      });
+    }
+  );
+
+  /**
+   * POST /instances/:id/webhook/dead-letters/replay
+   * Replay failed deliveries in bulk
+   */
+  server.post(
+    '/instances/:id/webhook/dead-letters/replay',
+    {
+      schema: {
+        description: 'Queue all failed webhook deliveries matching the filter again, oldest first. Omit the body to replay everything.',
+        tags: ['Webhooks'],
+        summary: 'Replay dead letters',
+        params: instanceParamsSchema,
+        body: {
+          type: 'object',
+          nullable: true,
+          properties: deadLetterFilterProperties,
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: {
+                type: 'object',
+                properties: {
+                  replayed: { type: 'number' },
+                },
+              },
+            },
+          },
+          404: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const params = request.params as { id: string };
+      const body = (request.body || {}) as { event?: string; from?: number; to?: number };
+
+      assertInstance(params.id);
+
+      const replayed = getDispatcher().replayDeadLetters({
+        instanceId: params.id,
+        event: body.event,
+        from: body.from,
+        to: body.to,
+      });
+
+      reply.send({
+        success: true,
+        data: { replayed },
+      });
+    }
+  );
+
+  /**
+   * DELETE /instances/:id/webhook/dead-letters
+   * Purge failed deliveries
+   */
+  server.delete(
+    '/instances/:id/webhook/dead-letters',
+    {
+      schema: {
+        description: 'Delete failed webhook deliveries matching the filter. Without filters all dead letters of the instance are removed.',
+        tags: ['Webhooks'],
+        summary: 'Purge dead letters',
+        params: instanceParamsSchema,
+        querystring: {
+          type: 'object',
+          properties: deadLetterFilterProperties,
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: {
+                type: 'object',
+                properties: {
+                  purged: { type: 'number' },
+                },
+              },
+            },
+          },
+          404: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const params = request.params as { id: string };
+      const query = request.query as { event?: string; from?: number; to?: number };
+
+      assertInstance(params.id);
+
+      const purged = getDispatcher().purgeDeadLetters({
+        instanceId: params.id,
+        event: query.event,
+        from: query.from,
+        to: query.to,
+      });
+
+      reply.send({
+        success: true,
+        data: { purged },
+      });
+    }
+  );
+
+  /**
+   * GET /instances/:id/webhook/deliveries
+   * List recent delivery attempts
+   */
+  server.get(
+    '/instances/:id/webhook/deliveries',
+    {
+      schema: {
+        description:
+          'List recent webhook delivery attempts, newest first. Only the last attempts per instance are kept in memory (`WEBHOOK_DELIVERY_LOG_SIZE`).',
+        tags: ['Webhooks'],
+        summary: 'List delivery attempts',
+        params: instanceParamsSchema,
+        querystring: {
+          type: 'object',
+          properties: {
+            event: { type: 'string' },
+            status: { type: 'string', enum: ['success', 'failed'] },
+            from: { type: 'integer', minimum: 0, description: 'Only attempts started at or after this time (ms since epoch)' },
+            to: { type: 'integer', minimum: 0, description: 'Only attempts started at or before this time (ms since epoch)' },
+            limit: { type: 'integer', minimum: 1, maximum: 500, default: 50 },
+            offset: { type: 'integer', minimum: 0, default: 0 },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: {
+                type: 'object',
+                properties: {
+                  total: { type: 'number' },
+                  items: { type: 'array', items: deliveryAttemptSchema },
+                },
+              },
+            },
+          },
+          404: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const params = request.params as { id: string };
+      const query = request.query as {
+        event?: string;
+        status?: 'success' | 'failed';
+        from?: number;
+        to?: number;
+        limit: number;
+        offset: number;
+      };
+
+      assertInstance(params.id);
+
+      const attempts = getDispatcher().listDeliveryAttempts({
+        instanceId: params.id,
+        event: query.event,
+        status: query.status,
+        from: query.from,
+        to: query.to,
+      });
+
+      reply.send({
+        success: true,
+        data: {
+          total: attempts.length,
+          items: attempts.slice(query.offset, query.offset + query.limit),
+        },
+      });
+    }
+  );
+
+  /**
+   * GET /instances/:id/webhook/deliveries/:deliveryId
+   * Inspect a delivery including the captured requests and responses
+   */
+  server.get(
+    '/instances/:id/webhook/deliveries/:deliveryId',
+    {
+      schema: {
+        description:
+          'Get a webhook delivery with its current state and every recorded attempt, including request headers, request body and response body (bodies are truncated)',
+        tags: ['Webhooks'],
+        summary: 'Get delivery',
+        params: deadLetterParamsSchema,
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: {
+                type: 'object',
+                properties: {
+                  deliveryId: { type: 'string' },
+                  instanceId: { type: 'string' },
+                  state: {
+                    type: 'string',
+                    enum: ['pending', 'in_flight', 'delivered', 'dead_letter', 'failed'],
+                  },
+                  nextRetryTime: { type: 'number' },
+                  attempts: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        ...deliveryAttemptSchema.properties,
+                        requestHeaders: { type: 'object', additionalProperties: { type: 'string' } },
+                        requestBody: { type: 'string' },
+                        responseBody: { type: 'string' },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          404: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const params = request.params as { id: string; deliveryId: string };
+
+      assertInstance(params.id);
+
+      const delivery = getDispatcher().getDelivery(params.id, params.deliveryId);
+      if (!delivery) {
+        throw new NotFoundError('Delivery');
+      }
+
+      reply.send({
+        success: true,
+        data: delivery,
+      });
+    }
+  );
+
+  /**
+   * GET /instances/:id/webhooks
+   * List webhook subscriptions
+   */
+  server.get(
+    '/instances/:id/webhooks',
+    {
+      schema: {
+        description: 'List the webhook subscriptions of an instance. These are delivered in addition to the instance `webhookUrl`.',
+        tags: ['Webhooks'],
+        summary: 'List webhook subscriptions',
+        params: instanceParamsSchema,
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: {
+                type: 'array',
+                items: webhookSubscriptionSchema,
+              },
+            },
+          },
+          404: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const params = request.params as { id: string };
+
+      try {
+        const webhooks = (server as any).instanceManager.listWebhooks(params.id);
+        reply.send({
+          success: true,
+          data: webhooks.map(toWebhookResponse),
+        });
+      } catch (err) {
+        throw toNotFoundError(err);
+      }
+    }
+  );
+
+  /**
+   * POST /instances/:id/webhooks
+   * Add a webhook subscription
+   */
+  server.post(
+    '/instances/:id/webhooks',
+    {
+      schema: {
+        description: `Add a webhook endpoint with its own event filter, signing secret and headers.
+
+**Behavior:**
+- Every matching event is delivered to each enabled subscription independently
+- Without \`secret\` deliveries are signed with the server webhook secret
+- Custom headers cannot override \`Content-Type\`, \`User-Agent\`, \`X-Miaw-*\` or \`ce-*\` headers
+- \`auth\` sends bearer or basic credentials as the \`Authorization\` header
+- \`tls\` presents a client certificate (mutual TLS) and/or trusts a custom CA bundle
+- Credentials, TLS material and sensitive header values are redacted in responses and the delivery log
+- \`format\` sends the Miaw payload (\`miaw\`, default) or a CloudEvent (\`cloudevents_structured\` body, \`cloudevents_binary\` \`ce-*\` headers); \`X-Miaw-Signature\` signs the body as sent
+- \`retryPolicy\` overrides the server-wide retry settings for this endpoint
+- An endpoint answering 410 Gone is disabled automatically
+- The URL must pass the destination policy (no private or loopback addresses by default)`,
+        tags: ['Webhooks'],
+        summary: 'Add webhook subscription',
+        params: instanceParamsSchema,
+        body: {
+          $ref: 'createWebhook#',
+        },
+        response: {
+          201: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: webhookSubscriptionSchema,
+            },
+          },
+          400: errorResponseSchema,
+          404: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const params = request.params as { id: string };
+      const body = request.body as WebhookSubscriptionInput;
+
+      checkWebhookCredentials(body.auth, body.tls);
+      await assertWebhookDestination((server as any).destinationPolicy, body.url);
+
+      try {
+        const webhook = (server as any).instanceManager.addWebhook(params.id, body);
+        reply.status(201).send({
+          success: true,
+          data: toWebhookResponse(webhook),
+        });
+      } catch (err) {
+        throw toNotFoundError(err);
+      }
+    }
+  );
+
+  /**
+   * GET /instances/:id/webhooks/:webhookId
+   * Get a webhook subscription
+   */
+  server.get(
+    '/instances/:id/webhooks/:webhookId',
+    {
+      schema: {
+        description: 'Get a single webhook subscription',
+        tags: ['Webhooks'],
+        summary: 'Get webhook subscription',
+        params: webhookParamsSchema,
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: webhookSubscriptionSchema,
+            },
+          },
+          404: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const params = request.params as { id: string; webhookId: string };
+
+      try {
+        const webhook = (server as any).instanceManager.getWebhook(params.id, params.webhookId);
+        reply.send({
+          success: true,
+          data: toWebhookResponse(webhook),
+        });
+      } catch (err) {
+        throw toNotFoundError(err);
+      }
+    }
+  );
+
+  /**
+   * PATCH /instances/:id/webhooks/:webhookId
+   * Update a webhook subscription
+   */
+  server.patch(
+    '/instances/:id/webhooks/:webhookId',
+    {
+      schema: {
+        description:
+          'Update a webhook subscription. Setting `secret` or `retryPolicy` to `null` falls back to the server defaults, `auth` or `tls` to `null` removes them. `headers`, `auth` and `tls` replace the current values, so redacted header values must be sent again.',
+        tags: ['Webhooks'],
+        summary: 'Update webhook subscription',
+        params: webhookParamsSchema,
+        body: {
+          $ref: 'updateWebhook#',
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: webhookSubscriptionSchema,
+            },
+          },
+          400: errorResponseSchema,
+          404: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const params = request.params as { id: string; webhookId: string };
+      const body = request.body as WebhookSubscriptionUpdate;
+
+      checkWebhookCredentials(body.auth, body.tls);
+      if (body.url) {
+        await assertWebhookDestination((server as any).destinationPolicy, body.url);
+      }
+
+      try {
+        const webhook = (server as any).instanceManager.updateWebhook(params.id, params.webhookId, body);
+        reply.send({
+          success: true,
+          data: toWebhookResponse(webhook),
+        });
+      } catch (err) {
+        throw toNotFoundError(err);
+      }
+    }
+  );
+
+  /**
+   * DELETE /instances/:id/webhooks/:webhookId
+   * Remove a webhook subscription
+   */
+  server.delete(
+    '/instances/:id/webhooks/:webhookId',
+    {
+      schema: {
+        description: 'Remove a webhook subscription. Deliveries already queued for it are dead-lettered when due, since its credentials are gone.',
+        tags: ['Webhooks'],
+        summary: 'Remove webhook subscription',
+        params: webhookParamsSchema,
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+            },
+          },
+          404: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const params = request.params as { id: string; webhookId: string };
+
+      try {
+        (server as any).instanceManager.removeWebhook(params.id, params.webhookId);
+        reply.send({
+          success: true,
+          message: 'Webhook subscription removed successfully',
+        });
+      } catch (err) {
+        throw toNotFoundError(err);
+      }
+    }
+  );
+
+  /**
+   * POST /instances/:id/webhook/secret/rotate
+   * Rotate the instance webhook secret with a grace period
+   */
+  server.post(
+    '/instances/:id/webhook/secret/rotate',
+    {
+      schema: {
+        description:
+          'Replace the signing secret of the instance webhook. Until `previousSecretExpiresAt` every request carries signatures with both the new and the previous secret in `X-Miaw-Signature`. The new secret is only returned here.',
+        tags: ['Webhooks'],
+        summary: 'Rotate instance webhook secret',
+        params: instanceParamsSchema,
+        body: { $ref: 'rotateWebhookSecret#' },
+        response: {
+          200: secretRotationResponseSchema,
+          404: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const params = request.params as { id: string };
+      const body = (request.body || {}) as WebhookSecretRotationInput;
+
+      try {
+        const rotation = (server as any).instanceManager.rotateInstanceWebhookSecret(params.id, body);
+        reply.send({ success: true, data: rotation });
+      } catch (err: any) {
+        throw toNotFoundError(err);
+      }
+    }
+  );
+
+  /**
+   * POST /instances/:id/webhooks/:webhookId/secret/rotate
+   * Rotate a subscription secret with a grace period
+   */
+  server.post(
+    '/instances/:id/webhooks/:webhookId/secret/rotate',
+    {
+      schema: {
+        description:
+          'Replace the signing secret of a webhook subscription. Until `previousSecretExpiresAt` every request carries signatures with both the new and the previous secret in `X-Miaw-Signature`. The new secret is only returned here.',
+        tags: ['Webhooks'],
+        summary: 'Rotate webhook subscription secret',
+        params: webhookParamsSchema,
+        body: { $ref: 'rotateWebhookSecret#' },
+        response: {
+          200: secretRotationResponseSchema,
+          404: errorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const params = request.params as { id: string; webhookId: string };
+      const body = (request.body || {}) as WebhookSecretRotationInput;
+
+      try {
+        const rotation = (server as any).instanceManager.rotateWebhookSecret(params.id, params.webhookId, body);
+        reply.send({ success: true, data: rotation });
+      } catch (err: any) {
+        throw toNotFoundError(err);
+      }
+    }
+  );
 }
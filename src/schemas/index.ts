@@ -3,6 +3,27 @@
  */
 
 import { FastifyInstance } from 'fastify';
+import { WebhookEvent } from '../types';
+
+// Webhook event names accepted in event filters
+export const webhookEventNames: WebhookEvent[] = [
+  'qr',
+  'pairing_code',
+  'ready',
+  'message',
+  'message_edit',
+  'message_delete',
+  'message_reaction',
+  'message_status',
+  'presence',
+  'group_participants_update',
+  'group_update',
+  'group_join_request',
+  'connection',
+  'disconnected',
+  'reconnecting',
+  'error',
+];
 
 /**
  * Register all schemas
@@ -15,6 +36,13 @@ export function registerSchemas(server: FastifyInstance): void {
   // Instance Schemas
   // ============================================================================
 
+  const webhookSecret = {
+    type: 'string',
+    minLength: 16,
+    maxLength: 256,
+    description: 'Signing secret for the instance webhook, defaults to the server webhook secret',
+  };
+
   server.addSchema({
     $id: 'createInstance',
     type: 'object',
@@ -35,10 +63,342 @@ export function registerSchemas(server: FastifyInstance): void {
         type: 'array',
         items: {
           type: 'string',
-          enum: ['qr', 'ready', 'message', 'message_edit', 'message_delete', 'message_reaction', 'presence', 'connection', 'disconnected', 'reconnecting', 'error'],
+          enum: webhookEventNames,
+        },
+        nullable: true,
+      },
+      webhookSecret: webhookSecret,
+    },
+  });
+
+  server.addSchema({
+    $id: 'updateInstance',
+    type: 'object',
+    minProperties: 1,
+    additionalProperties: false,
+    properties: {
+      webhookUrl: {
+        type: 'string',
+        format: 'uri',
+        nullable: true,
+      },
+      webhookEvents: {
+        type: 'array',
+        items: {
+          type: 'string',
+          enum: webhookEventNames,
+        },
+      },
+      webhookEnabled: {
+        type: 'boolean',
+      },
+      webhookSecret: { ...webhookSecret, nullable: true },
+    },
+  });
+
+  server.addSchema({
+    $id: 'connectInstance',
+    type: 'object',
+    nullable: true,
+    properties: {
+      pairingPhoneNumber: {
+        type: 'string',
+        pattern: '^\\+?[0-9 ()-]{8,20}$',
+        description: 'Phone number in international format to log in with a pairing code instead of a QR code',
+      },
+    },
+  });
+
+  // ============================================================================
+  // Webhook Subscription Schemas
+  // ============================================================================
+
+  const webhookHeaders = {
+    type: 'object',
+    maxProperties: 20,
+    propertyNames: {
+      pattern: '^[A-Za-z0-9-]+$',
+    },
+    additionalProperties: {
+      type: 'string',
+      maxLength: 1024,
+    },
+    description: 'Extra HTTP headers sent with every delivery',
+  };
+
+  const webhookAuth = {
+    type: 'object',
+    required: ['type'],
+    additionalProperties: false,
+    properties: {
+      type: { type: 'string', enum: ['bearer', 'basic'] },
+      token: { type: 'string', minLength: 1, maxLength: 4096 },
+      username: { type: 'string', minLength: 1, maxLength: 256 },
+      password: { type: 'string', maxLength: 1024 },
+    },
+    description: 'Credentials sent as the `Authorization` header: `token` for bearer, `username` and `password` for basic',
+  };
+
+  const webhookTls = {
+    type: 'object',
+    minProperties: 1,
+    additionalProperties: false,
+    properties: {
+      cert: { type: 'string', maxLength: 65536, description: 'PEM client certificate (chain)' },
+      key: { type: 'string', maxLength: 65536, description: 'PEM private key of the client certificate' },
+      passphrase: { type: 'string', maxLength: 1024 },
+      ca: { type: 'string', maxLength: 262144, description: 'PEM CA bundle trusted for the endpoint instead of the default CAs' },
+    },
+    description: 'Client certificate for mutual TLS and/or a custom CA bundle',
+  };
+
+  const webhookRetryPolicy = {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      baseDelayMs: { type: 'integer', minimum: 0, maximum: 86400000 },
+      multiplier: { type: 'number', minimum: 1, maximum: 10 },
+      jitter: { type: 'number', minimum: 0, maximum: 1 },
+      maxDelayMs: { type: 'integer', minimum: 0, maximum: 86400000 },
+      maxAttempts: { type: 'integer', minimum: 1, maximum: 50 },
+    },
+    description: 'Overrides of the server-wide retry policy',
+  };
+
+  const webhookFilterConditions = {
+    type: 'array',
+    maxItems: 20,
+    items: {
+      type: 'object',
+      required: ['field', 'op'],
+      additionalProperties: false,
+      properties: {
+        field: {
+          type: 'string',
+          minLength: 1,
+          maxLength: 200,
+          description: 'Dot path into the payload (e.g. `data.fromMe`), or `chat.labels` for the label IDs of the chat',
+        },
+        op: {
+          type: 'string',
+          enum: ['eq', 'ne', 'in', 'nin', 'exists', 'contains'],
+        },
+        value: {},
+      },
+    },
+  };
+
+  const webhookFilter = {
+    type: 'object',
+    additionalProperties: false,
+    minProperties: 1,
+    properties: {
+      all: webhookFilterConditions,
+      any: webhookFilterConditions,
+    },
+    description: 'Only deliver events whose payload matches every `all` condition and at least one `any` condition',
+  };
+
+  const webhookTemplate = {
+    type: 'object',
+    maxProperties: 100,
+    description:
+      'JSON template for the request body. `{{path}}` placeholders are filled from the payload (e.g. `{{data.text}}`)',
+  };
+
+  const webhookFormat = {
+    type: 'string',
+    enum: ['miaw', 'cloudevents_structured', 'cloudevents_binary'],
+    description:
+      'Request body format: the Miaw payload (default), a CloudEvent JSON body, or CloudEvent `ce-*` headers with the event data as body',
+  };
+
+  const webhookBatch = {
+    type: 'object',
+    required: ['maxSize', 'maxWaitMs'],
+    additionalProperties: false,
+    properties: {
+      maxSize: { type: 'integer', minimum: 1, maximum: 1000 },
+      maxWaitMs: { type: 'integer', minimum: 10, maximum: 60000 },
+    },
+    description: 'Deliver events as one JSON array once `maxSize` events are waiting or `maxWaitMs` after the first one',
+  };
+
+  server.addSchema({
+    $id: 'createWebhook',
+    type: 'object',
+    required: ['url'],
+    additionalProperties: false,
+    properties: {
+      url: {
+        type: 'string',
+        format: 'uri',
+      },
+      events: {
+        type: 'array',
+        items: {
+          type: 'string',
+          enum: webhookEventNames,
         },
+        description: 'Events to deliver, all events when empty or omitted',
+      },
+      secret: {
+        type: 'string',
+        minLength: 16,
+        maxLength: 256,
+        description: 'Signing secret for this endpoint, defaults to the instance (or server) webhook secret',
+      },
+      headers: webhookHeaders,
+      auth: webhookAuth,
+      tls: webhookTls,
+      retryPolicy: webhookRetryPolicy,
+      filter: webhookFilter,
+      format: webhookFormat,
+      template: webhookTemplate,
+      batch: webhookBatch,
+      enabled: {
+        type: 'boolean',
+      },
+    },
+  });
+
+  server.addSchema({
+    $id: 'updateWebhook',
+    type: 'object',
+    minProperties: 1,
+    additionalProperties: false,
+    properties: {
+      url: {
+        type: 'string',
+        format: 'uri',
+      },
+      events: {
+        type: 'array',
+        items: {
+          type: 'string',
+          enum: webhookEventNames,
+        },
+      },
+      secret: {
+        type: 'string',
+        minLength: 16,
+        maxLength: 256,
         nullable: true,
       },
+      headers: webhookHeaders,
+      auth: { ...webhookAuth, nullable: true },
+      tls: { ...webhookTls, nullable: true },
+      retryPolicy: { ...webhookRetryPolicy, nullable: true },
+      filter: { ...webhookFilter, nullable: true },
+      format: webhookFormat,
+      template: { ...webhookTemplate, nullable: true },
+      batch: { ...webhookBatch, nullable: true },
+      enabled: {
+        type: 'boolean',
+      },
+    },
+  });
+
+  server.addSchema({
+    $id: 'rotateWebhookSecret',
+    type: 'object',
+    nullable: true,
+    additionalProperties: false,
+    properties: {
+      secret: {
+        type: 'string',
+        minLength: 16,
+        maxLength: 256,
+        description: 'New secret, a random one is generated when omitted',
+      },
+      gracePeriodMs: {
+        type: 'integer',
+        minimum: 0,
+        maximum: 2592000000,
+        description: 'How long the previous secret keeps signing (default 24 hours)',
+      },
+    },
+  });
+
+  // ============================================================================
+  // Event Sink Schemas
+  // ============================================================================
+
+  const sinkEvents = {
+    type: 'array',
+    items: {
+      type: 'string',
+      enum: webhookEventNames,
+    },
+    description: 'Events to write, all events when empty or omitted',
+  };
+
+  server.addSchema({
+    $id: 'createEventSink',
+    type: 'object',
+    required: ['type'],
+    additionalProperties: false,
+    properties: {
+      type: {
+        type: 'string',
+        enum: ['redis_stream', 'nats', 'jsonl_file'],
+      },
+      events: sinkEvents,
+      enabled: {
+        type: 'boolean',
+      },
+      redis: {
+        type: 'object',
+        required: ['url'],
+        additionalProperties: false,
+        properties: {
+          url: { type: 'string', pattern: '^rediss?://', description: 'redis:// or rediss:// URL' },
+          stream: { type: 'string', minLength: 1, maxLength: 256, description: 'Defaults to `miaw:events:<instanceId>`' },
+          maxLen: { type: 'integer', minimum: 1, description: 'Approximate stream length cap' },
+        },
+        description: 'Settings of `redis_stream` sinks',
+      },
+      nats: {
+        type: 'object',
+        required: ['servers'],
+        additionalProperties: false,
+        properties: {
+          servers: { type: 'string', minLength: 1, description: 'Comma-separated server URLs (e.g. `nats://localhost:4222`)' },
+          subject: {
+            type: 'string',
+            pattern: '^[^\\s*>]+$',
+            maxLength: 256,
+            description: 'Defaults to `miaw.events.<instanceId>.<event>`',
+          },
+        },
+        description: 'Settings of `nats` sinks',
+      },
+      file: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          fileName: {
+            type: 'string',
+            pattern: '^[A-Za-z0-9_-][A-Za-z0-9._-]*$',
+            maxLength: 128,
+            description: 'File inside `EVENT_SINK_FILE_DIR`, defaults to `<instanceId>.jsonl`',
+          },
+        },
+        description: 'Settings of `jsonl_file` sinks',
+      },
+    },
+  });
+
+  server.addSchema({
+    $id: 'updateEventSink',
+    type: 'object',
+    minProperties: 1,
+    additionalProperties: false,
+    properties: {
+      events: sinkEvents,
+      enabled: {
+        type: 'boolean',
+      },
     },
   });
 
@@ -5,14 +5,25 @@
 
 import Fastify, { FastifyInstance } from 'fastify';
 import cors from '@fastify/cors';
+import websocket from '@fastify/websocket';
 import swagger from '@fastify/swagger';
 import ScalarApiReference from '@scalar/fastify-api-reference';
 import { config } from './config';
 import { registerRoutes } from './routes';
 import { registerSchemas } from './schemas';
 import { InstanceManager } from './services/InstanceManager';
-import { WebhookDispatcher } from './services/WebhookDispatcher';
+import { InstanceRegistry } from './services/InstanceRegistry';
+import { MessageStatusStore } from './services/MessageStatusStore';
+import { WebhookDispatcher, WebhookEndpointGone } from './services/WebhookDispatcher';
+import { FileWebhookQueueStore, MemoryWebhookQueueStore } from './services/WebhookQueueStore';
+import { WebhookDeadLetterStore } from './services/WebhookDeadLetterStore';
+import { WebhookDeliveryLog } from './services/WebhookDeliveryLog';
+import { EventStreamHub } from './services/EventStreamHub';
+import { EventSinkManager } from './services/EventSinkManager';
 import { errorHandler } from './utils/errorHandler';
+import { DestinationPolicy } from './utils/destinationPolicy';
+import { redactUrl } from './utils/redact';
+import { EventSink, WebhookDeliveryOptions, WebhookPayload } from './types';
 
 /**
  * Create and configure Fastify server
@@ -32,6 +43,18 @@ export async function createServer(): Promise<FastifyInstance> {
               },
             }
           : undefined,
+      serializers: {
+        // Stream tokens travel in the query string, keep them out of request logs
+        req(request) {
+          return {
+            method: request.method,
+            url: redactUrl(request.url),
+            host: request.host,
+            remoteAddress: request.ip,
+            remotePort: request.socket?.remotePort,
+          };
+        },
+      },
     },
   });
 
@@ -41,6 +64,8 @@ export async function createServer(): Promise<FastifyInstance> {
     credentials: true,
   });
 
+  await server.register(websocket);
+
   await server.register(swagger, {
     openapi: {
       info: {
@@ -64,6 +89,7 @@ export async function createServer(): Promise<FastifyInstance> {
         { name: 'Profile', description: 'Update profile picture, name, and status' },
         { name: 'Presence', description: 'Presence, typing indicators, and read receipts' },
         { name: 'Webhooks', description: 'Configure webhooks for real-time events' },
+        { name: 'Events', description: 'Live event streams for clients that cannot receive webhooks' },
         { name: 'Business', description: 'WhatsApp Business features (labels, catalog, newsletters)' },
         { name: 'Health', description: 'API health check' },
       ],
@@ -111,6 +137,11 @@ export async function createServer(): Promise<FastifyInstance> {
     return server.swagger();
   });
 
+  // Create instance registry (persists instances across restarts)
+  const instanceRegistry = new InstanceRegistry({
+    filePath: config.registryPath,
+  });
+
   // Create instance manager (shared across requests)
   const instanceManager = new InstanceManager({
     sessionPath: config.sessionPath,
@@ -118,28 +149,91 @@ export async function createServer(): Promise<FastifyInstance> {
     webhookTimeout: config.webhookTimeout,
     webhookMaxRetries: config.webhookMaxRetries,
     webhookRetryDelay: config.webhookRetryDelay,
+    registry: instanceRegistry,
+    messageStatuses: new MessageStatusStore({ maxMessagesPerInstance: config.messageStatusStoreSize }),
   });
 
-  // Create webhook dispatcher
+  // Where webhooks may be sent, checked on registration and on every delivery
+  const destinationPolicy = new DestinationPolicy({
+    httpsOnly: config.webhookHttpsOnly,
+    allowPrivateNetworks: config.webhookAllowPrivateNetworks,
+    allowedHosts: config.webhookAllowedHosts,
+    deniedHosts: config.webhookDeniedHosts,
+    allowedCidrs: config.webhookAllowedCidrs,
+    deniedCidrs: config.webhookDeniedCidrs,
+  });
+
+  // Create webhook dispatcher (pending deliveries survive restarts with the file store)
   const webhookDispatcher = new WebhookDispatcher({
     secret: config.webhookSecret,
     timeout: config.webhookTimeout,
     maxRetries: config.webhookMaxRetries,
     retryDelay: config.webhookRetryDelay,
+    retryMultiplier: config.webhookRetryMultiplier,
+    retryJitter: config.webhookRetryJitter,
+    retryMaxDelay: config.webhookRetryMaxDelay,
+    concurrency: config.webhookConcurrency,
+    circuitThreshold: config.webhookCircuitThreshold,
+    circuitCooldown: config.webhookCircuitCooldown,
+    store:
+      config.webhookQueueStore === 'file'
+        ? new FileWebhookQueueStore({ filePath: config.webhookQueuePath })
+        : new MemoryWebhookQueueStore(),
+    deadLetters: new WebhookDeadLetterStore({
+      filePath: config.webhookQueueStore === 'file' ? config.webhookDeadLetterPath : undefined,
+      maxEntries: config.webhookDeadLetterMax,
+    }),
+    deliveryLog: new WebhookDeliveryLog({ maxEntriesPerInstance: config.webhookDeliveryLogSize }),
+    destinationPolicy,
+    resolveCredentials: (instanceId, subscriptionId) =>
+      instanceManager.getWebhookCredentials(instanceId, subscriptionId),
   });
 
   // Connect instance manager webhook events to dispatcher
-  instanceManager.on('webhook', (url: string, payload: any) => {
-    webhookDispatcher.queue(url, payload);
+  instanceManager.on('webhook', (url: string, payload: any, options?: WebhookDeliveryOptions) => {
+    webhookDispatcher.queue(url, payload, options);
+  });
+
+  // Disable endpoints that answered 410 Gone
+  webhookDispatcher.on('endpoint_gone', ({ instanceId, url, subscriptionId }: WebhookEndpointGone) => {
+    instanceManager.disableWebhookEndpoint(instanceId, url, subscriptionId);
+  });
+
+  // Live event streams (WebSocket) receive every instance event
+  const eventStreamHub = new EventStreamHub({ bufferSize: config.eventStreamBufferSize });
+  instanceManager.on('event', (payload: WebhookPayload) => {
+    eventStreamHub.publish(payload);
+  });
+
+  // Event sinks (Redis Streams, NATS, JSONL files) configured per instance
+  const eventSinkManager = new EventSinkManager({ fileDir: config.eventSinkFileDir });
+  instanceManager.on('sink', (sink: EventSink, payload: WebhookPayload) => {
+    eventSinkManager.write(payload.instanceId, sink, payload);
+  });
+  instanceManager.on('sink_closed', (sinkId: string) => {
+    eventSinkManager.close(sinkId);
+  });
+
+  // Stop delivery loop, close the queue and dead-letter journals and flush event sinks on shutdown
+  server.addHook('onClose', async () => {
+    webhookDispatcher.dispose();
+    await eventSinkManager.dispose();
   });
 
   // Decorate server with instance manager
   server.decorate('instanceManager', instanceManager);
   server.decorate('webhookDispatcher', webhookDispatcher);
+  server.decorate('destinationPolicy', destinationPolicy);
+  server.decorate('eventStreamHub', eventStreamHub);
 
   // Register API routes (pass instanceManager for v0.9.0 routes)
   await registerRoutes(server, instanceManager);
 
+  // Restore instances saved before the last shutdown
+  if (config.autoRestoreInstances) {
+    await instanceManager.restoreInstances();
+  }
+
   return server;
 }
 
@@ -167,6 +261,20 @@ export async function startServer(): Promise<void> {
     server.log.error(err);
     process.exit(1);
   }
+
+  // Close hooks queue open webhook batches and close the queue journal, so nothing buffered is lost
+  const shutdown = async (signal: NodeJS.Signals) => {
+    server.log.info({ signal }, 'Shutting down');
+    try {
+      await server.close();
+      process.exit(0);
+    } catch (err) {
+      server.log.error(err);
+      process.exit(1);
+    }
+  };
+  process.once('SIGTERM', shutdown);
+  process.once('SIGINT', shutdown);
 }
 
 // Start server if run directly
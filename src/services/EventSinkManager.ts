@@ -0,0 +1,262 @@
+/**
+ * Event Sink Manager
+ * Writes instance events to brokers and files (Redis Streams, NATS, JSONL) so
+ * workers can consume them without exposing HTTP endpoints
+ */
+
+import fs from 'fs';
+import path from 'path';
+import Redis from 'ioredis';
+import { connect, headers as natsHeaders, NatsConnection } from 'nats';
+import pino from 'pino';
+import {
+  EventSink,
+  JsonlFileSinkSettings,
+  NatsSinkSettings,
+  RedisStreamSinkSettings,
+  WebhookPayload,
+} from '../types';
+
+/**
+ * Destination a sink writes to. Writes of one sink never overlap.
+ */
+export interface EventSinkWriter {
+  write(payload: WebhookPayload): Promise<void>;
+  /** Release connections and file handles */
+  close(): Promise<void>;
+}
+
+/**
+ * XADD to a Redis stream; consumers read it with XREADGROUP.
+ * Entry fields: id, event, instanceId, payload (WebhookPayload JSON)
+ */
+export class RedisStreamSinkWriter implements EventSinkWriter {
+  private client: Redis;
+  private stream: string;
+  private maxLen?: number;
+
+  constructor(settings: RedisStreamSinkSettings, instanceId: string, logger: pino.Logger) {
+    this.stream = settings.stream || `miaw:events:${instanceId}`;
+    this.maxLen = settings.maxLen;
+    this.client = new Redis(settings.url, { maxRetriesPerRequest: 3 });
+    // ioredis reconnects on its own, errors are reported by failed writes
+    this.client.on('error', (err: Error) => {
+      logger.debug({ instanceId, stream: this.stream, error: err.message }, 'Redis sink connection error');
+    });
+  }
+
+  async write(payload: WebhookPayload): Promise<void> {
+    const trim = this.maxLen ? ['MAXLEN', '~', String(this.maxLen)] : [];
+    await this.client.xadd(
+      this.stream,
+      ...trim,
+      '*',
+      'id',
+      payload.id,
+      'event',
+      payload.event,
+      'instanceId',
+      payload.instanceId,
+      'payload',
+      JSON.stringify(payload)
+    );
+  }
+
+  async close(): Promise<void> {
+    try {
+      await this.client.quit();
+    } catch {
+      this.client.disconnect();
+    }
+  }
+}
+
+/**
+ * Publish to a NATS subject; consumers use queue groups or a JetStream stream
+ * on the subject. The payload ID is sent as Nats-Msg-Id for JetStream deduplication.
+ */
+export class NatsSinkWriter implements EventSinkWriter {
+  private servers: string[];
+  private subject?: string;
+  private connection?: Promise<NatsConnection>;
+
+  constructor(settings: NatsSinkSettings) {
+    this.servers = settings.servers
+      .split(',')
+      .map((server) => server.trim())
+      .filter((server) => server.length > 0);
+    this.subject = settings.subject;
+  }
+
+  async write(payload: WebhookPayload): Promise<void> {
+    const connection = await this.connect();
+    const msgHeaders = natsHeaders();
+    msgHeaders.set('Nats-Msg-Id', payload.id);
+    msgHeaders.set('Miaw-Event', payload.event);
+
+    connection.publish(
+      this.subject || `miaw.events.${payload.instanceId}.${payload.event}`,
+      Buffer.from(JSON.stringify(payload)),
+      { headers: msgHeaders }
+    );
+  }
+
+  async close(): Promise<void> {
+    const connection = await this.connection?.catch(() => undefined);
+    await connection?.drain();
+    this.connection = undefined;
+  }
+
+  /**
+   * Connect on first write; a failed connection is retried on the next write
+   */
+  private connect(): Promise<NatsConnection> {
+    if (!this.connection) {
+      this.connection = connect({ servers: this.servers, maxReconnectAttempts: -1 });
+      this.connection.catch(() => {
+        this.connection = undefined;
+      });
+    }
+    return this.connection;
+  }
+}
+
+/**
+ * Append one WebhookPayload JSON per line to a file
+ */
+export class JsonlFileSinkWriter implements EventSinkWriter {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async write(payload: WebhookPayload): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.appendFile(this.filePath, JSON.stringify(payload) + '\n');
+  }
+
+  async close(): Promise<void> {
+    // Every write opens and closes the file
+  }
+}
+
+interface EventSinkManagerOptions {
+  // Directory JSONL file sinks are written to
+  fileDir: string;
+  // Pending writes per sink before new events are dropped (broker unreachable)
+  maxPendingWrites?: number;
+  // Replaces the built-in writers (tests)
+  createWriter?: (sink: EventSink, instanceId: string) => EventSinkWriter;
+}
+
+interface ActiveSink {
+  writer: EventSinkWriter;
+  // Tail of the write chain, keeps events in order
+  tail: Promise<void>;
+  pending: number;
+}
+
+const DEFAULT_MAX_PENDING_WRITES = 1000;
+
+/**
+ * Creates a writer per sink on first use and writes events to it in order.
+ * Delivery is best effort: failed writes are logged, not retried.
+ */
+export class EventSinkManager {
+  private options: Required<Omit<EventSinkManagerOptions, 'createWriter'>> &
+    Pick<EventSinkManagerOptions, 'createWriter'>;
+  private logger: pino.Logger;
+  private sinks: Map<string, ActiveSink> = new Map();
+
+  constructor(options: EventSinkManagerOptions) {
+    this.options = {
+      maxPendingWrites: DEFAULT_MAX_PENDING_WRITES,
+      ...options,
+    };
+    this.logger = pino({ level: 'info' });
+  }
+
+  /**
+   * Queue an event for a sink
+   */
+  write(instanceId: string, sink: EventSink, payload: WebhookPayload): void {
+    const active = this.getActive(instanceId, sink);
+
+    if (active.pending >= this.options.maxPendingWrites) {
+      this.logger.warn({ instanceId, sinkId: sink.id, eventId: payload.id }, 'Event sink backlog full, event dropped');
+      return;
+    }
+
+    active.pending++;
+    active.tail = active.tail
+      .then(() => active.writer.write(payload))
+      .catch((err: Error) => {
+        this.logger.warn(
+          { instanceId, sinkId: sink.id, type: sink.type, eventId: payload.id, error: err.message },
+          'Event sink write failed'
+        );
+      })
+      .finally(() => {
+        active.pending--;
+      });
+  }
+
+  /**
+   * Close a sink's writer after its pending writes (sink removed or disabled)
+   */
+  async close(sinkId: string): Promise<void> {
+    const active = this.sinks.get(sinkId);
+    if (!active) {
+      return;
+    }
+
+    this.sinks.delete(sinkId);
+    await active.tail;
+    await active.writer.close().catch((err: Error) => {
+      this.logger.warn({ sinkId, error: err.message }, 'Failed to close event sink');
+    });
+  }
+
+  /**
+   * Flush and close all writers
+   */
+  async dispose(): Promise<void> {
+    await Promise.all(Array.from(this.sinks.keys()).map((sinkId) => this.close(sinkId)));
+  }
+
+  /**
+   * Resolve a JSONL file name inside the sink directory
+   */
+  resolveFilePath(instanceId: string, settings?: JsonlFileSinkSettings): string {
+    const fileName = settings?.fileName || `${instanceId}.jsonl`;
+    if (path.basename(fileName) !== fileName || fileName.startsWith('.')) {
+      throw new Error(`Invalid sink file name ${fileName}`);
+    }
+    return path.join(this.options.fileDir, fileName);
+  }
+
+  private getActive(instanceId: string, sink: EventSink): ActiveSink {
+    let active = this.sinks.get(sink.id);
+    if (!active) {
+      active = { writer: this.createWriter(sink, instanceId), tail: Promise.resolve(), pending: 0 };
+      this.sinks.set(sink.id, active);
+    }
+    return active;
+  }
+
+  private createWriter(sink: EventSink, instanceId: string): EventSinkWriter {
+    if (this.options.createWriter) {
+      return this.options.createWriter(sink, instanceId);
+    }
+
+    switch (sink.type) {
+      case 'redis_stream':
+        return new RedisStreamSinkWriter(sink.redis!, instanceId, this.logger);
+      case 'nats':
+        return new NatsSinkWriter(sink.nats!);
+      case 'jsonl_file':
+        return new JsonlFileSinkWriter(this.resolveFilePath(instanceId, sink.file));
+    }
+  }
+}
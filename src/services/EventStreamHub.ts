@@ -0,0 +1,101 @@
+/**
+ * Event Stream Hub
+ * Fans out instance events to live stream connections (WebSocket, SSE) and keeps
+ * a short buffer so reconnecting clients can resume from their last event ID
+ */
+
+import { WebhookEvent, WebhookPayload } from '../types';
+
+/**
+ * Which events a stream connection receives
+ */
+export interface EventStreamFilter {
+  // Unset for server-wide streams
+  instanceId?: string;
+  // Empty or unset receives all events
+  events?: WebhookEvent[];
+}
+
+export type EventStreamListener = (payload: WebhookPayload) => void;
+
+interface EventStreamHubOptions {
+  // Events kept for resuming, oldest dropped first
+  bufferSize?: number;
+}
+
+interface Subscriber {
+  filter: EventStreamFilter;
+  listener: EventStreamListener;
+}
+
+const DEFAULT_BUFFER_SIZE = 1000;
+
+/**
+ * In-memory pub/sub for instance events (not persisted)
+ */
+export class EventStreamHub {
+  private bufferSize: number;
+  // Oldest first
+  private buffer: WebhookPayload[] = [];
+  private subscribers: Set<Subscriber> = new Set();
+
+  constructor(options: EventStreamHubOptions = {}) {
+    this.bufferSize = options.bufferSize ?? DEFAULT_BUFFER_SIZE;
+  }
+
+  /**
+   * Buffer an event and hand it to every matching subscriber
+   */
+  publish(payload: WebhookPayload): void {
+    this.buffer.push(payload);
+    if (this.buffer.length > this.bufferSize) {
+      this.buffer.splice(0, this.buffer.length - this.bufferSize);
+    }
+
+    for (const subscriber of this.subscribers) {
+      if (EventStreamHub.matches(subscriber.filter, payload)) {
+        subscriber.listener(payload);
+      }
+    }
+  }
+
+  /**
+   * Receive matching events until the returned function is called
+   */
+  subscribe(filter: EventStreamFilter, listener: EventStreamListener): () => void {
+    const subscriber: Subscriber = { filter, listener };
+    this.subscribers.add(subscriber);
+
+    return () => {
+      this.subscribers.delete(subscriber);
+    };
+  }
+
+  /**
+   * Matching events published after lastEventId, oldest first.
+   * Null when the ID is no longer (or was never) in the buffer.
+   */
+  replay(lastEventId: string, filter: EventStreamFilter): WebhookPayload[] | null {
+    const index = this.buffer.findIndex((payload) => payload.id === lastEventId);
+    if (index === -1) {
+      return null;
+    }
+
+    return this.buffer.slice(index + 1).filter((payload) => EventStreamHub.matches(filter, payload));
+  }
+
+  /**
+   * Number of open stream connections
+   */
+  getSubscriberCount(): number {
+    return this.subscribers.size;
+  }
+
+  static matches(filter: EventStreamFilter, payload: WebhookPayload): boolean {
+    if (filter.instanceId && payload.instanceId !== filter.instanceId) {
+      return false;
+    }
+
+    return !filter.events || filter.events.length === 0 || filter.events.includes(payload.event);
+  }
+}
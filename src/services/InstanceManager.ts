@@ -4,14 +4,39 @@
  */
 
 import { EventEmitter } from 'events';
-import { MiawClient, MiawClientOptions, ConnectionState } from 'miaw-core';
+import crypto from 'crypto';
+import { MiawClient, MiawClientOptions, ConnectionState, MessageReceiptUpdate } from 'miaw-core';
 import pino from 'pino';
 import {
+  DesiredState,
+  EventSink,
+  EventSinkInput,
+  EventSinkUpdate,
   InstanceConfig,
+  InstanceLifecycleEvent,
+  InstanceRecord,
   InstanceState,
+  InstanceUpdate,
+  MessageStatus,
+  MessageStatusUpdate,
+  QrCodeInfo,
+  WaitForStateReason,
+  WaitForStateResult,
+  WebhookDeliveryCredentials,
+  WebhookDeliveryOptions,
   WebhookEvent,
   WebhookPayload,
+  WebhookSubscription,
+  WebhookSubscriptionInput,
+  WebhookSubscriptionUpdate,
+  WebhookPreviousSecret,
+  WebhookSecretRotation,
+  WebhookSecretRotationInput,
 } from '../types';
+import { InstanceRegistry } from './InstanceRegistry';
+import { fromMessageReceipt, MessageStatusStore } from './MessageStatusStore';
+import { getChatJid, matchesWebhookFilter, WebhookFilterContext } from '../utils/webhookFilter';
+import { fromGroupsUpdate, fromJoinRequest, fromParticipantsUpdate, fromPictureStub } from '../utils/groupEvents';
 
 interface InstanceManagerOptions {
   sessionPath: string;
@@ -19,15 +44,56 @@ interface InstanceManagerOptions {
   webhookTimeout: number;
   webhookMaxRetries: number;
   webhookRetryDelay: number;
+  registry?: InstanceRegistry;
+  messageStatuses?: MessageStatusStore;
 }
 
 interface ManagedInstance {
   config: InstanceConfig;
   client: MiawClient;
   state: InstanceState;
+  desiredState: DesiredState;
+  webhooks: WebhookSubscription[];
+  sinks: EventSink[];
+  // Still signs the instance webhook until a rotation's grace period ends
+  webhookPreviousSecret?: WebhookPreviousSecret;
+  qrCode?: QrCodeInfo;
   disconnectTimeout?: NodeJS.Timeout;
+  // Client was created for a pairing code login and shows no QR codes
+  pairingClient?: boolean;
 }
 
+// WhatsApp rotates login QR codes roughly every 20 seconds
+const QR_CODE_TTL_MS = 20000;
+
+/**
+ * Events of the Baileys socket MiawClient does not forward, with the payloads
+ * the group event normalizers read
+ */
+interface SocketEventMap {
+  'group-participants.update': unknown;
+  'groups.update': unknown[];
+  'messages.upsert': { messages?: unknown[] };
+  'group.join-request': unknown;
+}
+
+/**
+ * The parts of a client's current Baileys socket InstanceManager reads
+ * (not part of MiawClient's typed API)
+ */
+interface ConnectionSocket {
+  user?: { id?: string };
+  ev: {
+    on<E extends keyof SocketEventMap>(event: E, listener: (data: SocketEventMap[E]) => void): void;
+  };
+}
+
+// Max time to wait for miaw-core to emit a requested pairing code
+const PAIRING_CODE_TIMEOUT_MS = 30000;
+
+// How long a rotated-out webhook secret keeps signing by default
+const DEFAULT_SECRET_GRACE_PERIOD_MS = 86400000; // 24 hours
+
 /**
  * Manages MiawClient instances
  */
@@ -35,10 +101,16 @@ export class InstanceManager extends EventEmitter {
   private instances: Map<string, ManagedInstance> = new Map();
   private options: InstanceManagerOptions;
   private logger: pino.Logger;
+  private messageStatuses: MessageStatusStore;
+  // Socket event emitters already forwarded (a new socket per connection)
+  private socketEmitters: WeakSet<object> = new WeakSet();
 
   constructor(options: InstanceManagerOptions) {
     super();
+    // Every pending waitForState() call holds a 'lifecycle' listener
+    this.setMaxListeners(0);
     this.options = options;
+    this.messageStatuses = options.messageStatuses || new MessageStatusStore();
     this.logger = pino({ level: 'info' });
   }
 
@@ -54,40 +126,75 @@ export class InstanceManager extends EventEmitter {
 
     this.logger.info({ instanceId }, 'Creating instance');
 
-    // Create MiawClient
-    const clientOptions: MiawClientOptions = {
-      instanceId,
-      sessionPath: this.options.sessionPath,
-      debug: false,
-    };
+    const managed = this.registerInstance(config, 'disconnected', new Date());
+    this.persist(instanceId);
 
-    const client = new MiawClient(clientOptions);
+    this.logger.info({ instanceId }, 'Instance created');
 
-    // Set up event handlers
-    this.setupClientEvents(instanceId, client);
+    return managed.state;
+  }
 
-    // Create state
-    const state: InstanceState = {
-      instanceId,
-      status: 'disconnected',
-      webhookEvents: config.webhookEvents || [],
-      webhookUrl: config.webhookUrl,
-      webhookEnabled: !!config.webhookUrl,
-      createdAt: new Date(),
-      lastActivity: new Date(),
-    };
+  /**
+   * Recreate instances from the registry and reconnect the ones
+   * that were connected before shutdown (sessions are reused from disk)
+   */
+  async restoreInstances(): Promise<InstanceState[]> {
+    const registry = this.options.registry;
+    if (!registry) {
+      return [];
+    }
 
-    const managed: ManagedInstance = {
-      config,
-      client,
-      state,
-    };
+    const records = registry.load();
+    const restored: InstanceState[] = [];
 
-    this.instances.set(instanceId, managed);
+    for (const record of records) {
+      if (this.instances.has(record.instanceId)) {
+        continue;
+      }
 
-    this.logger.info({ instanceId }, 'Instance created');
+      const managed = this.registerInstance(
+        {
+          instanceId: record.instanceId,
+          webhookUrl: record.webhookUrl,
+          webhookEvents: record.webhookEvents,
+          webhookEnabled: record.webhookEnabled,
+          webhookSecret: record.webhookSecret,
+        },
+        record.desiredState,
+        new Date(record.createdAt),
+        record.webhooks || [],
+        record.sinks || []
+      );
+      managed.webhookPreviousSecret = record.webhookPreviousSecret;
+      restored.push(managed.state);
 
-    return state;
+      if (record.desiredState === 'connected') {
+        this.logger.info({ instanceId: record.instanceId }, 'Reconnecting restored instance');
+        managed.client.connect().catch((err: Error) => {
+          this.logger.error(
+            { instanceId: record.instanceId, error: err.message },
+            'Failed to reconnect restored instance'
+          );
+        });
+      }
+    }
+
+    this.logger.info({ count: restored.length }, 'Instances restored from registry');
+
+    return restored;
+  }
+
+  /**
+   * Record whether the instance should be reconnected on next boot
+   */
+  setDesiredState(instanceId: string, desiredState: DesiredState): void {
+    const managed = this.instances.get(instanceId);
+    if (!managed || managed.desiredState === desiredState) {
+      return;
+    }
+
+    managed.desiredState = desiredState;
+    this.persist(instanceId);
   }
 
   /**
@@ -105,6 +212,387 @@ export class InstanceManager extends EventEmitter {
     return Array.from(this.instances.values()).map((m) => m.state);
   }
 
+  /**
+   * Update webhook configuration of an instance.
+   * Takes effect for the next emitted event; the WhatsApp connection is untouched.
+   */
+  updateInstance(instanceId: string, updates: InstanceUpdate): InstanceState {
+    const managed = this.instances.get(instanceId);
+
+    if (!managed) {
+      throw new Error(`Instance ${instanceId} not found`);
+    }
+
+    const next: Partial<InstanceState> = {};
+
+    if (updates.webhookUrl !== undefined) {
+      next.webhookUrl = updates.webhookUrl || undefined;
+      if (!next.webhookUrl) {
+        next.webhookEnabled = false;
+      } else if (!managed.state.webhookUrl) {
+        next.webhookEnabled = true;
+      }
+    }
+
+    if (updates.webhookEvents !== undefined) {
+      next.webhookEvents = updates.webhookEvents;
+    }
+
+    if (updates.webhookEnabled !== undefined) {
+      const webhookUrl = 'webhookUrl' in next ? next.webhookUrl : managed.state.webhookUrl;
+      if (updates.webhookEnabled && !webhookUrl) {
+        throw new Error('Cannot enable webhook without a webhook URL');
+      }
+      next.webhookEnabled = updates.webhookEnabled;
+    }
+
+    // Setting the secret directly replaces it at once, use rotateInstanceWebhookSecret for a grace period
+    let webhookSecret = managed.config.webhookSecret;
+    if (updates.webhookSecret !== undefined) {
+      webhookSecret = updates.webhookSecret || undefined;
+      next.hasWebhookSecret = !!webhookSecret;
+      managed.webhookPreviousSecret = undefined;
+    }
+
+    managed.state = { ...managed.state, ...next };
+    managed.config = {
+      ...managed.config,
+      webhookUrl: managed.state.webhookUrl,
+      webhookEvents: managed.state.webhookEvents,
+      webhookEnabled: managed.state.webhookEnabled,
+      webhookSecret,
+    };
+    this.persist(instanceId);
+
+    this.logger.info({ instanceId, updates: Object.keys(updates) }, 'Instance updated');
+
+    return managed.state;
+  }
+
+  /**
+   * Replace the instance webhook secret; the old one (or the server secret when none was set)
+   * keeps signing next to the new one for the grace period
+   */
+  rotateInstanceWebhookSecret(instanceId: string, input: WebhookSecretRotationInput = {}): WebhookSecretRotation {
+    const managed = this.getManaged(instanceId);
+    const { secret, previousSecret } = this.rotateSecret(managed.config.webhookSecret, input);
+
+    managed.config = { ...managed.config, webhookSecret: secret };
+    managed.webhookPreviousSecret = previousSecret;
+    managed.state = { ...managed.state, hasWebhookSecret: true };
+    this.persist(instanceId);
+
+    this.logger.info({ instanceId, previousSecretExpiresAt: previousSecret.expiresAt }, 'Instance webhook secret rotated');
+
+    return { secret, previousSecretExpiresAt: previousSecret.expiresAt };
+  }
+
+  /**
+   * List webhook subscriptions of an instance
+   */
+  listWebhooks(instanceId: string): WebhookSubscription[] {
+    return this.getManaged(instanceId).webhooks;
+  }
+
+  /**
+   * Get a single webhook subscription
+   */
+  getWebhook(instanceId: string, webhookId: string): WebhookSubscription {
+    const webhook = this.getManaged(instanceId).webhooks.find((w) => w.id === webhookId);
+
+    if (!webhook) {
+      throw new Error(`Webhook ${webhookId} not found`);
+    }
+
+    return webhook;
+  }
+
+  /**
+   * Add a webhook subscription, receives events from the next emitted one on
+   */
+  addWebhook(instanceId: string, input: WebhookSubscriptionInput): WebhookSubscription {
+    const managed = this.getManaged(instanceId);
+    const now = new Date().toISOString();
+
+    const webhook: WebhookSubscription = {
+      id: crypto.randomUUID(),
+      url: input.url,
+      events: input.events || [],
+      secret: input.secret,
+      headers: input.headers || {},
+      auth: input.auth,
+      tls: input.tls,
+      retryPolicy: input.retryPolicy,
+      filter: input.filter,
+      format: input.format,
+      template: input.template,
+      batch: input.batch,
+      enabled: input.enabled ?? true,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    managed.webhooks = [...managed.webhooks, webhook];
+    this.persist(instanceId);
+
+    this.logger.info({ instanceId, webhookId: webhook.id }, 'Webhook subscription added');
+
+    return webhook;
+  }
+
+  /**
+   * Update a webhook subscription (a null secret or retry policy falls back to the server default,
+   * a null auth, tls, filter, template or batch setting removes it)
+   */
+  updateWebhook(
+    instanceId: string,
+    webhookId: string,
+    updates: WebhookSubscriptionUpdate
+  ): WebhookSubscription {
+    const managed = this.getManaged(instanceId);
+    const current = this.getWebhook(instanceId, webhookId);
+
+    const webhook: WebhookSubscription = {
+      ...current,
+      url: updates.url ?? current.url,
+      events: updates.events ?? current.events,
+      secret: updates.secret === undefined ? current.secret : updates.secret || undefined,
+      previousSecret: updates.secret === undefined ? current.previousSecret : undefined,
+      headers: updates.headers ?? current.headers,
+      auth: updates.auth === undefined ? current.auth : updates.auth || undefined,
+      tls: updates.tls === undefined ? current.tls : updates.tls || undefined,
+      retryPolicy:
+        updates.retryPolicy === undefined ? current.retryPolicy : updates.retryPolicy || undefined,
+      filter: updates.filter === undefined ? current.filter : updates.filter || undefined,
+      format: updates.format ?? current.format,
+      template: updates.template === undefined ? current.template : updates.template || undefined,
+      batch: updates.batch === undefined ? current.batch : updates.batch || undefined,
+      enabled: updates.enabled ?? current.enabled,
+      updatedAt: new Date().toISOString(),
+    };
+
+    managed.webhooks = managed.webhooks.map((w) => (w.id === webhookId ? webhook : w));
+    this.persist(instanceId);
+
+    this.logger.info({ instanceId, webhookId, updates: Object.keys(updates) }, 'Webhook subscription updated');
+
+    return webhook;
+  }
+
+  /**
+   * Replace the secret of a webhook subscription; the old one keeps signing for the grace period
+   */
+  rotateWebhookSecret(
+    instanceId: string,
+    webhookId: string,
+    input: WebhookSecretRotationInput = {}
+  ): WebhookSecretRotation {
+    const managed = this.getManaged(instanceId);
+    const current = this.getWebhook(instanceId, webhookId);
+    const { secret, previousSecret } = this.rotateSecret(
+      current.secret || managed.config.webhookSecret,
+      input
+    );
+
+    const webhook: WebhookSubscription = {
+      ...current,
+      secret,
+      previousSecret,
+      updatedAt: new Date().toISOString(),
+    };
+
+    managed.webhooks = managed.webhooks.map((w) => (w.id === webhookId ? webhook : w));
+    this.persist(instanceId);
+
+    this.logger.info(
+      { instanceId, webhookId, previousSecretExpiresAt: previousSecret.expiresAt },
+      'Webhook subscription secret rotated'
+    );
+
+    return { secret, previousSecretExpiresAt: previousSecret.expiresAt };
+  }
+
+  /**
+   * New secret plus the outgoing one with its expiry (the server secret stands in for an unset secret)
+   */
+  private rotateSecret(
+    currentSecret: string | undefined,
+    input: WebhookSecretRotationInput
+  ): { secret: string; previousSecret: WebhookPreviousSecret } {
+    const gracePeriodMs = input.gracePeriodMs ?? DEFAULT_SECRET_GRACE_PERIOD_MS;
+
+    return {
+      secret: input.secret || crypto.randomBytes(32).toString('hex'),
+      previousSecret: {
+        secret: currentSecret || this.options.webhookSecret,
+        expiresAt: new Date(Date.now() + gracePeriodMs).toISOString(),
+      },
+    };
+  }
+
+  /**
+   * Previous secret while its grace period lasts
+   */
+  private activePreviousSecret(previousSecret?: WebhookPreviousSecret): WebhookPreviousSecret | undefined {
+    if (!previousSecret || Date.parse(previousSecret.expiresAt) <= Date.now()) {
+      return undefined;
+    }
+    return previousSecret;
+  }
+
+  /**
+   * Current credentials of the instance webhook URL or a subscription, null once
+   * the instance or subscription is gone
+   */
+  getWebhookCredentials(instanceId: string, subscriptionId?: string): WebhookDeliveryCredentials | null {
+    const managed = this.instances.get(instanceId);
+    if (!managed) return null;
+
+    const instanceCredentials: WebhookDeliveryCredentials = {
+      secret: managed.config.webhookSecret,
+      previousSecret: this.activePreviousSecret(managed.webhookPreviousSecret),
+    };
+    if (!subscriptionId) {
+      return instanceCredentials;
+    }
+
+    const webhook = managed.webhooks.find((w) => w.id === subscriptionId);
+    if (!webhook) return null;
+
+    return {
+      // Subscriptions without their own secret sign like the instance webhook
+      ...(webhook.secret
+        ? { secret: webhook.secret, previousSecret: this.activePreviousSecret(webhook.previousSecret) }
+        : instanceCredentials),
+      headers: webhook.headers,
+      auth: webhook.auth,
+      tls: webhook.tls,
+    };
+  }
+
+  /**
+   * Disable the endpoint a consumer reported as permanently gone (HTTP 410):
+   * the subscription when given, otherwise the instance webhook URL if it still matches
+   */
+  disableWebhookEndpoint(instanceId: string, url: string, subscriptionId?: string): void {
+    const managed = this.instances.get(instanceId);
+    if (!managed) return;
+
+    if (subscriptionId) {
+      const webhook = managed.webhooks.find((w) => w.id === subscriptionId);
+      if (webhook?.enabled) {
+        this.updateWebhook(instanceId, subscriptionId, { enabled: false });
+        this.logger.warn({ instanceId, webhookId: subscriptionId, url }, 'Webhook subscription disabled, endpoint gone');
+      }
+      return;
+    }
+
+    if (managed.state.webhookEnabled && managed.state.webhookUrl === url) {
+      this.updateInstance(instanceId, { webhookEnabled: false });
+      this.logger.warn({ instanceId, url }, 'Instance webhook disabled, endpoint gone');
+    }
+  }
+
+  /**
+   * Remove a webhook subscription (its queued deliveries are dead-lettered when due)
+   */
+  removeWebhook(instanceId: string, webhookId: string): void {
+    const managed = this.getManaged(instanceId);
+    this.getWebhook(instanceId, webhookId);
+
+    managed.webhooks = managed.webhooks.filter((w) => w.id !== webhookId);
+    this.persist(instanceId);
+
+    this.logger.info({ instanceId, webhookId }, 'Webhook subscription removed');
+  }
+
+  /**
+   * List event sinks of an instance
+   */
+  listSinks(instanceId: string): EventSink[] {
+    return this.getManaged(instanceId).sinks;
+  }
+
+  /**
+   * Get a single event sink
+   */
+  getSink(instanceId: string, sinkId: string): EventSink {
+    const sink = this.getManaged(instanceId).sinks.find((s) => s.id === sinkId);
+
+    if (!sink) {
+      throw new Error(`Sink ${sinkId} not found`);
+    }
+
+    return sink;
+  }
+
+  /**
+   * Add an event sink, receives events from the next emitted one on
+   */
+  addSink(instanceId: string, input: EventSinkInput): EventSink {
+    const managed = this.getManaged(instanceId);
+    const now = new Date().toISOString();
+
+    const sink: EventSink = {
+      id: crypto.randomUUID(),
+      type: input.type,
+      events: input.events || [],
+      enabled: input.enabled ?? true,
+      redis: input.redis,
+      nats: input.nats,
+      file: input.file,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    managed.sinks = [...managed.sinks, sink];
+    this.persist(instanceId);
+
+    this.logger.info({ instanceId, sinkId: sink.id, type: sink.type }, 'Event sink added');
+
+    return sink;
+  }
+
+  /**
+   * Update the events or enabled flag of a sink (the destination cannot change)
+   */
+  updateSink(instanceId: string, sinkId: string, updates: EventSinkUpdate): EventSink {
+    const managed = this.getManaged(instanceId);
+    const current = this.getSink(instanceId, sinkId);
+
+    const sink: EventSink = {
+      ...current,
+      events: updates.events ?? current.events,
+      enabled: updates.enabled ?? current.enabled,
+      updatedAt: new Date().toISOString(),
+    };
+
+    managed.sinks = managed.sinks.map((s) => (s.id === sinkId ? sink : s));
+    this.persist(instanceId);
+
+    if (!sink.enabled) {
+      this.emit('sink_closed', sinkId);
+    }
+
+    this.logger.info({ instanceId, sinkId, updates: Object.keys(updates) }, 'Event sink updated');
+
+    return sink;
+  }
+
+  /**
+   * Remove an event sink (events already handed to it are still written)
+   */
+  removeSink(instanceId: string, sinkId: string): void {
+    const managed = this.getManaged(instanceId);
+    this.getSink(instanceId, sinkId);
+
+    managed.sinks = managed.sinks.filter((s) => s.id !== sinkId);
+    this.persist(instanceId);
+    this.emit('sink_closed', sinkId);
+
+    this.logger.info({ instanceId, sinkId }, 'Event sink removed');
+  }
+
   /**
    * Delete instance
    */
@@ -125,12 +613,166 @@ export class InstanceManager extends EventEmitter {
     // Remove event listeners
     managed.client.removeAllListeners();
 
-    // Delete from map
+    // Release sink connections
+    for (const sink of managed.sinks) {
+      this.emit('sink_closed', sink.id);
+    }
+
+    // Delete from map and registry
+    this.emitLifecycle(instanceId, { type: 'deleted' });
     this.instances.delete(instanceId);
+    this.messageStatuses.clear(instanceId);
+    this.options.registry?.remove(instanceId);
 
     this.logger.info({ instanceId }, 'Instance deleted');
   }
 
+  /**
+   * Get the latest QR code for an instance (null once connected or before the first QR)
+   */
+  getQrCode(instanceId: string): QrCodeInfo | null {
+    const managed = this.instances.get(instanceId);
+    return managed?.qrCode || null;
+  }
+
+  /**
+   * Log in with a phone number pairing code instead of a QR code.
+   * Connects the instance if needed and returns the 8-character code
+   * to enter in WhatsApp > Linked devices > Link with phone number.
+   */
+  async requestPairingCode(instanceId: string, phoneNumber: string): Promise<string> {
+    const managed = this.instances.get(instanceId);
+
+    if (!managed) {
+      throw new Error(`Instance ${instanceId} not found`);
+    }
+
+    if (managed.state.status === 'connected') {
+      throw new Error(`Instance ${instanceId} is already connected`);
+    }
+
+    const pairingPhoneNumber = phoneNumber.replace(/\D/g, '');
+
+    this.logger.info({ instanceId }, 'Requesting pairing code');
+
+    // miaw-core requests the code itself when its client is created with the phone number
+    const client = await this.replaceClient(managed, pairingPhoneNumber);
+    this.updateState(instanceId, { pendingLogin: 'pairing_code', pairingPhoneNumber, pairingCode: undefined });
+
+    try {
+      const pairingCode = await this.waitForPairingCode(client, client.connect(), PAIRING_CODE_TIMEOUT_MS);
+
+      if (!pairingCode) {
+        throw new Error('WhatsApp did not return a pairing code');
+      }
+
+      return pairingCode;
+    } catch (err) {
+      // Back to QR login, unless the instance moved on in the meantime
+      if (this.instances.get(instanceId) === managed && managed.client === client) {
+        await this.replaceClient(managed);
+        this.updateState(instanceId, {
+          pendingLogin: undefined,
+          pairingCode: undefined,
+          pairingPhoneNumber: undefined,
+        });
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Switch an instance that is not connected back to QR code login
+   * after a pairing code login, whose client shows no QR codes
+   */
+  async resetPairingLogin(instanceId: string): Promise<void> {
+    const managed = this.instances.get(instanceId);
+    if (!managed?.pairingClient || managed.state.status === 'connected') {
+      return;
+    }
+
+    await this.replaceClient(managed);
+    this.updateState(instanceId, {
+      pendingLogin: undefined,
+      pairingCode: undefined,
+      pairingPhoneNumber: undefined,
+    });
+  }
+
+  /**
+   * Wait until the instance reaches a connection state.
+   * Also finishes early when a QR code arrives (unless waiting for a pairing
+   * code login or for `qr_required` itself), on errors, deletion, timeout or abort.
+   */
+  waitForState(
+    instanceId: string,
+    targetState: ConnectionState,
+    timeoutMs: number,
+    signal?: AbortSignal
+  ): Promise<WaitForStateResult> {
+    const managed = this.instances.get(instanceId);
+
+    if (!managed) {
+      return Promise.reject(new Error(`Instance ${instanceId} not found`));
+    }
+
+    const startedAt = Date.now();
+
+    if (managed.state.status === targetState) {
+      return Promise.resolve({
+        instanceId,
+        state: managed.state.status,
+        reason: 'state_reached',
+        waitedMs: 0,
+      });
+    }
+
+    return new Promise((resolve) => {
+      const finish = (
+        reason: WaitForStateReason,
+        extra: Partial<WaitForStateResult> = {}
+      ) => {
+        clearTimeout(timer);
+        this.removeListener('lifecycle', onLifecycle);
+        signal?.removeEventListener('abort', onAbort);
+        resolve({
+          instanceId,
+          state: this.instances.get(instanceId)?.state.status || 'disconnected',
+          reason,
+          waitedMs: Date.now() - startedAt,
+          ...extra,
+        });
+      };
+
+      const onLifecycle = (id: string, event: InstanceLifecycleEvent) => {
+        if (id !== instanceId) return;
+
+        switch (event.type) {
+          case 'state':
+            if (event.state === targetState) finish('state_reached');
+            break;
+          case 'qr':
+            if (this.instances.get(instanceId)?.state.pendingLogin !== 'pairing_code') {
+              finish('qr', { qr: event.qr });
+            }
+            break;
+          case 'error':
+            finish('error', { error: event.error });
+            break;
+          case 'deleted':
+            finish('deleted');
+            break;
+        }
+      };
+
+      const onAbort = () => finish('aborted');
+      const timer = setTimeout(() => finish('timeout'), timeoutMs);
+
+      this.on('lifecycle', onLifecycle);
+      signal?.addEventListener('abort', onAbort);
+    });
+  }
+
   /**
    * Get MiawClient for instance
    */
@@ -139,16 +781,200 @@ export class InstanceManager extends EventEmitter {
     return managed ? managed.client : null;
   }
 
+  /**
+   * Get a managed instance or throw if it does not exist
+   */
+  private getManaged(instanceId: string): ManagedInstance {
+    const managed = this.instances.get(instanceId);
+
+    if (!managed) {
+      throw new Error(`Instance ${instanceId} not found`);
+    }
+
+    return managed;
+  }
+
+  /**
+   * Create client and state for an instance and add it to the map
+   */
+  private registerInstance(
+    config: InstanceConfig,
+    desiredState: DesiredState,
+    createdAt: Date,
+    webhooks: WebhookSubscription[] = [],
+    sinks: EventSink[] = []
+  ): ManagedInstance {
+    const { instanceId } = config;
+
+    const client = this.createClient(instanceId);
+
+    // Create state
+    const state: InstanceState = {
+      instanceId,
+      status: 'disconnected',
+      webhookEvents: config.webhookEvents || [],
+      webhookUrl: config.webhookUrl,
+      webhookEnabled: config.webhookEnabled ?? !!config.webhookUrl,
+      hasWebhookSecret: !!config.webhookSecret,
+      createdAt,
+      lastActivity: new Date(),
+    };
+
+    const managed: ManagedInstance = {
+      config,
+      client,
+      state,
+      desiredState,
+      webhooks,
+      sinks,
+    };
+
+    this.instances.set(instanceId, managed);
+
+    return managed;
+  }
+
+  /**
+   * Create a client with its event handlers, logging in with a pairing code
+   * for the phone number when one is given
+   */
+  private createClient(instanceId: string, pairingPhoneNumber?: string): MiawClient {
+    const clientOptions: MiawClientOptions = {
+      instanceId,
+      sessionPath: this.options.sessionPath,
+      debug: false,
+      ...(pairingPhoneNumber && { usePairingCode: true, phoneNumber: pairingPhoneNumber }),
+    };
+
+    const client = new MiawClient(clientOptions);
+    this.setupClientEvents(instanceId, client);
+
+    return client;
+  }
+
+  /**
+   * Close the client of an instance without emitting its events and put a new one in its place
+   */
+  private async replaceClient(managed: ManagedInstance, pairingPhoneNumber?: string): Promise<MiawClient> {
+    const { instanceId } = managed.config;
+    const previous = managed.client;
+
+    previous.removeAllListeners();
+    managed.client = this.createClient(instanceId, pairingPhoneNumber);
+    managed.pairingClient = !!pairingPhoneNumber;
+
+    try {
+      await previous.dispose();
+    } catch (err) {
+      this.logger.error({ instanceId, err }, 'Error closing replaced client');
+    }
+
+    this.updateState(instanceId, { status: 'disconnected' });
+    this.clearQrCode(instanceId);
+
+    return managed.client;
+  }
+
+  /**
+   * Write instance configuration to the registry
+   */
+  private persist(instanceId: string): void {
+    const registry = this.options.registry;
+    const managed = this.instances.get(instanceId);
+    if (!registry || !managed) {
+      return;
+    }
+
+    const record: InstanceRecord = {
+      instanceId,
+      webhookUrl: managed.state.webhookUrl,
+      webhookEvents: managed.state.webhookEvents,
+      webhookEnabled: managed.state.webhookEnabled,
+      webhookSecret: managed.config.webhookSecret,
+      webhookPreviousSecret: managed.webhookPreviousSecret,
+      desiredState: managed.desiredState,
+      webhooks: managed.webhooks,
+      sinks: managed.sinks,
+      createdAt: managed.state.createdAt.toISOString(),
+      updatedAt: new Date().toISOString(),
+    };
+
+    registry.save(record);
+  }
+
   /**
    * Update instance state
    */
   private updateState(instanceId: string, updates: Partial<InstanceState>): void {
     const managed = this.instances.get(instanceId);
     if (managed) {
+      const previousStatus = managed.state.status;
       managed.state = { ...managed.state, ...updates, lastActivity: new Date() };
+
+      if (updates.status && updates.status !== previousStatus) {
+        this.emitLifecycle(instanceId, { type: 'state', state: updates.status });
+      }
     }
   }
 
+  /**
+   * Notify internal listeners (e.g. waitForState) about lifecycle changes
+   */
+  private emitLifecycle(instanceId: string, event: InstanceLifecycleEvent): void {
+    this.emit('lifecycle', instanceId, event);
+  }
+
+  /**
+   * Remember the latest QR code so it can be fetched over the API
+   */
+  private cacheQrCode(instanceId: string, qr: string): void {
+    const managed = this.instances.get(instanceId);
+    if (managed) {
+      const receivedAt = new Date();
+      managed.qrCode = {
+        qr,
+        receivedAt,
+        expiresAt: new Date(receivedAt.getTime() + QR_CODE_TTL_MS),
+      };
+    }
+  }
+
+  /**
+   * Drop cached QR code
+   */
+  private clearQrCode(instanceId: string): void {
+    const managed = this.instances.get(instanceId);
+    if (managed) {
+      managed.qrCode = undefined;
+    }
+  }
+
+  /**
+   * Resolve with the next pairing code of a client, reject when connecting fails
+   * or no code arrives in time (miaw-core only logs failed pairing requests)
+   */
+  private waitForPairingCode(client: MiawClient, connecting: Promise<void>, timeoutMs: number): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const finish = (err: Error | undefined, pairingCode = '') => {
+        clearTimeout(timer);
+        client.removeListener('pairing_code', onPairingCode);
+        if (err) {
+          reject(err);
+        } else {
+          resolve(pairingCode);
+        }
+      };
+      const onPairingCode = (pairingCode: string) => finish(undefined, pairingCode);
+      const timer = setTimeout(
+        () => finish(new Error('Timed out waiting for a pairing code from WhatsApp')),
+        timeoutMs
+      );
+
+      client.on('pairing_code', onPairingCode);
+      connecting.catch((err: Error) => finish(err));
+    });
+  }
+
   /**
    * Set up MiawClient event handlers
    */
@@ -162,13 +988,21 @@ export class InstanceManager extends EventEmitter {
       this.emitWebhook(instanceId, 'connection', { state });
 
       if (state === 'connected') {
-        const user = (client as any).socket?.user;
+        const user = getConnectionSocket(client)?.user;
         if (user) {
           this.updateState(instanceId, {
             connectedAt: new Date(),
             phoneNumber: user.id?.split('@')[0],
           });
         }
+        this.updateState(instanceId, {
+          pendingLogin: undefined,
+          pairingCode: undefined,
+          pairingPhoneNumber: undefined,
+        });
+        this.clearQrCode(instanceId);
+        this.setDesiredState(instanceId, 'connected');
+        this.setupSocketEvents(instanceId, client);
         this.emitWebhook(instanceId, 'ready', {
           instanceId,
           connectedAt: Date.now(),
@@ -183,10 +1017,27 @@ export class InstanceManager extends EventEmitter {
     // QR code
     client.on('qr', (qr: string) => {
       this.logger.info({ instanceId }, 'QR code received');
-      this.updateState(instanceId, { status: 'qr_required' });
+      this.updateState(instanceId, {
+        status: 'qr_required',
+        pendingLogin: this.getInstance(instanceId)?.pendingLogin || 'qr',
+      });
+      this.cacheQrCode(instanceId, qr);
+      this.emitLifecycle(instanceId, { type: 'qr', qr });
       this.emitWebhook(instanceId, 'qr', { qr });
     });
 
+    // Pairing code, requested again on every connect until the device is linked
+    client.on('pairing_code', (pairingCode: string) => {
+      if (!pairingCode) return;
+
+      this.logger.info({ instanceId }, 'Pairing code received');
+      this.updateState(instanceId, { pairingCode });
+      this.emitWebhook(instanceId, 'pairing_code', {
+        pairingCode,
+        phoneNumber: this.getInstance(instanceId)?.pairingPhoneNumber,
+      });
+    });
+
     // Reconnecting
     client.on('reconnecting', (attempt: number) => {
       this.logger.info({ instanceId, attempt }, 'Reconnecting');
@@ -198,12 +1049,14 @@ export class InstanceManager extends EventEmitter {
     client.on('disconnected', (reason?: string) => {
       this.logger.info({ instanceId, reason }, 'Disconnected');
       this.updateState(instanceId, { status: 'disconnected' });
+      this.clearQrCode(instanceId);
       this.emitWebhook(instanceId, 'disconnected', { reason });
     });
 
     // Error
     client.on('error', (error: Error) => {
       this.logger.error({ instanceId, error: error.message }, 'Instance error');
+      this.emitLifecycle(instanceId, { type: 'error', error: error.message });
       this.emitWebhook(instanceId, 'error', { error: error.message });
     });
 
@@ -237,6 +1090,14 @@ export class InstanceManager extends EventEmitter {
       this.emitWebhook(instanceId, 'presence', update);
     });
 
+    // Delivery, read and played receipts of our messages
+    client.on('message_receipt', (receipt: MessageReceiptUpdate) => {
+      const update = fromMessageReceipt(receipt);
+      if (update) {
+        this.recordMessageStatus(instanceId, update);
+      }
+    });
+
     // Session saved
     client.on('session_saved', () => {
       this.logger.debug({ instanceId }, 'Session saved');
@@ -244,30 +1105,162 @@ export class InstanceManager extends EventEmitter {
   }
 
   /**
-   * Emit webhook event (actual delivery handled by WebhookDispatcher)
+   * Forward events MiawClient does not emit itself (group changes) from the connection's socket
+   */
+  private setupSocketEvents(instanceId: string, client: MiawClient): void {
+    const ev = getConnectionSocket(client)?.ev;
+    if (!ev || this.socketEmitters.has(ev)) return;
+    this.socketEmitters.add(ev);
+
+    // Group participants added, removed, promoted or demoted
+    ev.on('group-participants.update', (update) => {
+      const data = fromParticipantsUpdate(update);
+      if (data) {
+        this.logger.debug({ instanceId, groupId: data.groupId, action: data.action }, 'Group participants update');
+        this.emitWebhook(instanceId, 'group_participants_update', data);
+      }
+    });
+
+    // Group subject, description and settings
+    ev.on('groups.update', (updates) => {
+      for (const update of updates) {
+        const data = fromGroupsUpdate(update);
+        if (data) {
+          this.logger.debug({ instanceId, groupId: data.groupId }, 'Group update');
+          this.emitWebhook(instanceId, 'group_update', data);
+        }
+      }
+    });
+
+    // Group picture changes only arrive as stub messages
+    ev.on('messages.upsert', ({ messages }) => {
+      for (const message of messages || []) {
+        const data = fromPictureStub(message);
+        if (data) {
+          this.logger.debug({ instanceId, groupId: data.groupId }, 'Group picture update');
+          this.emitWebhook(instanceId, 'group_update', data);
+        }
+      }
+    });
+
+    // Requests to join groups that need admin approval
+    ev.on('group.join-request', (update) => {
+      const data = fromJoinRequest(update);
+      if (data) {
+        this.logger.debug({ instanceId, groupId: data.groupId, action: data.action }, 'Group join request');
+        this.emitWebhook(instanceId, 'group_join_request', data);
+      }
+    });
+  }
+
+  /**
+   * Store a status update and emit message_status when it changed the message's status
+   */
+  private recordMessageStatus(instanceId: string, update: MessageStatusUpdate): void {
+    if (!this.instances.has(instanceId) || !this.messageStatuses.apply(instanceId, update)) return;
+
+    this.logger.debug({ instanceId, messageId: update.messageId, status: update.status }, 'Message status');
+    this.emitWebhook(instanceId, 'message_status', update);
+  }
+
+  /**
+   * Record a message an instance just sent, so its status is known before the first receipt
+   */
+  recordSentMessage(instanceId: string, messageId: string, to: string): void {
+    this.recordMessageStatus(instanceId, {
+      messageId,
+      chatId: toChatJid(to),
+      status: 'sent',
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * Acknowledgements of a message sent by an instance, undefined when unknown
+   */
+  getMessageStatus(instanceId: string, messageId: string): MessageStatus | undefined {
+    return this.messageStatuses.get(instanceId, messageId);
+  }
+
+  /**
+   * Emit event to live event streams ('event'), every matching event sink ('sink',
+   * written by EventSinkManager), the main webhook URL and every matching
+   * subscription ('webhook', actual delivery handled by WebhookDispatcher)
    */
   private emitWebhook(instanceId: string, event: WebhookEvent, data: any): void {
     const managed = this.instances.get(instanceId);
     if (!managed) return;
 
-    // Check if webhook is enabled and event is subscribed
-    if (!managed.state.webhookEnabled || !managed.state.webhookUrl) {
-      return;
-    }
-
-    if (managed.state.webhookEvents.length > 0 && !managed.state.webhookEvents.includes(event)) {
-      return;
-    }
-
     const payload: WebhookPayload = {
+      id: crypto.randomUUID(),
       event,
       instanceId,
       timestamp: Date.now(),
       data,
     };
 
+    // Live event streams get every event, independent of webhook configuration
+    this.emit('event', payload);
+
+    const subscribed = (events: WebhookEvent[]) => events.length === 0 || events.includes(event);
+
+    for (const sink of managed.sinks) {
+      if (sink.enabled && subscribed(sink.events)) {
+        this.emit('sink', sink, payload);
+      }
+    }
+
+    const filterContext = this.getFilterContext(managed, data);
+    const targets: { url: string; options: WebhookDeliveryOptions }[] = [];
+
+    if (managed.state.webhookEnabled && managed.state.webhookUrl && subscribed(managed.state.webhookEvents)) {
+      targets.push({ url: managed.state.webhookUrl, options: {} });
+    }
+
+    for (const webhook of managed.webhooks) {
+      if (
+        webhook.enabled &&
+        subscribed(webhook.events) &&
+        matchesWebhookFilter(webhook.filter, payload, filterContext)
+      ) {
+        targets.push({
+          url: webhook.url,
+          // Credentials are looked up with getWebhookCredentials when the delivery is sent
+          options: {
+            subscriptionId: webhook.id,
+            retryPolicy: webhook.retryPolicy,
+            format: webhook.format,
+            template: webhook.template,
+            batch: webhook.batch,
+          },
+        });
+      }
+    }
+
     // Emit to be handled by WebhookDispatcher
-    this.emit('webhook', managed.state.webhookUrl, payload);
+    for (const target of targets) {
+      this.emit('webhook', target.url, payload, target.options);
+    }
+  }
+
+  /**
+   * Context for subscription filters; chat labels are only looked up when a filter asks for them
+   */
+  private getFilterContext(managed: ManagedInstance, data: any): WebhookFilterContext {
+    const chatJid = getChatJid(data);
+
+    return {
+      chatHasLabel: (labelId: string) => {
+        if (!chatJid) return false;
+        try {
+          // getChatsByLabel is synchronous in miaw-core
+          const chats: { jid: string }[] = managed.client.getChatsByLabel(labelId) || [];
+          return chats.some((chat) => chat.jid === chatJid);
+        } catch {
+          return false;
+        }
+      },
+    };
   }
 
   /**
@@ -292,3 +1285,18 @@ export class InstanceManager extends EventEmitter {
     this.removeAllListeners();
   }
 }
+
+/**
+ * Current Baileys socket of a client, undefined before the first connection
+ */
+function getConnectionSocket(client: MiawClient): ConnectionSocket | undefined {
+  const socket = (client as unknown as { socket?: Partial<ConnectionSocket> }).socket;
+  return typeof socket?.ev?.on === 'function' ? (socket as ConnectionSocket) : undefined;
+}
+
+/**
+ * Chat JID of a send target given as phone number or JID
+ */
+function toChatJid(to: string): string {
+  return to.includes('@') ? to : `${to.replace(/\D/g, '')}@s.whatsapp.net`;
+}
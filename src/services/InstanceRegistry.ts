@@ -0,0 +1,121 @@
+/**
+ * Instance Registry Service
+ * Persists instance configuration to disk so instances survive restarts
+ */
+
+import fs from 'fs';
+import path from 'path';
+import pino from 'pino';
+import { InstanceRecord } from '../types';
+
+interface InstanceRegistryOptions {
+  filePath: string;
+}
+
+interface RegistryFile {
+  version: number;
+  instances: InstanceRecord[];
+}
+
+const REGISTRY_VERSION = 1;
+const REGISTRY_FILE_MODE = 0o600;
+
+/**
+ * JSON file backed registry of instance configuration and desired state
+ */
+export class InstanceRegistry {
+  private options: InstanceRegistryOptions;
+  private logger: pino.Logger;
+  private records: Map<string, InstanceRecord> = new Map();
+
+  constructor(options: InstanceRegistryOptions) {
+    this.options = options;
+    this.logger = pino({ level: 'info' });
+  }
+
+  /**
+   * Load records from disk, replacing anything held in memory
+   */
+  load(): InstanceRecord[] {
+    this.records.clear();
+
+    if (!fs.existsSync(this.options.filePath)) {
+      return [];
+    }
+
+    try {
+      const raw = fs.readFileSync(this.options.filePath, 'utf8');
+      const file = JSON.parse(raw) as RegistryFile;
+
+      for (const record of file.instances || []) {
+        if (record?.instanceId) {
+          this.records.set(record.instanceId, record);
+        }
+      }
+    } catch (err) {
+      // Keep the server bootable; the unreadable file is left in place for inspection
+      this.logger.error(
+        { filePath: this.options.filePath, error: err instanceof Error ? err.message : 'Unknown error' },
+        'Failed to load instance registry'
+      );
+    }
+
+    return this.list();
+  }
+
+  /**
+   * Get a single record
+   */
+  get(instanceId: string): InstanceRecord | null {
+    return this.records.get(instanceId) || null;
+  }
+
+  /**
+   * List all records
+   */
+  list(): InstanceRecord[] {
+    return Array.from(this.records.values());
+  }
+
+  /**
+   * Insert or replace a record
+   */
+  save(record: InstanceRecord): void {
+    this.records.set(record.instanceId, record);
+    this.flush();
+  }
+
+  /**
+   * Remove a record
+   */
+  remove(instanceId: string): void {
+    if (this.records.delete(instanceId)) {
+      this.flush();
+    }
+  }
+
+  /**
+   * Write registry to disk atomically (temp file + rename).
+   * Readable by the owner only, records hold webhook secrets and endpoint credentials.
+   */
+  private flush(): void {
+    const file: RegistryFile = {
+      version: REGISTRY_VERSION,
+      instances: this.list(),
+    };
+    const tmpPath = `${this.options.filePath}.tmp`;
+
+    try {
+      fs.mkdirSync(path.dirname(this.options.filePath), { recursive: true });
+      fs.writeFileSync(tmpPath, JSON.stringify(file, null, 2), { mode: REGISTRY_FILE_MODE });
+      // A temp file left over from a failed write keeps its old mode
+      fs.chmodSync(tmpPath, REGISTRY_FILE_MODE);
+      fs.renameSync(tmpPath, this.options.filePath);
+    } catch (err) {
+      this.logger.error(
+        { filePath: this.options.filePath, error: err instanceof Error ? err.message : 'Unknown error' },
+        'Failed to write instance registry'
+      );
+    }
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * Message Status Store
+ * Bounded in-memory record of the acknowledgements of messages sent by each instance
+ */
+
+import type { MessageReceiptUpdate } from 'miaw-core';
+import { MessageDeliveryStatus, MessageReceipt, MessageStatus, MessageStatusUpdate } from '../types';
+
+interface MessageStatusStoreOptions {
+  // Oldest messages of an instance are dropped beyond this size
+  maxMessagesPerInstance?: number;
+}
+
+const DEFAULT_MAX_MESSAGES_PER_INSTANCE = 1000;
+
+// Statuses of miaw-core receipt types
+const RECEIPT_STATUSES: Record<MessageReceiptUpdate['type'], MessageDeliveryStatus> = {
+  delivery: 'delivered',
+  read: 'read',
+  played: 'played',
+};
+
+// Order statuses advance in, a message never moves back
+const STATUS_ORDER: MessageDeliveryStatus[] = ['pending', 'sent', 'delivered', 'read', 'played'];
+
+// Timestamp field set when a message or a participant's receipt reaches a status
+const RECEIPT_FIELDS: Partial<Record<MessageDeliveryStatus, keyof MessageReceipt>> = {
+  delivered: 'deliveredAt',
+  read: 'readAt',
+  played: 'playedAt',
+};
+const STATUS_FIELDS: Partial<Record<MessageDeliveryStatus, keyof MessageReceipt | 'sentAt' | 'failedAt'>> = {
+  ...RECEIPT_FIELDS,
+  sent: 'sentAt',
+  failed: 'failedAt',
+};
+
+/**
+ * Status update of one of our messages from a miaw-core `message_receipt` event.
+ * Group receipts are kept per participant, receipts in other chats count for the message.
+ */
+export function fromMessageReceipt(receipt: MessageReceiptUpdate, now = Date.now()): MessageStatusUpdate | undefined {
+  const status = RECEIPT_STATUSES[receipt?.type];
+  if (!receipt?.fromMe || !receipt.messageId || !receipt.chatId || !status) {
+    return undefined;
+  }
+
+  const participant = receipt.chatId.endsWith('@g.us') ? receipt.recipientId : undefined;
+
+  return {
+    messageId: receipt.messageId,
+    chatId: receipt.chatId,
+    status,
+    ...(participant && { participant }),
+    // Receipt timestamps are seconds
+    timestamp: receipt.timestamp ? receipt.timestamp * 1000 : now,
+  };
+}
+
+/**
+ * Per-instance message statuses, oldest first (not persisted)
+ */
+export class MessageStatusStore {
+  private options: Required<MessageStatusStoreOptions>;
+  private statuses: Map<string, Map<string, MessageStatus>> = new Map();
+
+  constructor(options: MessageStatusStoreOptions = {}) {
+    this.options = {
+      maxMessagesPerInstance: DEFAULT_MAX_MESSAGES_PER_INSTANCE,
+      ...options,
+    };
+  }
+
+  /**
+   * Apply a status update, returns the updated status or undefined when it changed nothing
+   * (duplicates and updates older than the current status are ignored)
+   */
+  apply(instanceId: string, update: MessageStatusUpdate): MessageStatus | undefined {
+    const status = this.getOrCreate(instanceId, update);
+
+    const changed = update.participant ? this.applyReceipt(status, update) : this.applyStatus(status, update);
+    if (!changed) {
+      return undefined;
+    }
+
+    status.updatedAt = update.timestamp;
+    return status;
+  }
+
+  /**
+   * Status of a message, undefined when unknown or already dropped
+   */
+  get(instanceId: string, messageId: string): MessageStatus | undefined {
+    return this.statuses.get(instanceId)?.get(messageId);
+  }
+
+  /**
+   * Drop every status of an instance
+   */
+  clear(instanceId: string): void {
+    this.statuses.delete(instanceId);
+  }
+
+  private getOrCreate(instanceId: string, update: MessageStatusUpdate): MessageStatus {
+    let messages = this.statuses.get(instanceId);
+    if (!messages) {
+      messages = new Map();
+      this.statuses.set(instanceId, messages);
+    }
+
+    let status = messages.get(update.messageId);
+    if (!status) {
+      status = {
+        messageId: update.messageId,
+        chatId: update.chatId,
+        status: 'pending',
+        updatedAt: update.timestamp,
+      };
+      messages.set(update.messageId, status);
+
+      if (messages.size > this.options.maxMessagesPerInstance) {
+        messages.delete(messages.keys().next().value!);
+      }
+    }
+    return status;
+  }
+
+  private applyStatus(status: MessageStatus, update: MessageStatusUpdate): boolean {
+    if (status.status === 'failed') {
+      return false;
+    }
+    if (update.status !== 'failed' && STATUS_ORDER.indexOf(update.status) <= STATUS_ORDER.indexOf(status.status)) {
+      return false;
+    }
+
+    status.status = update.status;
+    const field = STATUS_FIELDS[update.status];
+    if (field) {
+      status[field] = update.timestamp;
+    }
+    return true;
+  }
+
+  private applyReceipt(status: MessageStatus, update: MessageStatusUpdate): boolean {
+    const field = RECEIPT_FIELDS[update.status];
+    if (!field) {
+      return false;
+    }
+
+    status.participants = status.participants || {};
+    const receipt = status.participants[update.participant!] || {};
+    status.participants[update.participant!] = receipt;
+    if (receipt[field] !== undefined) {
+      return false;
+    }
+
+    receipt[field] = update.timestamp;
+    return true;
+  }
+}
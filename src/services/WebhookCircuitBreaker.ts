@@ -0,0 +1,148 @@
+/**
+ * Webhook Circuit Breaker
+ * Tracks consecutive failures per destination URL so deliveries to a
+ * consumer that is down are held instead of burning through their retries
+ */
+
+export type WebhookCircuitState = 'closed' | 'open' | 'half_open';
+
+export interface WebhookCircuitStats {
+  url: string;
+  state: WebhookCircuitState;
+  consecutiveFailures: number;
+  openedAt?: number;
+  // When an open circuit lets the next probe request through
+  nextProbeAt?: number;
+}
+
+interface WebhookCircuitBreakerOptions {
+  // Consecutive failures that open the circuit (0 disables the breaker)
+  threshold: number;
+  // How long an open circuit holds deliveries before probing
+  cooldownMs: number;
+}
+
+interface Circuit {
+  state: WebhookCircuitState;
+  consecutiveFailures: number;
+  openedAt?: number;
+}
+
+/**
+ * Per-URL circuit breaker: closed -> open after `threshold` consecutive failures,
+ * open -> half_open after `cooldownMs`, half_open -> closed on a successful probe
+ * or back to open when the probe fails
+ */
+export class WebhookCircuitBreaker {
+  private options: WebhookCircuitBreakerOptions;
+  private circuits: Map<string, Circuit> = new Map();
+
+  constructor(options: WebhookCircuitBreakerOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Whether a delivery to the URL may start now.
+   * Open and half-open circuits let a single probe through at a time.
+   */
+  allows(url: string, now: number, probeInFlight: boolean): boolean {
+    const circuit = this.circuits.get(url);
+    if (!circuit || circuit.state === 'closed') {
+      return true;
+    }
+
+    if (circuit.state === 'open' && now < circuit.openedAt! + this.options.cooldownMs) {
+      return false;
+    }
+
+    return !probeInFlight;
+  }
+
+  /**
+   * Whether deliveries to the URL are currently limited to probes
+   */
+  isTripped(url: string): boolean {
+    const circuit = this.circuits.get(url);
+    return !!circuit && circuit.state !== 'closed';
+  }
+
+  /**
+   * Note that a delivery attempt started; a due open circuit becomes half-open
+   */
+  onAttempt(url: string): void {
+    const circuit = this.circuits.get(url);
+    if (circuit?.state === 'open') {
+      circuit.state = 'half_open';
+    }
+  }
+
+  /**
+   * Record a response that shows the consumer is up, returns true if the circuit closed
+   */
+  recordSuccess(url: string): boolean {
+    const circuit = this.circuits.get(url);
+    if (!circuit) {
+      return false;
+    }
+
+    const wasTripped = circuit.state !== 'closed';
+    this.circuits.delete(url);
+    return wasTripped;
+  }
+
+  /**
+   * Record a failed attempt, returns true if this opened the circuit
+   */
+  recordFailure(url: string, now: number): boolean {
+    if (this.options.threshold <= 0) {
+      return false;
+    }
+
+    let circuit = this.circuits.get(url);
+    if (!circuit) {
+      circuit = { state: 'closed', consecutiveFailures: 0 };
+      this.circuits.set(url, circuit);
+    }
+
+    circuit.consecutiveFailures++;
+
+    if (
+      circuit.state === 'half_open' ||
+      (circuit.state === 'closed' && circuit.consecutiveFailures >= this.options.threshold)
+    ) {
+      circuit.state = 'open';
+      circuit.openedAt = now;
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Current state of one URL
+   */
+  getState(url: string): WebhookCircuitStats {
+    const circuit = this.circuits.get(url);
+    if (!circuit) {
+      return { url, state: 'closed', consecutiveFailures: 0 };
+    }
+
+    return {
+      url,
+      state: circuit.state,
+      consecutiveFailures: circuit.consecutiveFailures,
+      openedAt: circuit.openedAt,
+      nextProbeAt:
+        circuit.state === 'open' ? circuit.openedAt! + this.options.cooldownMs : undefined,
+    };
+  }
+
+  /**
+   * All circuits that are open or half-open
+   */
+  listTripped(): WebhookCircuitStats[] {
+    return Array.from(this.circuits.keys())
+      .map((url) => this.getState(url))
+      .filter((circuit) => circuit.state !== 'closed');
+  }
+}
@@ -0,0 +1,248 @@
+/**
+ * Webhook Dead-Letter Store
+ * Keeps webhook deliveries that exhausted their retries so they can be replayed
+ */
+
+import fs from 'fs';
+import path from 'path';
+import pino from 'pino';
+import { WebhookDeliveryOptions } from '../types';
+
+/**
+ * Delivery that failed permanently
+ */
+export interface DeadLetter extends WebhookDeliveryOptions {
+  id: string;
+  instanceId: string;
+  event: string;
+  url: string;
+  payload: any;
+  attempts: number;
+  lastStatusCode?: number;
+  lastError?: string;
+  failedAt: number;
+}
+
+/**
+ * Filter for listing, replaying and purging dead letters
+ */
+export interface DeadLetterFilter {
+  instanceId: string;
+  event?: string;
+  // Inclusive failedAt range (ms since epoch)
+  from?: number;
+  to?: number;
+}
+
+interface WebhookDeadLetterStoreOptions {
+  // Persist to this JSONL journal; memory only when omitted
+  filePath?: string;
+  // Oldest entries are dropped beyond this size
+  maxEntries?: number;
+  // Rewrite the journal once it holds this many more records than live entries
+  compactThreshold?: number;
+}
+
+type JournalRecord = { op: 'put'; entry: DeadLetter } | { op: 'del'; id: string };
+
+const DEFAULT_MAX_ENTRIES = 10000;
+const DEFAULT_COMPACT_THRESHOLD = 1000;
+// Payloads hold message contents, only the server user may read them
+const DEAD_LETTER_FILE_MODE = 0o600;
+
+/**
+ * Bounded dead-letter store, optionally persisted to an append-only JSONL journal
+ * that is compacted on load and whenever stale records pile up
+ */
+export class WebhookDeadLetterStore {
+  private options: WebhookDeadLetterStoreOptions;
+  private logger: pino.Logger;
+  // Insertion ordered, oldest first
+  private entries: Map<string, DeadLetter> = new Map();
+  private fd?: number;
+  private journalRecords = 0;
+
+  constructor(options: WebhookDeadLetterStoreOptions = {}) {
+    this.options = options;
+    this.logger = pino({ level: 'info' });
+    this.load();
+  }
+
+  /**
+   * Add a dead letter (replaces an existing one with the same ID)
+   */
+  add(entry: DeadLetter): void {
+    this.entries.delete(entry.id);
+    this.entries.set(entry.id, entry);
+    this.append({ op: 'put', entry });
+
+    const maxEntries = this.options.maxEntries || DEFAULT_MAX_ENTRIES;
+    while (this.entries.size > maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.append({ op: 'del', id: oldest });
+    }
+  }
+
+  /**
+   * Get a dead letter of an instance
+   */
+  get(instanceId: string, id: string): DeadLetter | null {
+    const entry = this.entries.get(id);
+    return entry && entry.instanceId === instanceId ? entry : null;
+  }
+
+  /**
+   * List dead letters matching a filter, newest first
+   */
+  list(filter: DeadLetterFilter): DeadLetter[] {
+    return Array.from(this.entries.values())
+      .filter((entry) => this.matches(entry, filter))
+      .reverse();
+  }
+
+  /**
+   * Remove a single dead letter
+   */
+  remove(instanceId: string, id: string): DeadLetter | null {
+    const entry = this.get(instanceId, id);
+    if (entry) {
+      this.entries.delete(id);
+      this.append({ op: 'del', id });
+    }
+    return entry;
+  }
+
+  /**
+   * Remove all dead letters matching a filter
+   */
+  removeAll(filter: DeadLetterFilter): DeadLetter[] {
+    const removed = this.list(filter);
+    for (const entry of removed) {
+      this.entries.delete(entry.id);
+      this.append({ op: 'del', id: entry.id });
+    }
+    return removed;
+  }
+
+  /**
+   * Number of stored dead letters
+   */
+  size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Close the journal (reopened by the next write)
+   */
+  close(): void {
+    if (this.fd !== undefined) {
+      fs.closeSync(this.fd);
+      this.fd = undefined;
+    }
+  }
+
+  private matches(entry: DeadLetter, filter: DeadLetterFilter): boolean {
+    if (entry.instanceId !== filter.instanceId) return false;
+    if (filter.event && entry.event !== filter.event) return false;
+    if (filter.from !== undefined && entry.failedAt < filter.from) return false;
+    if (filter.to !== undefined && entry.failedAt > filter.to) return false;
+    return true;
+  }
+
+  /**
+   * Replay the journal and compact it
+   */
+  private load(): void {
+    const { filePath } = this.options;
+    if (!filePath) {
+      return;
+    }
+
+    if (fs.existsSync(filePath)) {
+      const lines = fs.readFileSync(filePath, 'utf8').split('\n');
+
+      for (const line of lines) {
+        if (!line.trim()) continue;
+
+        try {
+          const record = JSON.parse(line) as JournalRecord;
+          if (record.op === 'put') {
+            this.entries.delete(record.entry.id);
+            this.entries.set(record.entry.id, record.entry);
+          } else if (record.op === 'del') {
+            this.entries.delete(record.id);
+          }
+        } catch {
+          // A torn last line after a crash is expected, skip it
+          this.logger.warn({ filePath }, 'Skipping unreadable webhook dead letter record');
+        }
+      }
+    }
+
+    this.compact();
+  }
+
+  /**
+   * Append one record to the journal
+   */
+  private append(record: JournalRecord): void {
+    const { filePath } = this.options;
+    if (!filePath) {
+      return;
+    }
+
+    try {
+      fs.writeSync(this.open(filePath), JSON.stringify(record) + '\n');
+      this.journalRecords++;
+    } catch (err) {
+      this.logger.error(
+        { filePath, error: err instanceof Error ? err.message : 'Unknown error' },
+        'Failed to write webhook dead letters'
+      );
+      return;
+    }
+
+    const compactThreshold = this.options.compactThreshold || DEFAULT_COMPACT_THRESHOLD;
+    if (this.journalRecords - this.entries.size > compactThreshold) {
+      this.compact();
+    }
+  }
+
+  /**
+   * Rewrite the journal with only live entries (temp file + rename)
+   */
+  private compact(): void {
+    const filePath = this.options.filePath!;
+    const tmpPath = `${filePath}.tmp`;
+    const content = Array.from(this.entries.values())
+      .map((entry) => JSON.stringify({ op: 'put', entry }) + '\n')
+      .join('');
+
+    try {
+      this.close();
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(tmpPath, content, { mode: DEAD_LETTER_FILE_MODE });
+      // A temp file left over from a failed write keeps its old mode
+      fs.chmodSync(tmpPath, DEAD_LETTER_FILE_MODE);
+      fs.renameSync(tmpPath, filePath);
+      this.journalRecords = this.entries.size;
+    } catch (err) {
+      this.logger.error(
+        { filePath, error: err instanceof Error ? err.message : 'Unknown error' },
+        'Failed to compact webhook dead letters'
+      );
+    }
+  }
+
+  /**
+   * Lazily open the journal for appending
+   */
+  private open(filePath: string): number {
+    if (this.fd === undefined) {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      this.fd = fs.openSync(filePath, 'a', DEAD_LETTER_FILE_MODE);
+    }
+    return this.fd;
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Webhook Delivery Log
+ * Bounded in-memory record of every delivery attempt for debugging consumers
+ */
+
+/**
+ * One HTTP attempt of a webhook delivery
+ */
+export interface WebhookDeliveryAttempt {
+  deliveryId: string;
+  instanceId: string;
+  event: string;
+  url: string;
+  subscriptionId?: string;
+  attempt: number;
+  status: 'success' | 'failed';
+  statusCode?: number;
+  latencyMs: number;
+  error?: string;
+  requestHeaders: Record<string, string>;
+  // Truncated to the log's body limit
+  requestBody: string;
+  responseBody?: string;
+  startedAt: number;
+}
+
+/**
+ * Filter for listing attempts of an instance
+ */
+export interface WebhookDeliveryAttemptFilter {
+  instanceId: string;
+  event?: string;
+  status?: 'success' | 'failed';
+  // Inclusive startedAt range (ms since epoch)
+  from?: number;
+  to?: number;
+}
+
+interface WebhookDeliveryLogOptions {
+  // Oldest attempts of an instance are dropped beyond this size
+  maxEntriesPerInstance?: number;
+  // Request and response bodies are cut to this many characters
+  maxBodyLength?: number;
+}
+
+const DEFAULT_MAX_ENTRIES_PER_INSTANCE = 500;
+const DEFAULT_MAX_BODY_LENGTH = 4096;
+
+/**
+ * Per-instance ring buffers of delivery attempts (not persisted)
+ */
+export class WebhookDeliveryLog {
+  private options: Required<WebhookDeliveryLogOptions>;
+  // Oldest first per instance
+  private entries: Map<string, WebhookDeliveryAttempt[]> = new Map();
+
+  constructor(options: WebhookDeliveryLogOptions = {}) {
+    this.options = {
+      maxEntriesPerInstance: DEFAULT_MAX_ENTRIES_PER_INSTANCE,
+      maxBodyLength: DEFAULT_MAX_BODY_LENGTH,
+      ...options,
+    };
+  }
+
+  /**
+   * Record an attempt, bodies are truncated
+   */
+  add(attempt: WebhookDeliveryAttempt): WebhookDeliveryAttempt {
+    const entry: WebhookDeliveryAttempt = {
+      ...attempt,
+      requestBody: this.truncate(attempt.requestBody)!,
+      responseBody: this.truncate(attempt.responseBody),
+    };
+
+    let entries = this.entries.get(entry.instanceId);
+    if (!entries) {
+      entries = [];
+      this.entries.set(entry.instanceId, entries);
+    }
+
+    entries.push(entry);
+    if (entries.length > this.options.maxEntriesPerInstance) {
+      entries.splice(0, entries.length - this.options.maxEntriesPerInstance);
+    }
+
+    return entry;
+  }
+
+  /**
+   * Attach the response body once it has been read
+   */
+  setResponseBody(entry: WebhookDeliveryAttempt, body: string): void {
+    entry.responseBody = this.truncate(body);
+  }
+
+  /**
+   * List attempts matching a filter, newest first
+   */
+  list(filter: WebhookDeliveryAttemptFilter): WebhookDeliveryAttempt[] {
+    return (this.entries.get(filter.instanceId) || [])
+      .filter((entry) => {
+        if (filter.event && entry.event !== filter.event) return false;
+        if (filter.status && entry.status !== filter.status) return false;
+        if (filter.from !== undefined && entry.startedAt < filter.from) return false;
+        if (filter.to !== undefined && entry.startedAt > filter.to) return false;
+        return true;
+      })
+      .reverse();
+  }
+
+  /**
+   * All recorded attempts of one delivery, first attempt first
+   */
+  getDelivery(instanceId: string, deliveryId: string): WebhookDeliveryAttempt[] {
+    return (this.entries.get(instanceId) || []).filter((entry) => entry.deliveryId === deliveryId);
+  }
+
+  /**
+   * Drop all attempts of an instance
+   */
+  clear(instanceId: string): void {
+    this.entries.delete(instanceId);
+  }
+
+  private truncate(body?: string): string | undefined {
+    if (body === undefined || body.length <= this.options.maxBodyLength) {
+      return body;
+    }
+    return `${body.slice(0, this.options.maxBodyLength)}... [truncated ${body.length - this.options.maxBodyLength} chars]`;
+  }
+}
@@ -3,21 +3,121 @@
  * Handles delivery of webhook events with retry mechanism
  */
 
+import { EventEmitter } from 'events';
 import pino from 'pino';
 import crypto from 'crypto';
+import { Agent } from 'undici';
+import { MemoryWebhookQueueStore, WebhookQueueStore } from './WebhookQueueStore';
+import { DeadLetter, DeadLetterFilter, WebhookDeadLetterStore } from './WebhookDeadLetterStore';
+import { WebhookCircuitBreaker, WebhookCircuitStats } from './WebhookCircuitBreaker';
+import {
+  WebhookDeliveryAttempt,
+  WebhookDeliveryAttemptFilter,
+  WebhookDeliveryLog,
+} from './WebhookDeliveryLog';
+import {
+  WebhookAuth,
+  WebhookDeliveryCredentials,
+  WebhookDeliveryOptions,
+  WebhookPayload,
+  WebhookRetryPolicy,
+  WebhookTlsSettings,
+} from '../types';
+import { getChatJid, renderWebhookTemplate } from '../utils/webhookFilter';
+import { DestinationPolicy, DestinationPolicyError } from '../utils/destinationPolicy';
+import { redactHeaders } from '../utils/redact';
+import {
+  CLOUDEVENTS_BATCH_CONTENT_TYPE,
+  CLOUDEVENTS_CONTENT_TYPE,
+  cloudEventHeaders,
+  toCloudEvent,
+} from '../utils/cloudEvents';
 
 interface WebhookDispatcherOptions {
   secret: string;
   timeout: number;
+  // Total attempts per delivery (retry policy maxAttempts)
   maxRetries: number;
+  // Delay before the first retry (retry policy baseDelayMs)
   retryDelay: number;
+  retryMultiplier?: number;
+  // Fraction of the delay, e.g. 0.2 spreads retries +/- 20%
+  retryJitter?: number;
+  retryMaxDelay?: number;
+  // Consecutive failures that open a URL's circuit (defaults to 5, 0 disables)
+  circuitThreshold?: number;
+  // How long an open circuit holds deliveries before a probe (defaults to 60s)
+  circuitCooldown?: number;
+  // Max deliveries in flight at once (defaults to 10)
+  concurrency?: number;
+  // Persistence for pending deliveries (defaults to in-memory)
+  store?: WebhookQueueStore;
+  // Where deliveries go after max retries (defaults to in-memory)
+  deadLetters?: WebhookDeadLetterStore;
+  // Record of every attempt (defaults to 500 attempts per instance)
+  deliveryLog?: WebhookDeliveryLog;
+  // Checked before every attempt and on every connection (no restrictions when unset)
+  destinationPolicy?: DestinationPolicy;
+  // Current credentials of an endpoint, looked up on every attempt so they are never
+  // stored with a delivery; null when the endpoint is gone (none when unset)
+  resolveCredentials?: (instanceId: string, subscriptionId?: string) => WebhookDeliveryCredentials | null;
 }
 
-interface WebhookDelivery {
+interface WebhookDelivery extends WebhookDeliveryOptions {
   url: string;
+  // A WebhookPayload, or an array of them for batched endpoints
   payload: any;
   attempt: number;
+  queuedAt?: number;
   nextRetryTime?: number;
+  lastStatusCode?: number;
+  lastError?: string;
+}
+
+/**
+ * Events collected for a batched endpoint, queued as one delivery when full or due
+ */
+interface PendingBatch {
+  id: string;
+  url: string;
+  options: WebhookDeliveryOptions;
+  items: any[];
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Outcome of a single delivery attempt
+ */
+interface AttemptResult {
+  success: boolean;
+  statusCode?: number;
+  // From a Retry-After header on 429/503
+  retryAfterMs?: number;
+  // Destination rejected by the destination policy, not retried
+  blocked?: boolean;
+  // Request could not be built from the delivery, not retried
+  invalid?: boolean;
+}
+
+/**
+ * A delivery with its attempts as recorded in the delivery log
+ */
+export interface WebhookDeliveryDetail {
+  deliveryId: string;
+  instanceId: string;
+  // 'failed' when the log shows a failed last attempt but the delivery is gone from the queue
+  state: 'pending' | 'in_flight' | 'delivered' | 'dead_letter' | 'failed';
+  nextRetryTime?: number;
+  attempts: WebhookDeliveryAttempt[];
+}
+
+/**
+ * Emitted as 'endpoint_gone' when a consumer answers 410 Gone
+ */
+export interface WebhookEndpointGone {
+  instanceId: string;
+  url: string;
+  subscriptionId?: string;
 }
 
 interface WebhookDeliveryStats {
@@ -28,45 +128,222 @@ interface WebhookDeliveryStats {
   lastFailureTime?: number;
 }
 
+export interface WebhookDestinationStats extends WebhookDeliveryStats {
+  url: string;
+  lastError?: string;
+  lastStatusCode?: number;
+  averageLatencyMs?: number;
+  circuit: WebhookCircuitStats;
+}
+
+export interface WebhookInstanceStats extends WebhookDeliveryStats {
+  instanceId: string;
+  inFlight: number;
+  lastError?: string;
+  averageLatencyMs?: number;
+  destinations: WebhookDestinationStats[];
+}
+
 /**
- * Manages webhook delivery with retry mechanism
+ * Worker pool load, to spot slow consumers backing up the queue
  */
-export class WebhookDispatcher {
+export interface WebhookBackpressureStats {
+  concurrency: number;
+  inFlight: number;
+  queued: number;
+  // Due now but waiting for a free worker
+  waitingForWorker: number;
+  // Waiting for an earlier delivery to the same destination and chat, a retry or an open circuit
+  blocked: number;
+  oldestQueuedAgeMs?: number;
+}
+
+export interface WebhookAggregateStats extends WebhookDeliveryStats {
+  backpressure: WebhookBackpressureStats;
+  // Times any circuit opened since start (webhook_circuit_open)
+  circuitOpens: number;
+  // Destinations that are open or half-open
+  circuits: WebhookCircuitStats[];
+  instances: WebhookInstanceStats[];
+}
+
+/**
+ * Running counters for one instance + destination URL
+ */
+interface DestinationCounters {
+  delivered: number;
+  failed: number;
+  lastDeliveryTime?: number;
+  lastFailureTime?: number;
+  lastError?: string;
+  lastStatusCode?: number;
+  totalLatencyMs: number;
+  latencySamples: number;
+}
+
+// Headers custom endpoint headers cannot override (case-insensitive)
+const RESERVED_HEADER_PATTERN = /^(content-type|user-agent|x-miaw-.*|ce-.*)$/i;
+// Endpoint credentials replace a custom Authorization header
+const AUTHORIZATION_HEADER_PATTERN = /^authorization$/i;
+
+const DEFAULT_CONCURRENCY = 10;
+const DEFAULT_RETRY_MULTIPLIER = 3;
+const DEFAULT_RETRY_JITTER = 0.2;
+const DEFAULT_RETRY_MAX_DELAY_MS = 3600000; // 1 hour
+const DEFAULT_CIRCUIT_THRESHOLD = 5;
+const DEFAULT_CIRCUIT_COOLDOWN_MS = 60000;
+// Only the start of a consumer's response is read for the delivery log
+const MAX_RESPONSE_BODY_BYTES = 1024;
+
+/**
+ * Manages webhook delivery with retry mechanism.
+ * Deliveries run on a bounded worker pool; deliveries sharing a destination URL
+ * and chat are sent one at a time in queue order, and free workers are handed
+ * out round-robin across instances so one busy instance cannot starve the rest.
+ * A per-URL circuit breaker holds deliveries to consumers that keep failing.
+ * Endpoints with batch settings get their events collected into one array
+ * delivery that is retried and dead-lettered as a whole.
+ */
+export class WebhookDispatcher extends EventEmitter {
   private options: WebhookDispatcherOptions;
   private logger: pino.Logger;
   private deliveryQueue: Map<string, WebhookDelivery>;
+  private store: WebhookQueueStore;
+  private deadLetters: WebhookDeadLetterStore;
+  private deliveryLog: WebhookDeliveryLog;
   private processingInterval?: NodeJS.Timeout;
+  private inFlight: Map<string, WebhookDelivery> = new Map();
+  private batches: Map<string, PendingBatch> = new Map();
+  private circuitBreaker: WebhookCircuitBreaker;
+  private circuitOpens = 0;
+  private disposed = false;
+  // mTLS agents keyed by a hash of the endpoint's TLS settings
+  private tlsAgents: Map<string, Agent> = new Map();
   // Stats tracking
   private stats: WebhookDeliveryStats = {
     queued: 0,
     delivered: 0,
     failed: 0,
   };
+  // Per instance, per destination URL counters
+  private destinationStats: Map<string, Map<string, DestinationCounters>> = new Map();
 
   constructor(options: WebhookDispatcherOptions) {
+    super();
     this.options = options;
     this.logger = pino({ level: 'info' });
     this.deliveryQueue = new Map();
+    this.store = options.store || new MemoryWebhookQueueStore();
+    this.deadLetters = options.deadLetters || new WebhookDeadLetterStore();
+    this.deliveryLog = options.deliveryLog || new WebhookDeliveryLog();
+    this.circuitBreaker = new WebhookCircuitBreaker({
+      threshold: options.circuitThreshold ?? DEFAULT_CIRCUIT_THRESHOLD,
+      cooldownMs: options.circuitCooldown ?? DEFAULT_CIRCUIT_COOLDOWN_MS,
+    });
+    this.restoreQueue();
     this.startProcessing();
   }
 
   /**
-   * Queue webhook for delivery
+   * Reload deliveries that were pending when the process stopped
+   */
+  private restoreQueue(): void {
+    const entries = this.store.load();
+
+    for (const { id, ...delivery } of entries) {
+      this.deliveryQueue.set(id, delivery);
+    }
+
+    if (entries.length > 0) {
+      this.logger.info({ count: entries.length }, 'Restored pending webhook deliveries');
+    }
+  }
+
+  /**
+   * Queue webhook for delivery, returns the delivery ID
    */
-  async queue(url: string, payload: any): Promise<void> {
-    const deliveryId = this.generateDeliveryId(payload);
+  async queue(url: string, payload: any, options: WebhookDeliveryOptions = {}): Promise<string> {
+    if (options.batch && options.batch.maxSize > 1) {
+      return this.addToBatch(url, payload, options);
+    }
 
-    this.deliveryQueue.set(deliveryId, {
+    const deliveryId = this.generateDeliveryId();
+    const delivery: WebhookDelivery = {
       url,
       payload,
       attempt: 0,
-    });
+      queuedAt: Date.now(),
+      ...options,
+    };
+
+    this.deliveryQueue.set(deliveryId, delivery);
+    this.store.save({ id: deliveryId, ...delivery });
 
     this.stats.queued++;
     this.logger.debug(
       { deliveryId, url, event: payload.event },
       'Webhook queued'
     );
+
+    return deliveryId;
+  }
+
+  /**
+   * Collect an event for a batched endpoint, returns the ID the batch will be delivered under
+   */
+  private addToBatch(url: string, payload: any, options: WebhookDeliveryOptions): string {
+    const { maxSize, maxWaitMs } = options.batch!;
+    const key = `${url}|${options.subscriptionId || ''}|${this.getInstanceId(payload)}`;
+
+    let batch = this.batches.get(key);
+    if (!batch) {
+      const { batch: _settings, ...deliveryOptions } = options;
+      batch = {
+        id: this.generateDeliveryId(),
+        url,
+        options: deliveryOptions,
+        items: [],
+        timer: setTimeout(() => this.flushBatch(key), maxWaitMs),
+      };
+      this.batches.set(key, batch);
+    }
+
+    batch.items.push(payload);
+    this.stats.queued++;
+    this.logger.debug(
+      { deliveryId: batch.id, url, event: payload.event, size: batch.items.length },
+      'Webhook added to batch'
+    );
+
+    const deliveryId = batch.id;
+    if (batch.items.length >= maxSize) {
+      this.flushBatch(key);
+    }
+
+    return deliveryId;
+  }
+
+  /**
+   * Queue a pending batch as a single delivery with an array payload
+   */
+  private flushBatch(key: string): void {
+    const batch = this.batches.get(key);
+    if (!batch) return;
+
+    clearTimeout(batch.timer);
+    this.batches.delete(key);
+
+    const delivery: WebhookDelivery = {
+      url: batch.url,
+      payload: batch.items,
+      attempt: 0,
+      queuedAt: Date.now(),
+      ...batch.options,
+    };
+
+    this.deliveryQueue.set(batch.id, delivery);
+    this.store.save({ id: batch.id, ...delivery });
+    this.logger.debug({ deliveryId: batch.id, url: batch.url, size: batch.items.length }, 'Webhook batch queued');
   }
 
   /**
@@ -79,36 +356,17 @@ export class WebhookDispatcher {
   }
 
   /**
-   * Process delivery queue
+   * Start as many ready deliveries as there are free workers
    */
-  private async processQueue(): Promise<void> {
+  private processQueue(): void {
     try {
-      const now = Date.now();
-
-      for (const [deliveryId, delivery] of this.deliveryQueue.entries()) {
-        // Check if it's time to retry
-        if (delivery.nextRetryTime && delivery.nextRetryTime > now) {
-          continue;
-        }
+      const free = this.getConcurrency() - this.inFlight.size;
+      if (free <= 0) {
+        return;
+      }
 
-        // Attempt delivery
-        const success = await this.deliver(delivery);
-
-        if (success) {
-          this.deliveryQueue.delete(deliveryId);
-        } else if (delivery.attempt >= this.options.maxRetries) {
-          // Max retries reached, give up
-          this.logger.warn(
-            { deliveryId, attempt: delivery.attempt },
-            'Webhook delivery failed, max retries reached'
-          );
-          this.deliveryQueue.delete(deliveryId);
-        } else {
-          // Schedule retry
-          const retryDelay = this.calculateRetryDelay(delivery.attempt);
-          delivery.nextRetryTime = Date.now() + retryDelay;
-          this.deliveryQueue.set(deliveryId, delivery);
-        }
+      for (const [deliveryId, delivery] of this.collectReady(Date.now()).slice(0, free)) {
+        this.startDelivery(deliveryId, delivery);
       }
     } catch (err) {
       // Log error but don't crash the processing loop
@@ -119,97 +377,683 @@ export class WebhookDispatcher {
     }
   }
 
+  /**
+   * Deliveries that may start now, interleaved round-robin across instances.
+   * Only the oldest pending delivery of each ordering key is eligible, and
+   * a tripped circuit lets a single probe through to its URL.
+   */
+  private collectReady(now: number): [string, WebhookDelivery][] {
+    const inFlight = Array.from(this.inFlight.values());
+    const busyKeys = new Set(inFlight.map((delivery) => this.getOrderingKey(delivery)));
+    const probingUrls = new Set(inFlight.map((delivery) => delivery.url));
+    const byInstance = new Map<string, [string, WebhookDelivery][]>();
+
+    for (const [deliveryId, delivery] of this.deliveryQueue.entries()) {
+      if (this.inFlight.has(deliveryId)) {
+        continue;
+      }
+
+      const key = this.getOrderingKey(delivery);
+      if (busyKeys.has(key)) {
+        continue;
+      }
+      // Later deliveries with the same key wait behind this one
+      busyKeys.add(key);
+
+      if (delivery.nextRetryTime && delivery.nextRetryTime > now) {
+        continue;
+      }
+
+      if (this.circuitBreaker.isTripped(delivery.url)) {
+        if (!this.circuitBreaker.allows(delivery.url, now, probingUrls.has(delivery.url))) {
+          continue;
+        }
+        probingUrls.add(delivery.url);
+      }
+
+      const instanceId = this.getInstanceId(delivery.payload);
+      let ready = byInstance.get(instanceId);
+      if (!ready) {
+        ready = [];
+        byInstance.set(instanceId, ready);
+      }
+      ready.push([deliveryId, delivery]);
+    }
+
+    const lists = Array.from(byInstance.values());
+    const longest = Math.max(0, ...lists.map((list) => list.length));
+    const result: [string, WebhookDelivery][] = [];
+    for (let i = 0; i < longest; i++) {
+      for (const list of lists) {
+        if (i < list.length) {
+          result.push(list[i]);
+        }
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Run one delivery attempt on a worker and refill the pool when it finishes
+   */
+  private startDelivery(deliveryId: string, delivery: WebhookDelivery): void {
+    this.inFlight.set(deliveryId, delivery);
+    this.circuitBreaker.onAttempt(delivery.url);
+
+    this.deliver(deliveryId, delivery)
+      .catch((err): AttemptResult => {
+        // Still an attempt: rescheduled or dead-lettered, never picked up again at once
+        const message = err instanceof Error ? err.message : 'Unknown error';
+        this.logger.error({ deliveryId, error: message }, 'Webhook delivery attempt failed unexpectedly');
+        delivery.lastStatusCode = undefined;
+        delivery.lastError = message;
+        return { success: false };
+      })
+      .then((result) => this.completeDelivery(deliveryId, delivery, result))
+      .catch((err) => {
+        this.logger.error(
+          { deliveryId, error: err instanceof Error ? err.message : 'Unknown error' },
+          'Error in webhook processing queue'
+        );
+      })
+      .finally(() => {
+        this.inFlight.delete(deliveryId);
+        if (!this.disposed) {
+          this.processQueue();
+        }
+      });
+  }
+
+  /**
+   * Remove, dead-letter or reschedule a delivery after an attempt
+   */
+  private completeDelivery(deliveryId: string, delivery: WebhookDelivery, result: AttemptResult): void {
+    this.recordCircuitResult(delivery.url, result);
+
+    // Dropped while in flight (dispose)
+    if (this.deliveryQueue.get(deliveryId) !== delivery) {
+      return;
+    }
+
+    const policy = this.getRetryPolicy(delivery);
+
+    if (result.success) {
+      this.deliveryQueue.delete(deliveryId);
+      this.store.remove(deliveryId);
+    } else if (result.statusCode === 410) {
+      // Consumer says the endpoint is gone for good
+      this.logger.warn({ deliveryId, url: delivery.url }, 'Webhook endpoint gone, disabling');
+      this.deadLetter(deliveryId, delivery);
+      const gone: WebhookEndpointGone = {
+        instanceId: this.getInstanceId(delivery.payload),
+        url: delivery.url,
+        subscriptionId: delivery.subscriptionId,
+      };
+      this.emit('endpoint_gone', gone);
+    } else if (result.blocked) {
+      this.logger.warn(
+        { deliveryId, url: delivery.url, error: delivery.lastError },
+        'Webhook destination blocked by policy, not retrying'
+      );
+      this.deadLetter(deliveryId, delivery);
+    } else if (result.invalid) {
+      this.logger.warn(
+        { deliveryId, url: delivery.url, error: delivery.lastError },
+        'Webhook request could not be built, not retrying'
+      );
+      this.deadLetter(deliveryId, delivery);
+    } else if (!this.isRetryable(result.statusCode)) {
+      this.logger.warn(
+        { deliveryId, status: result.statusCode },
+        'Webhook delivery rejected by consumer, not retrying'
+      );
+      this.deadLetter(deliveryId, delivery);
+    } else if (delivery.attempt >= policy.maxAttempts) {
+      // Max retries reached, move to dead letters
+      this.logger.warn(
+        { deliveryId, attempt: delivery.attempt },
+        'Webhook delivery failed, max retries reached'
+      );
+      this.deadLetter(deliveryId, delivery);
+    } else {
+      // Schedule retry, a consumer's Retry-After cannot hold a delivery longer than the max delay
+      const retryDelay =
+        result.retryAfterMs !== undefined
+          ? Math.min(result.retryAfterMs, policy.maxDelayMs)
+          : this.calculateRetryDelay(delivery.attempt, policy);
+      delivery.nextRetryTime = Date.now() + retryDelay;
+      this.store.save({ id: deliveryId, ...delivery });
+    }
+  }
+
+  /**
+   * Feed an attempt into the URL's circuit breaker.
+   * Only retryable failures count; a 4xx answer shows the consumer is up.
+   */
+  private recordCircuitResult(url: string, result: AttemptResult): void {
+    // Nothing was sent, says nothing about the consumer
+    if (result.blocked || result.invalid) {
+      return;
+    }
+
+    if (result.success || !this.isRetryable(result.statusCode)) {
+      if (this.circuitBreaker.recordSuccess(url)) {
+        this.logger.info({ metric: 'webhook_circuit_closed', url }, 'webhook_circuit_closed');
+        this.emit('circuit_closed', url);
+      }
+      return;
+    }
+
+    if (this.circuitBreaker.recordFailure(url, Date.now())) {
+      this.circuitOpens++;
+      const circuit = this.circuitBreaker.getState(url);
+      this.logger.warn(
+        {
+          metric: 'webhook_circuit_open',
+          url,
+          consecutiveFailures: circuit.consecutiveFailures,
+          nextProbeAt: circuit.nextProbeAt,
+        },
+        'webhook_circuit_open'
+      );
+      this.emit('circuit_open', circuit);
+    }
+  }
+
+  /**
+   * Deliveries to the same URL for the same instance and chat keep their order
+   */
+  private getOrderingKey(delivery: WebhookDelivery): string {
+    const chat = getChatJid(delivery.payload?.data) || '';
+    return `${delivery.url}|${this.getInstanceId(delivery.payload)}|${chat}`;
+  }
+
+  private getConcurrency(): number {
+    return this.options.concurrency || DEFAULT_CONCURRENCY;
+  }
+
   /**
    * Deliver webhook to URL
    */
-  private async deliver(delivery: WebhookDelivery): Promise<boolean> {
+  private async deliver(deliveryId: string, delivery: WebhookDelivery): Promise<AttemptResult> {
     delivery.attempt++;
 
     this.logger.debug(
       {
-        deliveryId: this.generateDeliveryId(delivery.payload),
+        deliveryId,
         attempt: delivery.attempt,
         url: delivery.url,
       },
       'Delivering webhook'
     );
 
+    const startedAt = Date.now();
+    const timestamp = Date.now();
+    let body = '';
+    let headers: Record<string, string> = {};
+    let credentials: WebhookDeliveryCredentials;
+    let response: Response | undefined;
+    let result: AttemptResult;
+
+    try {
+      credentials = this.resolveCredentials(delivery);
+      ({ body, headers } = this.buildRequest(deliveryId, delivery, credentials, timestamp));
+    } catch (err) {
+      // Payloads that cannot be serialised or signed, and endpoints that are gone, fail the same way on every attempt
+      const message = `Invalid request: ${err instanceof Error ? err.message : 'Unknown error'}`;
+      this.recordFailure(deliveryId, delivery, startedAt, message);
+      result = { success: false, invalid: true };
+      this.logAttempt(deliveryId, delivery, result, startedAt, headers, body);
+      return result;
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.options.timeout);
+    const policy = this.options.destinationPolicy;
+
     try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.options.timeout);
+      const dispatcher = credentials.tls ? this.getTlsAgent(credentials.tls) : policy?.getDispatcher();
 
-      const timestamp = Date.now();
-      const signature = this.generateSignature(delivery.payload, timestamp);
+      // Hosts and literal addresses here, resolved addresses in the dispatcher's DNS lookup
+      policy?.checkUrl(delivery.url);
 
-      const response = await fetch(delivery.url, {
+      response = await fetch(delivery.url, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-Miaw-Signature': signature,
-          'X-Miaw-Timestamp': timestamp.toString(),
-          'User-Agent': 'Miaw-Webhook/1.0',
-        },
-        body: JSON.stringify(delivery.payload),
+        headers,
+        body,
         signal: controller.signal,
-      });
-
-      clearTimeout(timeoutId);
+        // A redirect could lead past the destination policy, the consumer has to fix its URL
+        redirect: 'manual',
+        ...(dispatcher && { dispatcher }),
+      } as RequestInit);
 
       if (response.ok) {
         this.stats.delivered++;
         this.stats.lastDeliveryTime = timestamp;
+        this.recordAttempt(delivery, startedAt, true, response.status);
         this.logger.info(
           {
-            deliveryId: this.generateDeliveryId(delivery.payload),
+            deliveryId,
             attempt: delivery.attempt,
             status: response.status,
           },
           'Webhook delivered successfully'
         );
-        return true;
+        result = { success: true, statusCode: response.status };
+      } else {
+        this.stats.failed++;
+        this.stats.lastFailureTime = Date.now();
+        delivery.lastStatusCode = response.status;
+        delivery.lastError = this.isRedirect(response.status)
+          ? `HTTP ${response.status} (redirects are not followed)`
+          : `HTTP ${response.status}`;
+        this.recordAttempt(delivery, startedAt, false, response.status, delivery.lastError);
+        this.logger.warn(
+          {
+            deliveryId,
+            attempt: delivery.attempt,
+            status: response.status,
+          },
+          'Webhook delivery failed with non-OK status'
+        );
+        result = {
+          success: false,
+          statusCode: response.status,
+          retryAfterMs:
+            response.status === 429 || response.status === 503
+              ? this.parseRetryAfter(response.headers?.get('retry-after'))
+              : undefined,
+        };
       }
-
-      this.logger.warn(
-        {
-          deliveryId: this.generateDeliveryId(delivery.payload),
-          attempt: delivery.attempt,
-          status: response.status,
-        },
-        'Webhook delivery failed with non-OK status'
-      );
-      return false;
     } catch (err: any) {
-      this.stats.failed++;
-      this.stats.lastFailureTime = Date.now();
-      this.logger.warn(
-        {
-          deliveryId: this.generateDeliveryId(delivery.payload),
-          attempt: delivery.attempt,
-          error: err.message,
+      // fetch wraps errors of the DNS lookup in "fetch failed"
+      const policyError: Error | undefined =
+        err instanceof DestinationPolicyError
+          ? err
+          : err?.cause?.code === 'DESTINATION_BLOCKED'
+            ? err.cause
+            : undefined;
+      const message = policyError ? `Destination blocked: ${policyError.message}` : err?.message;
+
+      this.recordFailure(deliveryId, delivery, startedAt, message);
+      result = { success: false, blocked: !!policyError };
+    }
+
+    const logEntry = this.logAttempt(deliveryId, delivery, result, startedAt, headers, body);
+
+    // Response body is only kept for the delivery log (still under the timeout)
+    if (response) {
+      const responseBody = await this.readResponseBody(response);
+      if (responseBody !== undefined) {
+        this.deliveryLog.setResponseBody(logEntry, responseBody);
+      }
+    }
+    clearTimeout(timeoutId);
+
+    return result;
+  }
+
+  /**
+   * Current credentials of the delivery's endpoint
+   */
+  private resolveCredentials(delivery: WebhookDelivery): WebhookDeliveryCredentials {
+    if (!this.options.resolveCredentials) {
+      return {};
+    }
+
+    const credentials = this.options.resolveCredentials(
+      this.getInstanceId(delivery.payload),
+      delivery.subscriptionId
+    );
+    if (!credentials) {
+      throw new Error(delivery.subscriptionId ? 'Webhook subscription no longer exists' : 'Instance no longer exists');
+    }
+    return credentials;
+  }
+
+  /**
+   * Signed request body and headers of an attempt in the endpoint's format
+   */
+  private buildRequest(
+    deliveryId: string,
+    delivery: WebhookDelivery,
+    credentials: WebhookDeliveryCredentials,
+    timestamp: number
+  ): { body: string; headers: Record<string, string> } {
+    // Stats, ordering and dead letters keep working on the original WebhookPayload
+    const { requestPayload, formatHeaders } = this.formatRequest(delivery);
+    const body = JSON.stringify(requestPayload);
+    const headers: Record<string, string> = {
+      ...this.customHeaders(credentials.headers, !!credentials.auth),
+      ...(credentials.auth && { Authorization: this.authorizationHeader(credentials.auth) }),
+      ...formatHeaders,
+      'X-Miaw-Signature': this.signatureHeader(requestPayload, timestamp, credentials),
+      'X-Miaw-Timestamp': timestamp.toString(),
+      'X-Miaw-Delivery-Id': deliveryId,
+      'X-Miaw-Attempt': delivery.attempt.toString(),
+      'User-Agent': 'Miaw-Webhook/1.0',
+    };
+    if (Array.isArray(delivery.payload)) {
+      headers['X-Miaw-Batch-Size'] = delivery.payload.length.toString();
+    }
+
+    return { body, headers };
+  }
+
+  /**
+   * Count and log an attempt that got no HTTP response
+   */
+  private recordFailure(deliveryId: string, delivery: WebhookDelivery, startedAt: number, message: string): void {
+    this.stats.failed++;
+    this.stats.lastFailureTime = Date.now();
+    delivery.lastStatusCode = undefined;
+    delivery.lastError = message;
+    this.recordAttempt(delivery, startedAt, false, undefined, message);
+    this.logger.warn(
+      {
+        deliveryId,
+        attempt: delivery.attempt,
+        error: message,
+      },
+      'Webhook delivery failed'
+    );
+  }
+
+  /**
+   * Add an attempt to the delivery log
+   */
+  private logAttempt(
+    deliveryId: string,
+    delivery: WebhookDelivery,
+    result: AttemptResult,
+    startedAt: number,
+    headers: Record<string, string>,
+    body: string
+  ): WebhookDeliveryAttempt {
+    return this.deliveryLog.add({
+      deliveryId,
+      instanceId: this.getInstanceId(delivery.payload),
+      event: this.getEvent(delivery.payload),
+      url: delivery.url,
+      subscriptionId: delivery.subscriptionId,
+      attempt: delivery.attempt,
+      status: result.success ? 'success' : 'failed',
+      statusCode: result.statusCode,
+      latencyMs: Date.now() - startedAt,
+      error: result.success ? undefined : delivery.lastError,
+      requestHeaders: redactHeaders(headers),
+      requestBody: body,
+      startedAt,
+    });
+  }
+
+  /**
+   * Read the start of a consumer's response body, undefined when it cannot be read.
+   * The rest of the stream is cancelled, a consumer cannot make the server buffer more.
+   */
+  private async readResponseBody(response: Response): Promise<string | undefined> {
+    const reader = response.body?.getReader();
+    if (!reader) {
+      return undefined;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    try {
+      while (size <= MAX_RESPONSE_BODY_BYTES) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        chunks.push(Buffer.from(value));
+        size += value.byteLength;
+      }
+    } catch {
+      return undefined;
+    } finally {
+      reader.cancel().catch(() => {});
+    }
+
+    const text = Buffer.concat(chunks).subarray(0, MAX_RESPONSE_BODY_BYTES).toString('utf8');
+    return size > MAX_RESPONSE_BODY_BYTES ? `${text}... [truncated]` : text;
+  }
+
+  /**
+   * Move a delivery from the queue to the dead-letter store
+   */
+  private deadLetter(deliveryId: string, delivery: WebhookDelivery): void {
+    this.deliveryQueue.delete(deliveryId);
+    this.store.remove(deliveryId);
+    this.deadLetters.add({
+      id: deliveryId,
+      instanceId: this.getInstanceId(delivery.payload),
+      event: this.getEvent(delivery.payload),
+      url: delivery.url,
+      payload: delivery.payload,
+      subscriptionId: delivery.subscriptionId,
+      retryPolicy: delivery.retryPolicy,
+      format: delivery.format,
+      template: delivery.template,
+      attempts: delivery.attempt,
+      lastStatusCode: delivery.lastStatusCode,
+      lastError: delivery.lastError,
+      failedAt: Date.now(),
+    });
+  }
+
+  /**
+   * Update per instance / per destination counters after an attempt
+   */
+  private recordAttempt(
+    delivery: WebhookDelivery,
+    startedAt: number,
+    success: boolean,
+    statusCode?: number,
+    error?: string
+  ): void {
+    const instanceId = this.getInstanceId(delivery.payload);
+    let destinations = this.destinationStats.get(instanceId);
+    if (!destinations) {
+      destinations = new Map();
+      this.destinationStats.set(instanceId, destinations);
+    }
+
+    let counters = destinations.get(delivery.url);
+    if (!counters) {
+      counters = { delivered: 0, failed: 0, totalLatencyMs: 0, latencySamples: 0 };
+      destinations.set(delivery.url, counters);
+    }
+
+    const now = Date.now();
+    counters.totalLatencyMs += now - startedAt;
+    counters.latencySamples++;
+    counters.lastStatusCode = statusCode;
+
+    if (success) {
+      counters.delivered++;
+      counters.lastDeliveryTime = now;
+    } else {
+      counters.failed++;
+      counters.lastFailureTime = now;
+      counters.lastError = error;
+    }
+  }
+
+  /**
+   * Endpoint headers without the ones set by the dispatcher itself
+   */
+  private customHeaders(headers?: Record<string, string>, hasAuth = false): Record<string, string> {
+    const result: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers || {})) {
+      if (!RESERVED_HEADER_PATTERN.test(name) && !(hasAuth && AUTHORIZATION_HEADER_PATTERN.test(name))) {
+        result[name] = value;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Request body and content headers in the endpoint's format. Templates reshape
+   * the body, or the CloudEvent data in CloudEvents formats. Batches are always
+   * sent structured, binary mode has no way to carry several events.
+   */
+  private formatRequest(delivery: WebhookDelivery): {
+    requestPayload: unknown;
+    formatHeaders: Record<string, string>;
+  } {
+    const render = (payload: WebhookPayload, data: unknown) =>
+      delivery.template ? renderWebhookTemplate(delivery.template, payload) : data;
+    const format = delivery.format || 'miaw';
+
+    if (Array.isArray(delivery.payload)) {
+      if (format === 'miaw') {
+        return {
+          requestPayload: delivery.payload.map((item) => render(item, item)),
+          formatHeaders: { 'Content-Type': 'application/json' },
+        };
+      }
+      return {
+        requestPayload: delivery.payload.map((item) => toCloudEvent(item, render(item, item.data))),
+        formatHeaders: { 'Content-Type': CLOUDEVENTS_BATCH_CONTENT_TYPE },
+      };
+    }
+
+    const payload = delivery.payload as WebhookPayload;
+    if (format === 'cloudevents_structured') {
+      return {
+        requestPayload: toCloudEvent(payload, render(payload, payload.data)),
+        formatHeaders: { 'Content-Type': CLOUDEVENTS_CONTENT_TYPE },
+      };
+    }
+    if (format === 'cloudevents_binary') {
+      const event = toCloudEvent(payload, render(payload, payload.data));
+      return {
+        requestPayload: event.data,
+        formatHeaders: { 'Content-Type': 'application/json', ...cloudEventHeaders(event) },
+      };
+    }
+    return { requestPayload: render(payload, payload), formatHeaders: { 'Content-Type': 'application/json' } };
+  }
+
+  /**
+   * Authorization header value for the endpoint's credentials
+   */
+  private authorizationHeader(auth: WebhookAuth): string {
+    if (auth.type === 'bearer') {
+      return `Bearer ${auth.token}`;
+    }
+    return `Basic ${Buffer.from(`${auth.username}:${auth.password}`).toString('base64')}`;
+  }
+
+  /**
+   * Agent presenting the endpoint's client certificate, shared by endpoints with the
+   * same TLS settings. Connections still go through the destination policy lookup.
+   */
+  private getTlsAgent(tls: WebhookTlsSettings): Agent {
+    const key = crypto.createHash('sha256').update(JSON.stringify(tls)).digest('hex');
+    let agent = this.tlsAgents.get(key);
+    if (!agent) {
+      const policy = this.options.destinationPolicy;
+      agent = new Agent({
+        connect: {
+          cert: tls.cert,
+          key: tls.key,
+          passphrase: tls.passphrase,
+          ca: tls.ca,
+          ...(policy && { lookup: policy.lookup }),
         },
-        'Webhook delivery failed'
-      );
-      return false;
+      });
+      this.tlsAgents.set(key, agent);
     }
+    return agent;
+  }
+
+  /**
+   * Server-wide retry policy merged with the endpoint's overrides
+   */
+  private getRetryPolicy(delivery: WebhookDelivery): WebhookRetryPolicy {
+    return {
+      baseDelayMs: this.options.retryDelay,
+      multiplier: this.options.retryMultiplier ?? DEFAULT_RETRY_MULTIPLIER,
+      jitter: this.options.retryJitter ?? DEFAULT_RETRY_JITTER,
+      maxDelayMs: this.options.retryMaxDelay ?? DEFAULT_RETRY_MAX_DELAY_MS,
+      maxAttempts: this.options.maxRetries,
+      ...delivery.retryPolicy,
+    };
   }
 
   /**
-   * Calculate retry delay with exponential backoff
+   * Calculate retry delay with exponential backoff and jitter
    */
-  private calculateRetryDelay(attempt: number): number {
-    const delays = [0, 60000, 300000, 900000, 3600000]; // 0, 1min, 5min, 15min, 1hour
-    return delays[Math.min(attempt, delays.length - 1)];
+  private calculateRetryDelay(attempt: number, policy: WebhookRetryPolicy): number {
+    const delay = Math.min(
+      policy.baseDelayMs * Math.pow(policy.multiplier, Math.max(attempt - 1, 0)),
+      policy.maxDelayMs
+    );
+    const spread = delay * policy.jitter * (Math.random() * 2 - 1);
+    return Math.max(0, Math.round(delay + spread));
+  }
+
+  /**
+   * Network errors, timeouts, 408, 429 and 5xx are worth retrying; redirects and other 4xx are not
+   */
+  private isRetryable(statusCode?: number): boolean {
+    if (statusCode === undefined) {
+      return true;
+    }
+    return statusCode < 300 || statusCode >= 500 || statusCode === 408 || statusCode === 429;
+  }
+
+  /**
+   * Redirects are not followed and not retried
+   */
+  private isRedirect(statusCode: number): boolean {
+    return statusCode >= 300 && statusCode < 400;
+  }
+
+  /**
+   * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+   */
+  private parseRetryAfter(value?: string | null): number | undefined {
+    if (!value) {
+      return undefined;
+    }
+
+    if (/^\d+$/.test(value.trim())) {
+      return parseInt(value, 10) * 1000;
+    }
+
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
+  /**
+   * X-Miaw-Signature value: one signature per active secret, the current secret first.
+   * During a rotation grace period the previous secret signs too, comma separated.
+   */
+  private signatureHeader(payload: any, timestamp: number, credentials: WebhookDeliveryCredentials): string {
+    const signatures = [this.generateSignature(payload, timestamp, credentials.secret)];
+    const previous = credentials.previousSecret;
+
+    if (
+      previous &&
+      Date.parse(previous.expiresAt) > Date.now() &&
+      previous.secret !== (credentials.secret || this.options.secret)
+    ) {
+      signatures.push(this.generateSignature(payload, timestamp, previous.secret));
+    }
+
+    return signatures.join(', ');
   }
 
   /**
    * Generate webhook signature with timestamp
    * Format: sha256=<hex_signature>
    */
-  private generateSignature(payload: any, timestamp: number): string {
+  private generateSignature(payload: any, timestamp: number, secret?: string): string {
     const payloadString = JSON.stringify(payload);
     const payloadWithTimestamp = `${timestamp}.${payloadString}`;
     const signature = crypto
-      .createHmac('sha256', this.options.secret)
+      .createHmac('sha256', secret || this.options.secret)
       .update(payloadWithTimestamp)
       .digest('hex');
     return `sha256=${signature}`;
@@ -217,13 +1061,14 @@ export class WebhookDispatcher {
 
   /**
    * Verify webhook signature (for webhook consumers)
-   * Uses timing-safe comparison to prevent timing attacks
+   * Accepts a header with several signatures and one or more secrets, so either side
+   * of a secret rotation verifies. Uses timing-safe comparison to prevent timing attacks
    */
   static verifySignature(
     payload: any,
     signature: string,
     timestamp: number,
-    secret: string,
+    secret: string | string[],
     maxAge: number = 300000 // 5 minutes default
   ): boolean {
     // Check timestamp age (replay prevention)
@@ -232,35 +1077,143 @@ export class WebhookDispatcher {
       return false;
     }
 
-    // Extract signature from format: sha256=<hex>
-    const match = signature.match(/^sha256=(.+)$/);
-    if (!match) {
+    // Extract signatures from format: sha256=<hex>[, sha256=<hex>]
+    const providedSignatures = signature
+      .split(',')
+      .map((part) => part.trim().match(/^sha256=(.+)$/)?.[1])
+      .filter((value): value is string => !!value);
+    if (providedSignatures.length === 0) {
       return false;
     }
 
-    const expectedSignature = match[1];
     const payloadString = JSON.stringify(payload);
     const payloadWithTimestamp = `${timestamp}.${payloadString}`;
-    const computedSignature = crypto
-      .createHmac('sha256', secret)
-      .update(payloadWithTimestamp)
-      .digest('hex');
+    const secrets = Array.isArray(secret) ? secret : [secret];
+
+    return secrets.some((candidate) => {
+      const computedSignature = crypto
+        .createHmac('sha256', candidate)
+        .update(payloadWithTimestamp)
+        .digest('hex');
+
+      // Use timing-safe comparison to prevent timing attacks
+      return providedSignatures.some(
+        (expectedSignature) =>
+          expectedSignature.length === computedSignature.length &&
+          crypto.timingSafeEqual(Buffer.from(expectedSignature), Buffer.from(computedSignature))
+      );
+    });
+  }
+
+  /**
+   * Generate unique delivery ID (stable across retries of the delivery)
+   */
+  private generateDeliveryId(): string {
+    return crypto.randomUUID();
+  }
+
+  /**
+   * List delivery attempts of an instance, newest first
+   */
+  listDeliveryAttempts(filter: WebhookDeliveryAttemptFilter): WebhookDeliveryAttempt[] {
+    return this.deliveryLog.list(filter);
+  }
+
+  /**
+   * Get one delivery with all its recorded attempts, null when nothing is known about it
+   */
+  getDelivery(instanceId: string, deliveryId: string): WebhookDeliveryDetail | null {
+    const attempts = this.deliveryLog.getDelivery(instanceId, deliveryId);
+    const queued = this.deliveryQueue.get(deliveryId);
+    const pending = queued && this.getInstanceId(queued.payload) === instanceId ? queued : undefined;
+    const deadLetter = this.deadLetters.get(instanceId, deliveryId);
+
+    if (attempts.length === 0 && !pending && !deadLetter) {
+      return null;
+    }
+
+    let state: WebhookDeliveryDetail['state'];
+    if (pending) {
+      state = this.inFlight.has(deliveryId) ? 'in_flight' : 'pending';
+    } else if (deadLetter) {
+      state = 'dead_letter';
+    } else {
+      state = attempts[attempts.length - 1].status === 'success' ? 'delivered' : 'failed';
+    }
+
+    return {
+      deliveryId,
+      instanceId,
+      state,
+      nextRetryTime: pending?.nextRetryTime,
+      attempts,
+    };
+  }
 
-    // Use timing-safe comparison to prevent timing attacks
-    if (expectedSignature.length !== computedSignature.length) {
+  /**
+   * List dead letters of an instance, newest first
+   */
+  listDeadLetters(filter: DeadLetterFilter): DeadLetter[] {
+    return this.deadLetters.list(filter);
+  }
+
+  /**
+   * Get a single dead letter
+   */
+  getDeadLetter(instanceId: string, deliveryId: string): DeadLetter | null {
+    return this.deadLetters.get(instanceId, deliveryId);
+  }
+
+  /**
+   * Queue a dead letter for delivery again with a fresh retry budget
+   */
+  replayDeadLetter(instanceId: string, deliveryId: string): boolean {
+    const entry = this.deadLetters.remove(instanceId, deliveryId);
+    if (!entry) {
       return false;
     }
-    return crypto.timingSafeEqual(
-      Buffer.from(expectedSignature),
-      Buffer.from(computedSignature)
-    );
+
+    this.requeue(entry);
+    return true;
   }
 
   /**
-   * Generate unique delivery ID
+   * Replay all dead letters matching a filter, returns how many were queued
    */
-  private generateDeliveryId(payload: any): string {
-    return `${payload.event}-${payload.instanceId}-${payload.timestamp}`;
+  replayDeadLetters(filter: DeadLetterFilter): number {
+    const entries = this.deadLetters.removeAll(filter);
+    // Oldest first so consumers see them in original order
+    for (const entry of entries.reverse()) {
+      this.requeue(entry);
+    }
+    return entries.length;
+  }
+
+  /**
+   * Delete dead letters matching a filter, returns how many were removed
+   */
+  purgeDeadLetters(filter: DeadLetterFilter): number {
+    return this.deadLetters.removeAll(filter).length;
+  }
+
+  /**
+   * Put a dead letter back on the delivery queue under its original ID
+   */
+  private requeue(entry: DeadLetter): void {
+    const delivery: WebhookDelivery = {
+      url: entry.url,
+      payload: entry.payload,
+      subscriptionId: entry.subscriptionId,
+      retryPolicy: entry.retryPolicy,
+      format: entry.format,
+      template: entry.template,
+      attempt: 0,
+      queuedAt: Date.now(),
+    };
+
+    this.deliveryQueue.set(entry.id, delivery);
+    this.store.save({ id: entry.id, ...delivery });
+    this.logger.info({ deliveryId: entry.id, url: entry.url }, 'Dead letter replayed');
   }
 
   /**
@@ -280,6 +1233,120 @@ export class WebhookDispatcher {
     };
   }
 
+  /**
+   * Get delivery stats for one instance, broken down by destination URL
+   */
+  getInstanceStats(instanceId: string): WebhookInstanceStats {
+    const queuedByUrl = new Map<string, number>();
+    let inFlight = 0;
+    for (const [deliveryId, delivery] of this.deliveryQueue.entries()) {
+      if (this.getInstanceId(delivery.payload) === instanceId) {
+        queuedByUrl.set(delivery.url, (queuedByUrl.get(delivery.url) || 0) + 1);
+        if (this.inFlight.has(deliveryId)) {
+          inFlight++;
+        }
+      }
+    }
+
+    const counters = this.destinationStats.get(instanceId) || new Map<string, DestinationCounters>();
+    const urls = new Set([...counters.keys(), ...queuedByUrl.keys()]);
+
+    const destinations: WebhookDestinationStats[] = Array.from(urls).map((url) => {
+      const c = counters.get(url);
+      return {
+        url,
+        queued: queuedByUrl.get(url) || 0,
+        delivered: c?.delivered || 0,
+        failed: c?.failed || 0,
+        lastDeliveryTime: c?.lastDeliveryTime,
+        lastFailureTime: c?.lastFailureTime,
+        lastError: c?.lastError,
+        lastStatusCode: c?.lastStatusCode,
+        averageLatencyMs: c?.latencySamples
+          ? Math.round(c.totalLatencyMs / c.latencySamples)
+          : undefined,
+        circuit: this.circuitBreaker.getState(url),
+      };
+    });
+
+    // Roll destinations up into instance totals
+    let totalLatencyMs = 0;
+    let latencySamples = 0;
+    let lastFailure: WebhookDestinationStats | undefined;
+    for (const c of counters.values()) {
+      totalLatencyMs += c.totalLatencyMs;
+      latencySamples += c.latencySamples;
+    }
+    for (const destination of destinations) {
+      if (
+        destination.lastFailureTime &&
+        (!lastFailure || destination.lastFailureTime > lastFailure.lastFailureTime!)
+      ) {
+        lastFailure = destination;
+      }
+    }
+
+    const maxOf = (values: (number | undefined)[]) => {
+      const defined = values.filter((v): v is number => v !== undefined);
+      return defined.length > 0 ? Math.max(...defined) : undefined;
+    };
+
+    return {
+      instanceId,
+      inFlight,
+      queued: destinations.reduce((sum, d) => sum + d.queued, 0),
+      delivered: destinations.reduce((sum, d) => sum + d.delivered, 0),
+      failed: destinations.reduce((sum, d) => sum + d.failed, 0),
+      lastDeliveryTime: maxOf(destinations.map((d) => d.lastDeliveryTime)),
+      lastFailureTime: lastFailure?.lastFailureTime,
+      lastError: lastFailure?.lastError,
+      averageLatencyMs: latencySamples ? Math.round(totalLatencyMs / latencySamples) : undefined,
+      destinations,
+    };
+  }
+
+  /**
+   * Get server-wide stats with a per-instance breakdown
+   */
+  getAggregateStats(): WebhookAggregateStats {
+    const instanceIds = new Set(this.destinationStats.keys());
+    for (const delivery of this.deliveryQueue.values()) {
+      instanceIds.add(this.getInstanceId(delivery.payload));
+    }
+
+    return {
+      ...this.getStats(),
+      backpressure: this.getBackpressure(),
+      circuitOpens: this.circuitOpens,
+      circuits: this.circuitBreaker.listTripped(),
+      instances: Array.from(instanceIds).map((instanceId) => this.getInstanceStats(instanceId)),
+    };
+  }
+
+  /**
+   * Get worker pool load
+   */
+  getBackpressure(): WebhookBackpressureStats {
+    const now = Date.now();
+    const waitingForWorker = this.collectReady(now).length;
+
+    let oldestQueuedAt: number | undefined;
+    for (const delivery of this.deliveryQueue.values()) {
+      if (delivery.queuedAt && (oldestQueuedAt === undefined || delivery.queuedAt < oldestQueuedAt)) {
+        oldestQueuedAt = delivery.queuedAt;
+      }
+    }
+
+    return {
+      concurrency: this.getConcurrency(),
+      inFlight: this.inFlight.size,
+      queued: this.deliveryQueue.size,
+      waitingForWorker,
+      blocked: this.deliveryQueue.size - this.inFlight.size - waitingForWorker,
+      oldestQueuedAgeMs: oldestQueuedAt !== undefined ? now - oldestQueuedAt : undefined,
+    };
+  }
+
   /**
    * Reset stats (for testing)
    */
@@ -289,15 +1356,43 @@ export class WebhookDispatcher {
       delivered: 0,
       failed: 0,
     };
+    this.destinationStats.clear();
+    this.circuitOpens = 0;
+  }
+
+  /**
+   * Instance ID a payload belongs to
+   */
+  private getInstanceId(payload: any): string {
+    const first = Array.isArray(payload) ? payload[0] : payload;
+    return first?.instanceId || 'unknown';
   }
 
   /**
-   * Cleanup
+   * Event name of a payload, 'batch' for batched deliveries
+   */
+  private getEvent(payload: any): string {
+    return Array.isArray(payload) ? 'batch' : payload?.event;
+  }
+
+  /**
+   * Cleanup (pending deliveries stay in the store for the next start)
    */
   dispose(): void {
+    this.disposed = true;
     if (this.processingInterval) {
       clearInterval(this.processingInterval);
     }
+    // Open batches are queued now so the store keeps them
+    for (const key of Array.from(this.batches.keys())) {
+      this.flushBatch(key);
+    }
+    for (const agent of this.tlsAgents.values()) {
+      agent.close().catch(() => {});
+    }
+    this.tlsAgents.clear();
+    this.store.close();
+    this.deadLetters.close();
     this.deliveryQueue.clear();
   }
 }
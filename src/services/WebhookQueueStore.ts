@@ -0,0 +1,181 @@
+/**
+ * Webhook Queue Store
+ * Persistence backends for pending webhook deliveries
+ */
+
+import fs from 'fs';
+import path from 'path';
+import pino from 'pino';
+import { WebhookDeliveryOptions } from '../types';
+
+/**
+ * Pending delivery as persisted by a queue store
+ */
+export interface QueuedWebhook extends WebhookDeliveryOptions {
+  id: string;
+  url: string;
+  payload: any;
+  attempt: number;
+  queuedAt?: number;
+  nextRetryTime?: number;
+}
+
+/**
+ * Storage backend used by WebhookDispatcher for its delivery queue.
+ * Operations are synchronous so a delivery is on disk before it is acknowledged.
+ */
+export interface WebhookQueueStore {
+  /** Read all pending deliveries (called once on dispatcher start) */
+  load(): QueuedWebhook[];
+  /** Insert or update a pending delivery */
+  save(entry: QueuedWebhook): void;
+  /** Remove a delivery that was delivered or given up on */
+  remove(id: string): void;
+  /** Release resources; pending deliveries stay persisted */
+  close(): void;
+}
+
+/**
+ * Non-durable store, pending deliveries are lost on restart
+ */
+export class MemoryWebhookQueueStore implements WebhookQueueStore {
+  private entries: Map<string, QueuedWebhook> = new Map();
+
+  load(): QueuedWebhook[] {
+    return Array.from(this.entries.values());
+  }
+
+  save(entry: QueuedWebhook): void {
+    this.entries.set(entry.id, { ...entry });
+  }
+
+  remove(id: string): void {
+    this.entries.delete(id);
+  }
+
+  close(): void {
+    // Nothing to release
+  }
+}
+
+interface FileWebhookQueueStoreOptions {
+  filePath: string;
+  // Rewrite the journal once it holds this many more records than live entries
+  compactThreshold?: number;
+}
+
+type JournalRecord = { op: 'put'; entry: QueuedWebhook } | { op: 'del'; id: string };
+
+const DEFAULT_COMPACT_THRESHOLD = 1000;
+
+/**
+ * Append-only JSONL journal of queue operations, compacted on load
+ * and whenever stale records pile up
+ */
+export class FileWebhookQueueStore implements WebhookQueueStore {
+  private options: Required<FileWebhookQueueStoreOptions>;
+  private logger: pino.Logger;
+  private entries: Map<string, QueuedWebhook> = new Map();
+  private fd?: number;
+  private journalRecords = 0;
+
+  constructor(options: FileWebhookQueueStoreOptions) {
+    this.options = {
+      compactThreshold: DEFAULT_COMPACT_THRESHOLD,
+      ...options,
+    };
+    this.logger = pino({ level: 'info' });
+  }
+
+  load(): QueuedWebhook[] {
+    this.entries.clear();
+
+    if (fs.existsSync(this.options.filePath)) {
+      const lines = fs.readFileSync(this.options.filePath, 'utf8').split('\n');
+
+      for (const line of lines) {
+        if (!line.trim()) continue;
+
+        try {
+          const record = JSON.parse(line) as JournalRecord;
+          if (record.op === 'put') {
+            this.entries.set(record.entry.id, record.entry);
+          } else if (record.op === 'del') {
+            this.entries.delete(record.id);
+          }
+        } catch {
+          // A torn last line after a crash is expected, skip it
+          this.logger.warn({ filePath: this.options.filePath }, 'Skipping unreadable webhook queue record');
+        }
+      }
+    }
+
+    this.compact();
+
+    return Array.from(this.entries.values());
+  }
+
+  save(entry: QueuedWebhook): void {
+    this.entries.set(entry.id, entry);
+    this.append({ op: 'put', entry });
+  }
+
+  remove(id: string): void {
+    if (this.entries.delete(id)) {
+      this.append({ op: 'del', id });
+    }
+  }
+
+  close(): void {
+    if (this.fd !== undefined) {
+      fs.closeSync(this.fd);
+      this.fd = undefined;
+    }
+  }
+
+  /**
+   * Append one record to the journal
+   */
+  private append(record: JournalRecord): void {
+    try {
+      fs.writeSync(this.open(), JSON.stringify(record) + '\n');
+      this.journalRecords++;
+
+      if (this.journalRecords - this.entries.size > this.options.compactThreshold) {
+        this.compact();
+      }
+    } catch (err) {
+      this.logger.error(
+        { filePath: this.options.filePath, error: err instanceof Error ? err.message : 'Unknown error' },
+        'Failed to write webhook queue journal'
+      );
+    }
+  }
+
+  /**
+   * Rewrite the journal with only live entries (temp file + rename)
+   */
+  private compact(): void {
+    const tmpPath = `${this.options.filePath}.tmp`;
+    const content = Array.from(this.entries.values())
+      .map((entry) => JSON.stringify({ op: 'put', entry }) + '\n')
+      .join('');
+
+    this.close();
+    fs.mkdirSync(path.dirname(this.options.filePath), { recursive: true });
+    fs.writeFileSync(tmpPath, content);
+    fs.renameSync(tmpPath, this.options.filePath);
+    this.journalRecords = this.entries.size;
+  }
+
+  /**
+   * Lazily open the journal for appending
+   */
+  private open(): number {
+    if (this.fd === undefined) {
+      fs.mkdirSync(path.dirname(this.options.filePath), { recursive: true });
+      this.fd = fs.openSync(this.options.filePath, 'a');
+    }
+    return this.fd;
+  }
+}
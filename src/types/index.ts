@@ -18,18 +18,91 @@ export interface InstanceConfig {
   webhookUrl?: string;
   webhookEvents?: WebhookEvent[];
   webhookEnabled?: boolean;
+  // Signing secret of the instance webhook, the server-wide webhook secret is used when unset
+  webhookSecret?: string;
 }
 
+export interface InstanceUpdate {
+  webhookUrl?: string | null;
+  webhookEvents?: WebhookEvent[];
+  webhookEnabled?: boolean;
+  webhookSecret?: string | null;
+}
+
+/**
+ * Login flow used to authenticate an instance
+ */
+export type LoginMethod = 'qr' | 'pairing_code';
+
 export interface InstanceState {
   instanceId: string;
   status: ConnectionState;
   webhookUrl?: string;
   webhookEvents: WebhookEvent[];
   webhookEnabled: boolean;
+  hasWebhookSecret: boolean;
   createdAt: Date;
   lastActivity: Date;
   connectedAt?: Date;
   phoneNumber?: string;
+  pendingLogin?: LoginMethod;
+  pairingCode?: string;
+  pairingPhoneNumber?: string;
+}
+
+/**
+ * Latest QR code received for an instance
+ */
+export interface QrCodeInfo {
+  qr: string;
+  receivedAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * Why a wait-for-state request finished
+ */
+export type WaitForStateReason = 'state_reached' | 'qr' | 'error' | 'deleted' | 'timeout' | 'aborted';
+
+export interface WaitForStateResult {
+  instanceId: string;
+  state: ConnectionState;
+  reason: WaitForStateReason;
+  waitedMs: number;
+  qr?: string;
+  error?: string;
+}
+
+/**
+ * Internal lifecycle notifications used to wake up waiters
+ */
+export type InstanceLifecycleEvent =
+  | { type: 'state'; state: ConnectionState }
+  | { type: 'qr'; qr: string }
+  | { type: 'error'; error: string }
+  | { type: 'deleted' };
+
+/**
+ * Connection state the instance should be restored to on server boot
+ */
+export type DesiredState = 'connected' | 'disconnected';
+
+/**
+ * Persisted instance entry in the instance registry
+ */
+export interface InstanceRecord {
+  instanceId: string;
+  webhookUrl?: string;
+  webhookEvents: WebhookEvent[];
+  webhookEnabled: boolean;
+  webhookSecret?: string;
+  webhookPreviousSecret?: WebhookPreviousSecret;
+  desiredState: DesiredState;
+  // Absent in registry files written before webhook subscriptions existed
+  webhooks?: WebhookSubscription[];
+  sinks?: EventSink[];
+  createdAt: string;
+  updatedAt: string;
 }
 
 // ============================================================================
@@ -38,24 +111,254 @@ export interface InstanceState {
 
 export type WebhookEvent =
   | 'qr'
+  | 'pairing_code'
   | 'ready'
   | 'message'
   | 'message_edit'
   | 'message_delete'
   | 'message_reaction'
+  | 'message_status'
   | 'presence'
+  | 'group_participants_update'
+  | 'group_update'
+  | 'group_join_request'
   | 'connection'
   | 'disconnected'
   | 'reconnecting'
   | 'error';
 
 export interface WebhookPayload {
+  // Unique event ID, unchanged across delivery retries
+  id: string;
   event: WebhookEvent;
   instanceId: string;
   timestamp: number;
   data: any;
 }
 
+/**
+ * Retry schedule for failed webhook deliveries.
+ * Delay before retry n is baseDelayMs * multiplier^(n-1), capped at maxDelayMs,
+ * then spread by +/- jitter (fraction of the delay).
+ */
+export interface WebhookRetryPolicy {
+  baseDelayMs: number;
+  multiplier: number;
+  jitter: number;
+  maxDelayMs: number;
+  // Total attempts including the first one
+  maxAttempts: number;
+}
+
+/**
+ * Additional webhook endpoint of an instance with its own event filter
+ */
+/**
+ * Secret that keeps signing next to the new one until a rotation's grace period ends
+ */
+export interface WebhookPreviousSecret {
+  secret: string;
+  expiresAt: string;
+}
+
+export interface WebhookSecretRotationInput {
+  // Generated when omitted
+  secret?: string;
+  gracePeriodMs?: number;
+}
+
+export interface WebhookSecretRotation {
+  // Only returned here, the API never shows secrets otherwise
+  secret: string;
+  previousSecretExpiresAt: string;
+}
+
+/**
+ * Opt-in batching of a webhook endpoint: events are sent as one JSON array
+ * once maxSize events are waiting or maxWaitMs after the first one
+ */
+export interface WebhookBatchSettings {
+  maxSize: number;
+  maxWaitMs: number;
+}
+
+export type WebhookFilterOperator = 'eq' | 'ne' | 'in' | 'nin' | 'exists' | 'contains';
+
+export interface WebhookFilterCondition {
+  // Dot path into the payload (e.g. "data.fromMe"), or "chat.labels" for the label IDs of the event's chat
+  field: string;
+  op: WebhookFilterOperator;
+  value?: unknown;
+}
+
+/**
+ * Payload filter of a webhook subscription, checked after the event list
+ */
+export interface WebhookFilter {
+  // Every condition must match
+  all?: WebhookFilterCondition[];
+  // At least one condition must match
+  any?: WebhookFilterCondition[];
+}
+
+/**
+ * Credentials sent as the Authorization header of every delivery
+ */
+export type WebhookAuth =
+  | { type: 'bearer'; token: string }
+  | { type: 'basic'; username: string; password: string };
+
+/**
+ * Mutual TLS settings of an endpoint (PEM encoded)
+ */
+export interface WebhookTlsSettings {
+  // Client certificate and private key presented to the endpoint
+  cert?: string;
+  key?: string;
+  passphrase?: string;
+  // Trusted CAs for the endpoint certificate, replaces the default CAs
+  ca?: string;
+}
+
+/**
+ * Request body format of an endpoint: the WebhookPayload itself, or a CloudEvent
+ * in the body (structured mode) or in `ce-*` headers with the data as body (binary mode)
+ */
+export type WebhookFormat = 'miaw' | 'cloudevents_structured' | 'cloudevents_binary';
+
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  // Empty list subscribes to all events
+  events: WebhookEvent[];
+  // Signing secret, the instance's (or else the server-wide) webhook secret is used when unset
+  secret?: string;
+  previousSecret?: WebhookPreviousSecret;
+  headers: Record<string, string>;
+  auth?: WebhookAuth;
+  tls?: WebhookTlsSettings;
+  // Overrides of the server-wide retry policy
+  retryPolicy?: Partial<WebhookRetryPolicy>;
+  filter?: WebhookFilter;
+  // Unset is 'miaw'
+  format?: WebhookFormat;
+  // JSON template for the request body (the CloudEvent data in CloudEvents formats),
+  // the WebhookPayload is sent as is when unset
+  template?: Record<string, unknown>;
+  batch?: WebhookBatchSettings;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WebhookSubscriptionInput {
+  url: string;
+  events?: WebhookEvent[];
+  secret?: string;
+  headers?: Record<string, string>;
+  auth?: WebhookAuth;
+  tls?: WebhookTlsSettings;
+  retryPolicy?: Partial<WebhookRetryPolicy>;
+  filter?: WebhookFilter;
+  format?: WebhookFormat;
+  template?: Record<string, unknown>;
+  batch?: WebhookBatchSettings;
+  enabled?: boolean;
+}
+
+export interface WebhookSubscriptionUpdate {
+  url?: string;
+  events?: WebhookEvent[];
+  secret?: string | null;
+  headers?: Record<string, string>;
+  auth?: WebhookAuth | null;
+  tls?: WebhookTlsSettings | null;
+  retryPolicy?: Partial<WebhookRetryPolicy> | null;
+  filter?: WebhookFilter | null;
+  format?: WebhookFormat;
+  template?: Record<string, unknown> | null;
+  batch?: WebhookBatchSettings | null;
+  enabled?: boolean;
+}
+
+/**
+ * Per-endpoint delivery settings passed along with a queued webhook (stored with it,
+ * so no credentials)
+ */
+export interface WebhookDeliveryOptions {
+  // Unset for the instance's main webhookUrl
+  subscriptionId?: string;
+  retryPolicy?: Partial<WebhookRetryPolicy>;
+  format?: WebhookFormat;
+  template?: Record<string, unknown>;
+  batch?: WebhookBatchSettings;
+}
+
+/**
+ * Endpoint credentials of a delivery, looked up on every attempt
+ */
+export interface WebhookDeliveryCredentials {
+  secret?: string;
+  previousSecret?: WebhookPreviousSecret;
+  headers?: Record<string, string>;
+  auth?: WebhookAuth;
+  tls?: WebhookTlsSettings;
+}
+
+// ============================================================================
+// Event Sink Types
+// ============================================================================
+
+export type EventSinkType = 'redis_stream' | 'nats' | 'jsonl_file';
+
+export interface RedisStreamSinkSettings {
+  // redis:// or rediss:// connection URL
+  url: string;
+  // Defaults to miaw:events:<instanceId>
+  stream?: string;
+  // Approximate stream length cap (XADD MAXLEN ~)
+  maxLen?: number;
+}
+
+export interface NatsSinkSettings {
+  // Comma-separated nats:// server URLs
+  servers: string;
+  // Defaults to miaw.events.<instanceId>.<event>
+  subject?: string;
+}
+
+export interface JsonlFileSinkSettings {
+  // File inside EVENT_SINK_FILE_DIR, defaults to <instanceId>.jsonl
+  fileName?: string;
+}
+
+export interface EventSink {
+  id: string;
+  type: EventSinkType;
+  // Empty list writes all events
+  events: WebhookEvent[];
+  enabled: boolean;
+  redis?: RedisStreamSinkSettings;
+  nats?: NatsSinkSettings;
+  file?: JsonlFileSinkSettings;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface EventSinkInput {
+  type: EventSinkType;
+  events?: WebhookEvent[];
+  enabled?: boolean;
+  redis?: RedisStreamSinkSettings;
+  nats?: NatsSinkSettings;
+  file?: JsonlFileSinkSettings;
+}
+
+export interface EventSinkUpdate {
+  events?: WebhookEvent[];
+  enabled?: boolean;
+}
+
 // ============================================================================
 // Message Types
 // ============================================================================
@@ -71,6 +374,108 @@ export interface SendMessageResult {
   error?: string;
 }
 
+/**
+ * Delivery state of a sent message, in order; `failed` can follow any state
+ */
+export type MessageDeliveryStatus = 'pending' | 'sent' | 'delivered' | 'read' | 'played' | 'failed';
+
+/**
+ * Receipt of one group participant (ms since epoch)
+ */
+export interface MessageReceipt {
+  deliveredAt?: number;
+  readAt?: number;
+  playedAt?: number;
+}
+
+/**
+ * Acknowledgements of a message sent by an instance (ms since epoch)
+ */
+export interface MessageStatus {
+  messageId: string;
+  chatId: string;
+  status: MessageDeliveryStatus;
+  sentAt?: number;
+  deliveredAt?: number;
+  readAt?: number;
+  playedAt?: number;
+  failedAt?: number;
+  // Group messages, keyed by participant JID
+  participants?: Record<string, MessageReceipt>;
+  updatedAt: number;
+}
+
+/**
+ * Data of a message_status event
+ */
+export interface MessageStatusUpdate {
+  messageId: string;
+  chatId: string;
+  status: MessageDeliveryStatus;
+  // Group participant the receipt is from, unset for the message as a whole
+  participant?: string;
+  timestamp: number;
+}
+
+// ============================================================================
+// Group Event Types
+// ============================================================================
+
+export type GroupParticipantsAction = 'add' | 'remove' | 'promote' | 'demote';
+
+/**
+ * Data of a group_participants_update event
+ */
+export interface GroupParticipantsUpdate {
+  groupId: string;
+  action: GroupParticipantsAction;
+  participants: string[];
+  // Admin who made the change, unset when participants joined or left themselves
+  actor?: string;
+}
+
+/**
+ * Group settings changed by a group_update event, only changed settings are set
+ */
+export interface GroupSettingsUpdate {
+  // Only admins can send messages
+  announce?: boolean;
+  // Only admins can edit group info
+  restrict?: boolean;
+  // Every member (not only admins) can add participants
+  memberAddMode?: boolean;
+  // Admins must approve new members
+  joinApprovalMode?: boolean;
+  // Disappearing messages timer in seconds, 0 when off
+  ephemeralDuration?: number;
+}
+
+/**
+ * Data of a group_update event, only changed fields are set
+ */
+export interface GroupUpdate {
+  groupId: string;
+  actor?: string;
+  subject?: string;
+  description?: string;
+  settings?: GroupSettingsUpdate;
+  // New picture ID, or removed
+  picture?: { action: 'set' | 'remove'; id?: string };
+}
+
+/**
+ * Data of a group_join_request event
+ */
+export interface GroupJoinRequest {
+  groupId: string;
+  // Who asked to join
+  participant: string;
+  action: 'created' | 'revoked' | 'rejected';
+  // How the request was made, e.g. invite_link
+  method?: string;
+  actor?: string;
+}
+
 // ============================================================================
 // Response Types
 // ============================================================================
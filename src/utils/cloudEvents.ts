@@ -0,0 +1,50 @@
+/**
+ * CloudEvents 1.0 mapping of webhook payloads
+ * https://github.com/cloudevents/spec/blob/v1.0.2/cloudevents/spec.md
+ */
+
+import { WebhookPayload } from '../types';
+
+export const CLOUDEVENTS_CONTENT_TYPE = 'application/cloudevents+json; charset=utf-8';
+export const CLOUDEVENTS_BATCH_CONTENT_TYPE = 'application/cloudevents-batch+json; charset=utf-8';
+
+// Event types are namespaced, e.g. `message` becomes `dev.miaw.message`
+const CLOUDEVENTS_TYPE_PREFIX = 'dev.miaw.';
+
+export interface CloudEvent {
+  specversion: '1.0';
+  id: string;
+  type: string;
+  source: string;
+  time: string;
+  datacontenttype: 'application/json';
+  data: unknown;
+}
+
+/**
+ * CloudEvent for a payload, `data` defaults to the payload's data
+ */
+export function toCloudEvent(payload: WebhookPayload, data: unknown = payload.data): CloudEvent {
+  return {
+    specversion: '1.0',
+    id: payload.id,
+    type: `${CLOUDEVENTS_TYPE_PREFIX}${payload.event}`,
+    source: payload.instanceId,
+    time: new Date(payload.timestamp).toISOString(),
+    datacontenttype: 'application/json',
+    data,
+  };
+}
+
+/**
+ * `ce-*` headers of a CloudEvent sent in binary mode (the body is its data)
+ */
+export function cloudEventHeaders(event: CloudEvent): Record<string, string> {
+  return {
+    'ce-specversion': event.specversion,
+    'ce-id': event.id,
+    'ce-type': event.type,
+    'ce-source': event.source,
+    'ce-time': event.time,
+  };
+}
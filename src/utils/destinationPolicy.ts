@@ -0,0 +1,275 @@
+/**
+ * Webhook Destination Policy
+ * Decides which URLs and addresses webhooks may be sent to (SSRF protection)
+ */
+
+import dns from 'dns';
+import net from 'net';
+import { Agent } from 'undici';
+import { ValidationError } from './errorHandler';
+
+export interface DestinationPolicyOptions {
+  // Reject http:// URLs
+  httpsOnly?: boolean;
+  // Allow loopback, private, link-local and other non-public addresses
+  allowPrivateNetworks?: boolean;
+  // Only these hosts when set; `*.example.com` matches subdomains
+  allowedHosts?: string[];
+  deniedHosts?: string[];
+  // Addresses allowed even when not public (e.g. an internal consumer)
+  allowedCidrs?: string[];
+  // Always rejected, also when allowed above
+  deniedCidrs?: string[];
+}
+
+/**
+ * A URL or resolved address the policy does not allow
+ */
+export class DestinationPolicyError extends Error {
+  // Survives undici wrapping the lookup error in "fetch failed"
+  readonly code = 'DESTINATION_BLOCKED';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'DestinationPolicyError';
+  }
+}
+
+// Loopback, private, link-local (cloud metadata), CGNAT, documentation, multicast and reserved ranges
+const NON_PUBLIC_CIDRS = [
+  '0.0.0.0/8',
+  '10.0.0.0/8',
+  '100.64.0.0/10',
+  '127.0.0.0/8',
+  '169.254.0.0/16',
+  '172.16.0.0/12',
+  '192.0.0.0/24',
+  '192.0.2.0/24',
+  '192.168.0.0/16',
+  '198.18.0.0/15',
+  '198.51.100.0/24',
+  '203.0.113.0/24',
+  '224.0.0.0/4',
+  '240.0.0.0/4',
+  '::/128',
+  '::1/128',
+  '100::/64',
+  '2001:db8::/32',
+  'fc00::/7',
+  'fe80::/10',
+  'ff00::/8',
+];
+
+/**
+ * Parse `address/prefix` (a bare address is a single host), null when invalid
+ */
+export function parseCidr(cidr: string): { address: string; prefix: number; type: 'ipv4' | 'ipv6' } | null {
+  const [address, prefixText, ...rest] = cidr.trim().split('/');
+  const family = net.isIP(address);
+  if (family === 0 || rest.length > 0) {
+    return null;
+  }
+
+  const maxPrefix = family === 4 ? 32 : 128;
+  const prefix = prefixText === undefined ? maxPrefix : Number(prefixText);
+  if (!/^\d+$/.test(prefixText ?? String(maxPrefix)) || prefix > maxPrefix) {
+    return null;
+  }
+
+  return { address, prefix, type: family === 4 ? 'ipv4' : 'ipv6' };
+}
+
+function createBlockList(cidrs: string[]): net.BlockList {
+  const list = new net.BlockList();
+  for (const cidr of cidrs) {
+    const parsed = parseCidr(cidr);
+    if (!parsed) {
+      throw new Error(`Invalid CIDR ${cidr}`);
+    }
+    list.addSubnet(parsed.address, parsed.prefix, parsed.type);
+  }
+  return list;
+}
+
+/**
+ * Lowercase host without IPv6 brackets or trailing dot
+ */
+function normalizeHost(hostname: string): string {
+  return hostname.toLowerCase().replace(/^\[(.*)\]$/, '$1').replace(/\.$/, '');
+}
+
+/**
+ * IPv4 address of an IPv4-mapped IPv6 address (`::ffff:10.0.0.1` or `::ffff:a00:1`)
+ */
+function unmapIPv4(address: string): string {
+  const lower = address.toLowerCase();
+  const dotted = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    return dotted[1];
+  }
+
+  const hex = lower.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (hex) {
+    const high = parseInt(hex[1], 16);
+    const low = parseInt(hex[2], 16);
+    return [high >> 8, high & 255, low >> 8, low & 255].join('.');
+  }
+
+  return address;
+}
+
+function matchesHost(host: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => {
+    const normalized = normalizeHost(pattern.trim());
+    return normalized.startsWith('*.') ? host.endsWith(normalized.slice(1)) : host === normalized;
+  });
+}
+
+/**
+ * Checks webhook URLs when they are registered and every address connected to on delivery
+ */
+export class DestinationPolicy {
+  private options: DestinationPolicyOptions;
+  private allowed: net.BlockList;
+  private denied: net.BlockList;
+  private nonPublic: net.BlockList;
+  private agent?: Agent;
+
+  constructor(options: DestinationPolicyOptions = {}) {
+    this.options = options;
+    this.allowed = createBlockList(options.allowedCidrs || []);
+    this.denied = createBlockList(options.deniedCidrs || []);
+    this.nonPublic = createBlockList(NON_PUBLIC_CIDRS);
+  }
+
+  /**
+   * Check scheme, host lists and literal IP addresses (no DNS)
+   */
+  checkUrl(url: string): void {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new DestinationPolicyError('Invalid URL');
+    }
+
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+      throw new DestinationPolicyError('Only http and https URLs are allowed');
+    }
+    if (this.options.httpsOnly && parsed.protocol !== 'https:') {
+      throw new DestinationPolicyError('Only https URLs are allowed');
+    }
+
+    const host = normalizeHost(parsed.hostname);
+    if (matchesHost(host, this.options.deniedHosts || [])) {
+      throw new DestinationPolicyError(`Host ${host} is denied`);
+    }
+    const allowedHosts = this.options.allowedHosts || [];
+    if (allowedHosts.length > 0 && !matchesHost(host, allowedHosts)) {
+      throw new DestinationPolicyError(`Host ${host} is not in the allowed hosts`);
+    }
+
+    // Literal addresses never reach the DNS lookup
+    if (net.isIP(host)) {
+      this.checkAddress(host);
+    }
+  }
+
+  /**
+   * Check an IP address against the CIDR lists and non-public ranges
+   */
+  checkAddress(address: string): void {
+    // IPv4-mapped IPv6 addresses are checked as IPv4
+    const ip = unmapIPv4(address);
+    const type = net.isIP(ip) === 6 ? 'ipv6' : 'ipv4';
+
+    if (this.denied.check(ip, type)) {
+      throw new DestinationPolicyError(`Address ${ip} is denied`);
+    }
+    if (this.allowed.check(ip, type)) {
+      return;
+    }
+    if (!this.options.allowPrivateNetworks && this.nonPublic.check(ip, type)) {
+      throw new DestinationPolicyError(`Address ${ip} is not a public address`);
+    }
+  }
+
+  /**
+   * Full check at registration: the URL and every address its host resolves to
+   */
+  async check(url: string): Promise<void> {
+    this.checkUrl(url);
+
+    const host = normalizeHost(new URL(url).hostname);
+    if (net.isIP(host)) {
+      return;
+    }
+
+    let addresses: dns.LookupAddress[];
+    try {
+      addresses = await dns.promises.lookup(host, { all: true });
+    } catch {
+      throw new DestinationPolicyError(`Host ${host} could not be resolved`);
+    }
+    addresses.forEach((entry) => this.checkAddress(entry.address));
+  }
+
+  /**
+   * DNS lookup for outgoing connections that fails unless every resolved address
+   * is allowed. The connection uses the checked address, so a host cannot
+   * resolve to a public address when registered and a private one on delivery.
+   */
+  lookup = (hostname: string, options: dns.LookupOptions, callback: (...args: any[]) => void): void => {
+    dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+      if (err) {
+        callback(err);
+        return;
+      }
+
+      try {
+        addresses.forEach((entry) => this.checkAddress(entry.address));
+      } catch (policyErr) {
+        callback(policyErr);
+        return;
+      }
+
+      if (options.all) {
+        callback(null, addresses);
+      } else {
+        callback(null, addresses[0].address, addresses[0].family);
+      }
+    });
+  };
+
+  /**
+   * Agent whose connections go through lookup(), passed to fetch as `dispatcher`
+   */
+  getDispatcher(): Agent {
+    if (!this.agent) {
+      this.agent = new Agent({ connect: { lookup: this.lookup } });
+    }
+    return this.agent;
+  }
+}
+
+/**
+ * Check a webhook URL when it is registered, rejected URLs become a 400 validation error
+ */
+export async function assertWebhookDestination(
+  policy: DestinationPolicy | undefined,
+  url: string,
+  field = 'url'
+): Promise<void> {
+  if (!policy) {
+    return;
+  }
+
+  try {
+    await policy.check(url);
+  } catch (err) {
+    if (err instanceof DestinationPolicyError) {
+      throw new ValidationError(`${field} not allowed: ${err.message}`, { field, reason: err.message });
+    }
+    throw err;
+  }
+}
@@ -44,6 +44,12 @@ export class ConflictError extends ApiError {
   }
 }
 
+export class GoneError extends ApiError {
+  constructor(message: string) {
+    super(410, 'GONE', message);
+  }
+}
+
 export class ServiceUnavailableError extends ApiError {
   constructor(message: string) {
     super(503, 'SERVICE_UNAVAILABLE', message);
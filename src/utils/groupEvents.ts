@@ -0,0 +1,106 @@
+/**
+ * Normalized group events from Baileys socket events
+ */
+
+import {
+  GroupJoinRequest,
+  GroupParticipantsAction,
+  GroupParticipantsUpdate,
+  GroupSettingsUpdate,
+  GroupUpdate,
+} from '../types';
+
+const PARTICIPANTS_ACTIONS: GroupParticipantsAction[] = ['add', 'remove', 'promote', 'demote'];
+const JOIN_REQUEST_ACTIONS: Array<GroupJoinRequest['action']> = ['created', 'revoked', 'rejected'];
+
+// Baileys proto.WebMessageInfo.StubType.GROUP_CHANGE_ICON, only reported as a stub message
+const GROUP_CHANGE_ICON_STUB = 22;
+
+/**
+ * JID of a participant, newer Baileys versions report participant objects
+ */
+function participantJid(participant: any): string | undefined {
+  return typeof participant === 'string' ? participant : participant?.id;
+}
+
+/**
+ * group_participants_update data from a Baileys `group-participants.update` event
+ */
+export function fromParticipantsUpdate(update: any): GroupParticipantsUpdate | undefined {
+  if (!update?.id || !PARTICIPANTS_ACTIONS.includes(update.action)) {
+    return undefined;
+  }
+
+  const participants = (update.participants || []).map(participantJid).filter(Boolean) as string[];
+  return {
+    groupId: update.id,
+    action: update.action,
+    participants,
+    ...(update.author && { actor: update.author }),
+  };
+}
+
+/**
+ * group_update data from a Baileys `groups.update` item, undefined when nothing reported changed
+ */
+export function fromGroupsUpdate(update: any): GroupUpdate | undefined {
+  if (!update?.id) {
+    return undefined;
+  }
+
+  const settings: GroupSettingsUpdate = {};
+  for (const key of ['announce', 'restrict', 'memberAddMode', 'joinApprovalMode'] as const) {
+    if (typeof update[key] === 'boolean') {
+      settings[key] = update[key];
+    }
+  }
+  if (update.ephemeralDuration !== undefined) {
+    settings.ephemeralDuration = update.ephemeralDuration || 0;
+  }
+
+  const result: GroupUpdate = {
+    groupId: update.id,
+    ...(update.author && { actor: update.author }),
+    ...(typeof update.subject === 'string' && { subject: update.subject }),
+    ...(update.desc !== undefined && { description: update.desc || '' }),
+    ...(Object.keys(settings).length > 0 && { settings }),
+  };
+
+  return Object.keys(result).some((key) => key !== 'groupId' && key !== 'actor') ? result : undefined;
+}
+
+/**
+ * group_update data for a group picture change from a Baileys stub message
+ */
+export function fromPictureStub(message: any): GroupUpdate | undefined {
+  const groupId: string | undefined = message?.key?.remoteJid;
+  if (message?.messageStubType !== GROUP_CHANGE_ICON_STUB || !groupId?.endsWith('@g.us')) {
+    return undefined;
+  }
+
+  const id: string | undefined = message.messageStubParameters?.[0];
+  const actor: string | undefined = message.participant || message.key.participant;
+  return {
+    groupId,
+    ...(actor && { actor }),
+    picture: id ? { action: 'set', id } : { action: 'remove' },
+  };
+}
+
+/**
+ * group_join_request data from a Baileys `group.join-request` event
+ */
+export function fromJoinRequest(update: any): GroupJoinRequest | undefined {
+  const participant = participantJid(update?.participant);
+  if (!update?.id || !participant || !JOIN_REQUEST_ACTIONS.includes(update.action)) {
+    return undefined;
+  }
+
+  return {
+    groupId: update.id,
+    participant,
+    action: update.action,
+    ...(update.method && { method: update.method }),
+    ...(update.author && { actor: update.author }),
+  };
+}
@@ -0,0 +1,71 @@
+/**
+ * QR code rendering utilities
+ */
+
+import QRCode from 'qrcode';
+
+export type QrCodeFormat = 'json' | 'raw' | 'png' | 'svg' | 'dataurl' | 'terminal';
+
+export const QR_CODE_FORMATS: QrCodeFormat[] = ['json', 'raw', 'png', 'svg', 'dataurl', 'terminal'];
+
+export interface RenderedQrCode {
+  contentType: string;
+  body: string | Buffer;
+}
+
+/**
+ * Pick output format from the Accept header when no explicit format is requested
+ */
+export function negotiateQrCodeFormat(accept?: string): QrCodeFormat {
+  if (!accept) {
+    return 'json';
+  }
+
+  const types = accept.split(',').map((part) => part.split(';')[0].trim().toLowerCase());
+
+  for (const type of types) {
+    if (type === 'application/json') return 'json';
+    if (type === 'image/png') return 'png';
+    if (type === 'image/svg+xml') return 'svg';
+    if (type === 'text/plain') return 'raw';
+  }
+
+  return 'json';
+}
+
+/**
+ * Render QR string in the requested format ('json' is handled by the route)
+ */
+export async function renderQrCode(
+  qr: string,
+  format: Exclude<QrCodeFormat, 'json'>
+): Promise<RenderedQrCode> {
+  switch (format) {
+    case 'png':
+      return {
+        contentType: 'image/png',
+        body: await QRCode.toBuffer(qr, { type: 'png', margin: 2, width: 300 }),
+      };
+    case 'svg':
+      return {
+        contentType: 'image/svg+xml',
+        body: await QRCode.toString(qr, { type: 'svg', margin: 2 }),
+      };
+    case 'dataurl':
+      return {
+        contentType: 'text/plain; charset=utf-8',
+        body: await QRCode.toDataURL(qr, { margin: 2, width: 300 }),
+      };
+    case 'terminal':
+      return {
+        contentType: 'text/plain; charset=utf-8',
+        body: await QRCode.toString(qr, { type: 'terminal', small: true }),
+      };
+    case 'raw':
+    default:
+      return {
+        contentType: 'text/plain; charset=utf-8',
+        body: qr,
+      };
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Redaction of credentials in values returned by the API or kept in logs
+ */
+
+// Header names whose values are credentials
+const SENSITIVE_HEADER_PATTERN = /^(authorization|proxy-authorization|cookie)$|token|secret|password|api-?key|auth/i;
+// Query parameters whose values are credentials
+const SENSITIVE_QUERY_PATTERN = /([?&])(token|api_?key)=[^&#]*/gi;
+
+/**
+ * Copy of the headers with credential values replaced by `***`
+ */
+export function redactHeaders(headers: Record<string, string>): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    result[name] = SENSITIVE_HEADER_PATTERN.test(name) ? '***' : value;
+  }
+  return result;
+}
+
+/**
+ * URL with credential query parameter values replaced by `***`
+ */
+export function redactUrl(url: string): string {
+  return url.replace(SENSITIVE_QUERY_PATTERN, '$1$2=***');
+}
@@ -0,0 +1,51 @@
+/**
+ * Short-lived event stream tokens for clients that cannot send headers
+ * (browser EventSource, WebSocket), so the API key never ends up in a URL
+ */
+
+import crypto from 'crypto';
+
+export interface StreamTokenClaims {
+  // Unset for tokens valid on the streams of all instances
+  instanceId?: string;
+  // Expiry (ms since epoch)
+  expiresAt: number;
+}
+
+/**
+ * Signed token carrying its claims: base64url(claims).base64url(HMAC)
+ */
+export function createStreamToken(claims: StreamTokenClaims, secret: string): string {
+  const body = Buffer.from(JSON.stringify({ i: claims.instanceId, e: claims.expiresAt })).toString('base64url');
+  return `${body}.${sign(body, secret)}`;
+}
+
+/**
+ * Claims of a token, null when it is malformed, forged or expired
+ */
+export function verifyStreamToken(token: string, secret: string, now = Date.now()): StreamTokenClaims | null {
+  const [body, signature, ...rest] = token.split('.');
+  if (!body || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(body, secret));
+  const provided = Buffer.from(signature);
+  if (provided.length !== expected.length || !crypto.timingSafeEqual(provided, expected)) {
+    return null;
+  }
+
+  try {
+    const { i, e } = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+    if (typeof e !== 'number' || e <= now) {
+      return null;
+    }
+    return { instanceId: typeof i === 'string' ? i : undefined, expiresAt: e };
+  } catch {
+    return null;
+  }
+}
+
+function sign(body: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(`stream-token.${body}`).digest('base64url');
+}
@@ -0,0 +1,140 @@
+/**
+ * Webhook subscription filters and payload templates
+ */
+
+import { WebhookFilter, WebhookFilterCondition, WebhookPayload } from '../types';
+
+// Virtual field holding the label IDs of the event's chat
+export const CHAT_LABELS_FIELD = 'chat.labels';
+
+export interface WebhookFilterContext {
+  // Whether the event's chat carries a label (WhatsApp Business only)
+  chatHasLabel?: (labelId: string) => boolean;
+}
+
+// A template string that is exactly one placeholder keeps the value's type
+const WHOLE_PLACEHOLDER_PATTERN = /^\{\{\s*([\w.$-]+)\s*\}\}$/;
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.$-]+)\s*\}\}/g;
+
+/**
+ * Chat JID of an event payload, when the event belongs to a chat
+ */
+export function getChatJid(data: any): string | undefined {
+  return data?.chatId || data?.groupId || data?.from || data?.jid || undefined;
+}
+
+/**
+ * Read a dot path (e.g. "data.key.fromMe") from a value
+ */
+export function getPath(value: any, path: string): unknown {
+  return path.split('.').reduce((current, key) => (current == null ? undefined : current[key]), value);
+}
+
+/**
+ * Whether a payload passes a subscription filter: every `all` condition and,
+ * when given, at least one `any` condition must match
+ */
+export function matchesWebhookFilter(
+  filter: WebhookFilter | undefined,
+  payload: WebhookPayload,
+  context: WebhookFilterContext = {}
+): boolean {
+  if (!filter) {
+    return true;
+  }
+
+  const matches = (condition: WebhookFilterCondition) => matchesCondition(condition, payload, context);
+
+  if (filter.all && !filter.all.every(matches)) {
+    return false;
+  }
+
+  if (filter.any && filter.any.length > 0 && !filter.any.some(matches)) {
+    return false;
+  }
+
+  return true;
+}
+
+function matchesCondition(
+  condition: WebhookFilterCondition,
+  payload: WebhookPayload,
+  context: WebhookFilterContext
+): boolean {
+  if (condition.field === CHAT_LABELS_FIELD) {
+    return matchesChatLabels(condition, context);
+  }
+
+  const actual = getPath(payload, condition.field);
+  const expected = condition.value;
+
+  switch (condition.op) {
+    case 'eq':
+      return actual === expected;
+    case 'ne':
+      return actual !== expected;
+    case 'in':
+      return Array.isArray(expected) && expected.includes(actual);
+    case 'nin':
+      return !Array.isArray(expected) || !expected.includes(actual);
+    case 'exists':
+      return (actual !== undefined && actual !== null) === (expected ?? true);
+    case 'contains':
+      if (Array.isArray(actual)) return actual.includes(expected);
+      if (typeof actual === 'string' && typeof expected === 'string') return actual.includes(expected);
+      return false;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Label conditions are answered by the chat's labels instead of the payload
+ */
+function matchesChatLabels(condition: WebhookFilterCondition, context: WebhookFilterContext): boolean {
+  const hasLabel = (labelId: unknown) =>
+    typeof labelId === 'string' && !!context.chatHasLabel && context.chatHasLabel(labelId);
+  const labelIds = Array.isArray(condition.value) ? condition.value : [condition.value];
+
+  switch (condition.op) {
+    case 'contains':
+    case 'in':
+      return labelIds.some(hasLabel);
+    case 'nin':
+      return !labelIds.some(hasLabel);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Build the request body from a JSON template. Strings that are a single
+ * `{{path}}` placeholder are replaced by the value at that path of the payload
+ * (any type), placeholders inside longer strings are interpolated as text.
+ */
+export function renderWebhookTemplate(template: unknown, payload: WebhookPayload): unknown {
+  if (typeof template === 'string') {
+    const whole = template.match(WHOLE_PLACEHOLDER_PATTERN);
+    if (whole) {
+      return getPath(payload, whole[1]) ?? null;
+    }
+
+    return template.replace(PLACEHOLDER_PATTERN, (_, path: string) => {
+      const value = getPath(payload, path);
+      if (value == null) return '';
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    });
+  }
+
+  if (Array.isArray(template)) {
+    return template.map((item) => renderWebhookTemplate(item, payload));
+  }
+
+  if (template && typeof template === 'object') {
+    return Object.fromEntries(
+      Object.entries(template).map(([key, value]) => [key, renderWebhookTemplate(value, payload)])
+    );
+  }
+
+  return template;
+}
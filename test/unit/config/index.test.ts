@@ -3,6 +3,7 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import path from 'path';
 
 // Store original env vars
 const originalEnv = { ...process.env };
@@ -26,7 +27,31 @@ describe('Config', () => {
     delete process.env.WEBHOOK_TIMEOUT_MS;
     delete process.env.WEBHOOK_MAX_RETRIES;
     delete process.env.WEBHOOK_RETRY_DELAY_MS;
+    delete process.env.WEBHOOK_QUEUE_STORE;
+    delete process.env.WEBHOOK_CONCURRENCY;
+    delete process.env.WEBHOOK_CIRCUIT_THRESHOLD;
+    delete process.env.WEBHOOK_CIRCUIT_COOLDOWN_MS;
+    delete process.env.WEBHOOK_RETRY_MULTIPLIER;
+    delete process.env.WEBHOOK_RETRY_JITTER;
+    delete process.env.WEBHOOK_RETRY_MAX_DELAY_MS;
+    delete process.env.WEBHOOK_QUEUE_PATH;
+    delete process.env.WEBHOOK_DEAD_LETTER_PATH;
+    delete process.env.WEBHOOK_DEAD_LETTER_MAX;
+    delete process.env.WEBHOOK_DELIVERY_LOG_SIZE;
+    delete process.env.WEBHOOK_HTTPS_ONLY;
+    delete process.env.WEBHOOK_ALLOW_PRIVATE_NETWORKS;
+    delete process.env.WEBHOOK_ALLOWED_HOSTS;
+    delete process.env.WEBHOOK_DENIED_HOSTS;
+    delete process.env.WEBHOOK_ALLOWED_CIDRS;
+    delete process.env.WEBHOOK_DENIED_CIDRS;
+    delete process.env.EVENT_STREAM_BUFFER_SIZE;
+    delete process.env.EVENT_STREAM_HEARTBEAT_MS;
+    delete process.env.EVENT_STREAM_TOKEN_TTL_MS;
+    delete process.env.EVENT_SINK_FILE_DIR;
+    delete process.env.MESSAGE_STATUS_STORE_SIZE;
     delete process.env.LOG_LEVEL;
+    delete process.env.INSTANCE_REGISTRY_PATH;
+    delete process.env.AUTO_RESTORE_INSTANCES;
     delete process.env.NODE_ENV;
     resetModules();
   });
@@ -87,6 +112,52 @@ describe('Config', () => {
       const { config } = await import('../../../src/config');
       expect(config.logLevel).toBe('info');
     });
+
+    it('should store instance registry inside session path by default', async () => {
+      const { config } = await import('../../../src/config');
+      expect(config.registryPath).toBe(path.join('./sessions', 'instances.json'));
+    });
+
+    it('should auto-restore instances by default', async () => {
+      const { config } = await import('../../../src/config');
+      expect(config.autoRestoreInstances).toBe(true);
+    });
+
+    it('should use file webhook queue inside session path by default', async () => {
+      const { config } = await import('../../../src/config');
+      expect(config.webhookQueueStore).toBe('file');
+      expect(config.webhookQueuePath).toBe(path.join('./sessions', 'webhook-queue.jsonl'));
+    });
+
+    it('should keep up to 10000 dead letters inside session path by default', async () => {
+      const { config } = await import('../../../src/config');
+      expect(config.webhookDeadLetterPath).toBe(path.join('./sessions', 'webhook-dead-letters.jsonl'));
+      expect(config.webhookDeadLetterMax).toBe(10000);
+      expect(config.webhookDeliveryLogSize).toBe(500);
+      expect(config.eventStreamBufferSize).toBe(1000);
+      expect(config.eventStreamHeartbeatInterval).toBe(30000);
+      expect(config.eventStreamTokenTtl).toBe(300000);
+    });
+
+    it('should block private networks without host or CIDR lists by default', async () => {
+      const { config } = await import('../../../src/config');
+      expect(config.webhookHttpsOnly).toBe(false);
+      expect(config.webhookAllowPrivateNetworks).toBe(false);
+      expect(config.webhookAllowedHosts).toEqual([]);
+      expect(config.webhookDeniedHosts).toEqual([]);
+      expect(config.webhookAllowedCidrs).toEqual([]);
+      expect(config.webhookDeniedCidrs).toEqual([]);
+    });
+
+    it('should write JSONL event sinks inside session path by default', async () => {
+      const { config } = await import('../../../src/config');
+      expect(config.eventSinkFileDir).toBe(path.join('./sessions', 'events'));
+    });
+
+    it('should keep 1000 message statuses per instance by default', async () => {
+      const { config } = await import('../../../src/config');
+      expect(config.messageStatusStoreSize).toBe(1000);
+    });
   });
 
   describe('Environment variable overrides', () => {
@@ -149,6 +220,130 @@ describe('Config', () => {
       const { config } = await import('../../../src/config');
       expect(config.logLevel).toBe('debug');
     });
+
+    it('should derive registry path from SESSION_PATH', async () => {
+      process.env.SESSION_PATH = '/data/sessions';
+      const { config } = await import('../../../src/config');
+      expect(config.registryPath).toBe(path.join('/data/sessions', 'instances.json'));
+    });
+
+    it('should override registry path from INSTANCE_REGISTRY_PATH', async () => {
+      process.env.INSTANCE_REGISTRY_PATH = '/data/registry.json';
+      const { config } = await import('../../../src/config');
+      expect(config.registryPath).toBe('/data/registry.json');
+    });
+
+    it('should disable auto-restore when AUTO_RESTORE_INSTANCES is "false"', async () => {
+      process.env.AUTO_RESTORE_INSTANCES = 'false';
+      const { config } = await import('../../../src/config');
+      expect(config.autoRestoreInstances).toBe(false);
+    });
+
+    it('should use default webhook retry policy', async () => {
+      const { config } = await import('../../../src/config');
+      expect(config.webhookRetryMultiplier).toBe(3);
+      expect(config.webhookRetryJitter).toBe(0.2);
+      expect(config.webhookRetryMaxDelay).toBe(3600000);
+    });
+
+    it('should override webhook retry policy from environment', async () => {
+      process.env.WEBHOOK_RETRY_MULTIPLIER = '1.5';
+      process.env.WEBHOOK_RETRY_JITTER = '0';
+      process.env.WEBHOOK_RETRY_MAX_DELAY_MS = '600000';
+      const { config } = await import('../../../src/config');
+      expect(config.webhookRetryMultiplier).toBe(1.5);
+      expect(config.webhookRetryJitter).toBe(0);
+      expect(config.webhookRetryMaxDelay).toBe(600000);
+    });
+
+    it('should open webhook circuits after 5 failures for 60s by default', async () => {
+      const { config } = await import('../../../src/config');
+      expect(config.webhookCircuitThreshold).toBe(5);
+      expect(config.webhookCircuitCooldown).toBe(60000);
+    });
+
+    it('should override webhook circuit breaker from environment', async () => {
+      process.env.WEBHOOK_CIRCUIT_THRESHOLD = '0';
+      process.env.WEBHOOK_CIRCUIT_COOLDOWN_MS = '5000';
+      const { config } = await import('../../../src/config');
+      expect(config.webhookCircuitThreshold).toBe(0);
+      expect(config.webhookCircuitCooldown).toBe(5000);
+    });
+
+    it('should default webhook concurrency to 10', async () => {
+      const { config } = await import('../../../src/config');
+      expect(config.webhookConcurrency).toBe(10);
+    });
+
+    it('should override webhook concurrency from WEBHOOK_CONCURRENCY', async () => {
+      process.env.WEBHOOK_CONCURRENCY = '25';
+      const { config } = await import('../../../src/config');
+      expect(config.webhookConcurrency).toBe(25);
+    });
+
+    it('should use memory webhook queue when WEBHOOK_QUEUE_STORE is "memory"', async () => {
+      process.env.WEBHOOK_QUEUE_STORE = 'memory';
+      const { config } = await import('../../../src/config');
+      expect(config.webhookQueueStore).toBe('memory');
+    });
+
+    it('should override webhook queue path from WEBHOOK_QUEUE_PATH', async () => {
+      process.env.WEBHOOK_QUEUE_PATH = '/data/queue.jsonl';
+      const { config } = await import('../../../src/config');
+      expect(config.webhookQueuePath).toBe('/data/queue.jsonl');
+    });
+
+    it('should override dead letter settings from environment', async () => {
+      process.env.WEBHOOK_DEAD_LETTER_PATH = '/data/dlq.json';
+      process.env.WEBHOOK_DEAD_LETTER_MAX = '50';
+      const { config } = await import('../../../src/config');
+      expect(config.webhookDeadLetterPath).toBe('/data/dlq.json');
+      expect(config.webhookDeadLetterMax).toBe(50);
+    });
+
+    it('should override delivery log size from environment', async () => {
+      process.env.WEBHOOK_DELIVERY_LOG_SIZE = '100';
+      const { config } = await import('../../../src/config');
+      expect(config.webhookDeliveryLogSize).toBe(100);
+    });
+
+    it('should override webhook destination policy from environment', async () => {
+      process.env.WEBHOOK_HTTPS_ONLY = 'true';
+      process.env.WEBHOOK_ALLOW_PRIVATE_NETWORKS = 'true';
+      process.env.WEBHOOK_ALLOWED_HOSTS = 'hooks.example.com, *.example.org';
+      process.env.WEBHOOK_DENIED_HOSTS = 'evil.example.com';
+      process.env.WEBHOOK_ALLOWED_CIDRS = '10.1.0.0/16';
+      process.env.WEBHOOK_DENIED_CIDRS = '203.0.113.7,2001:db8::/32';
+      const { config } = await import('../../../src/config');
+      expect(config.webhookHttpsOnly).toBe(true);
+      expect(config.webhookAllowPrivateNetworks).toBe(true);
+      expect(config.webhookAllowedHosts).toEqual(['hooks.example.com', '*.example.org']);
+      expect(config.webhookDeniedHosts).toEqual(['evil.example.com']);
+      expect(config.webhookAllowedCidrs).toEqual(['10.1.0.0/16']);
+      expect(config.webhookDeniedCidrs).toEqual(['203.0.113.7', '2001:db8::/32']);
+    });
+
+    it('should override event stream settings from environment', async () => {
+      process.env.EVENT_STREAM_BUFFER_SIZE = '200';
+      process.env.EVENT_STREAM_HEARTBEAT_MS = '5000';
+      process.env.EVENT_STREAM_TOKEN_TTL_MS = '60000';
+      const { config } = await import('../../../src/config');
+      expect(config.eventStreamBufferSize).toBe(200);
+      expect(config.eventStreamHeartbeatInterval).toBe(5000);
+      expect(config.eventStreamTokenTtl).toBe(60000);
+    });
+
+    it('should override event sink file directory from EVENT_SINK_FILE_DIR', async () => {
+      process.env.EVENT_SINK_FILE_DIR = '/data/events';
+      const { config } = await import('../../../src/config');
+      expect(config.eventSinkFileDir).toBe('/data/events');
+    });
+
+    it('should override message status store size from environment', async () => {
+      process.env.MESSAGE_STATUS_STORE_SIZE = '50';
+      const { config } = await import('../../../src/config');
+      expect(config.messageStatusStoreSize).toBe(50);
+    });
   });
 
   describe('Type coercion', () => {
@@ -271,6 +466,61 @@ describe('Config', () => {
       const warningCalls = warnSpy.mock.calls.flat().join(' ');
       expect(warningCalls).toContain('Invalid port');
     });
+
+    it('should warn about invalid webhook retry jitter and default to 0.2', async () => {
+      process.env.WEBHOOK_RETRY_JITTER = '2';
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const { config } = await import('../../../src/config');
+
+      expect(config.webhookRetryJitter).toBe(0.2);
+      const warningCalls = warnSpy.mock.calls.flat().join(' ');
+      expect(warningCalls).toContain('Invalid webhook retry jitter');
+    });
+
+    it('should warn about invalid webhook concurrency and default to 10', async () => {
+      process.env.WEBHOOK_CONCURRENCY = '0';
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const { config } = await import('../../../src/config');
+
+      expect(config.webhookConcurrency).toBe(10);
+      const warningCalls = warnSpy.mock.calls.flat().join(' ');
+      expect(warningCalls).toContain('Invalid webhook concurrency');
+    });
+
+    it('should warn about too short event stream heartbeat and default to 30000', async () => {
+      process.env.EVENT_STREAM_HEARTBEAT_MS = '10';
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const { config } = await import('../../../src/config');
+
+      expect(config.eventStreamHeartbeatInterval).toBe(30000);
+      const warningCalls = warnSpy.mock.calls.flat().join(' ');
+      expect(warningCalls).toContain('Invalid event stream heartbeat interval');
+    });
+
+    it('should warn about invalid event stream token TTL and default to 300000', async () => {
+      process.env.EVENT_STREAM_TOKEN_TTL_MS = 'abc';
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const { config } = await import('../../../src/config');
+
+      expect(config.eventStreamTokenTtl).toBe(300000);
+      const warningCalls = warnSpy.mock.calls.flat().join(' ');
+      expect(warningCalls).toContain('Invalid event stream token TTL');
+    });
+
+    it('should warn about and ignore invalid webhook CIDRs', async () => {
+      process.env.WEBHOOK_DENIED_CIDRS = '10.0.0.0/8,not-a-cidr,10.0.0.0/40';
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const { config } = await import('../../../src/config');
+
+      expect(config.webhookDeniedCidrs).toEqual(['10.0.0.0/8']);
+      const warningCalls = warnSpy.mock.calls.flat().join(' ');
+      expect(warningCalls).toContain('Ignoring invalid webhook CIDRs: not-a-cidr, 10.0.0.0/40');
+    });
   });
 
   describe('Config interface', () => {
@@ -283,6 +533,8 @@ describe('Config', () => {
       expect(config).toHaveProperty('webhookSecret');
       expect(config).toHaveProperty('corsOrigin');
       expect(config).toHaveProperty('sessionPath');
+      expect(config).toHaveProperty('registryPath');
+      expect(config).toHaveProperty('autoRestoreInstances');
       expect(config).toHaveProperty('webhookTimeout');
       expect(config).toHaveProperty('webhookMaxRetries');
       expect(config).toHaveProperty('webhookRetryDelay');
@@ -5,6 +5,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { createAuthMiddleware } from '../../../src/middleware/auth';
 import { UnauthorizedError } from '../../../src/utils/errorHandler';
+import { createStreamToken } from '../../../src/utils/streamToken';
 
 // Mock the config module
 vi.mock('../../../src/config', () => ({
@@ -285,6 +286,75 @@ describe('Auth Middleware', () => {
     });
   });
 
+  describe('Stream token', () => {
+    const streamAuth = createAuthMiddleware({ allowStreamToken: true });
+
+    function token(instanceId?: string, expiresAt = Date.now() + 60000, secret = 'test-api-key-12345') {
+      return createStreamToken({ instanceId, expiresAt }, secret);
+    }
+
+    it('should ignore token query parameter by default', async () => {
+      mockRequest.query = { token: token() };
+
+      await expect(authMiddleware(mockRequest, mockReply)).rejects.toThrow(UnauthorizedError);
+    });
+
+    it('should not accept the API key as a query parameter', async () => {
+      mockRequest.query = { apiKey: 'test-api-key-12345', token: 'test-api-key-12345' };
+
+      await expect(streamAuth(mockRequest, mockReply)).rejects.toThrow('Invalid or expired stream token');
+    });
+
+    it('should accept a valid token for all instances', async () => {
+      mockRequest.query = { token: token() };
+      mockRequest.params = { id: 'bot-1' };
+
+      await expect(streamAuth(mockRequest, mockReply)).resolves.toBeUndefined();
+    });
+
+    it('should accept an instance token on that instance', async () => {
+      mockRequest.query = { token: token('bot-1') };
+      mockRequest.params = { id: 'bot-1' };
+
+      await expect(streamAuth(mockRequest, mockReply)).resolves.toBeUndefined();
+    });
+
+    it('should reject an instance token on another instance', async () => {
+      mockRequest.query = { token: token('bot-1') };
+      mockRequest.params = { id: 'bot-2' };
+
+      await expect(streamAuth(mockRequest, mockReply)).rejects.toThrow(UnauthorizedError);
+    });
+
+    it('should reject an instance token on the all-instances stream', async () => {
+      mockRequest.query = { token: token('bot-1') };
+
+      await expect(streamAuth(mockRequest, mockReply)).rejects.toThrow(UnauthorizedError);
+    });
+
+    it('should reject an expired token', async () => {
+      mockRequest.query = { token: token(undefined, Date.now() - 1) };
+
+      await expect(streamAuth(mockRequest, mockReply)).rejects.toThrow(UnauthorizedError);
+    });
+
+    it('should reject a token signed with another key', async () => {
+      mockRequest.query = { token: token(undefined, Date.now() + 60000, 'other-key') };
+
+      await expect(streamAuth(mockRequest, mockReply)).rejects.toThrow(UnauthorizedError);
+    });
+
+    it('should not log the token', async () => {
+      const value = token(undefined, Date.now() - 1);
+      mockRequest.query = { token: value };
+      mockRequest.url = `/events/stream?token=${value}`;
+
+      await expect(streamAuth(mockRequest, mockReply)).rejects.toThrow(UnauthorizedError);
+
+      expect(JSON.stringify(mockRequest.log.warn.mock.calls)).not.toContain(value);
+    });
+  });
+
   describe('Factory function', () => {
     it('should return a middleware function', () => {
       const middleware = createAuthMiddleware();
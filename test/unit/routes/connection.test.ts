@@ -0,0 +1,142 @@
+/**
+ * Unit tests for connection routes
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { config } from '../../../src/config';
+import { connectionRoutes } from '../../../src/routes/connection';
+import { registerSchemas } from '../../../src/schemas';
+import { errorHandler } from '../../../src/utils/errorHandler';
+import { QrCodeInfo } from '../../../src/types';
+
+// PNG file signature
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+describe('Connection routes', () => {
+  let server: FastifyInstance;
+  let status: string;
+  let qrCode: QrCodeInfo | null;
+
+  const headers = { authorization: `Bearer ${config.apiKey}` };
+
+  function createQrCode(expiresIn = 20000): QrCodeInfo {
+    const receivedAt = new Date();
+    return { qr: '2@qr-code-ref,public-key,identity-key', receivedAt, expiresAt: new Date(Date.now() + expiresIn) };
+  }
+
+  function getQr(query = '', extraHeaders = {}) {
+    return server.inject({
+      method: 'GET',
+      url: `/instances/bot-1/qr${query}`,
+      headers: { ...headers, ...extraHeaders },
+    });
+  }
+
+  beforeEach(async () => {
+    status = 'qr_required';
+    qrCode = createQrCode();
+
+    server = Fastify();
+    registerSchemas(server);
+    server.setErrorHandler((error, request, reply) => {
+      errorHandler(error as Error, request, reply);
+    });
+    server.decorate('instanceManager', {
+      getInstance: (instanceId: string) => (instanceId === 'bot-1' ? { instanceId, status } : null),
+      getQrCode: (instanceId: string) => (instanceId === 'bot-1' ? qrCode : null),
+    });
+    await server.register(connectionRoutes);
+    await server.ready();
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  describe('GET /instances/:id/qr', () => {
+    it('should return the QR code with a data URL and expiry as JSON by default', async () => {
+      const response = await getQr();
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['cache-control']).toBe('no-store');
+      const { data } = response.json();
+      expect(data).toMatchObject({
+        qr: qrCode!.qr,
+        receivedAt: qrCode!.receivedAt.toISOString(),
+        expiresAt: qrCode!.expiresAt.toISOString(),
+      });
+      expect(data.dataUrl).toMatch(/^data:image\/png;base64,/);
+      expect(data.expiresIn).toBeGreaterThan(0);
+    });
+
+    it('should return a PNG image for Accept: image/png', async () => {
+      const response = await getQr('', { accept: 'image/png' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['content-type']).toBe('image/png');
+      expect(response.headers['x-qr-expires-at']).toBe(qrCode!.expiresAt.toISOString());
+      expect(response.rawPayload.subarray(0, 8)).toEqual(PNG_SIGNATURE);
+    });
+
+    it('should return an SVG image for Accept: image/svg+xml', async () => {
+      const response = await getQr('', { accept: 'image/svg+xml' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['content-type']).toBe('image/svg+xml');
+      expect(response.body).toContain('<svg');
+    });
+
+    it('should let the format query override the Accept header', async () => {
+      const svg = await getQr('?format=svg', { accept: 'image/png' });
+      const raw = await getQr('?format=raw', { accept: 'image/png' });
+      const json = await getQr('?format=json', { accept: 'image/svg+xml' });
+
+      expect(svg.headers['content-type']).toBe('image/svg+xml');
+      expect(raw.headers['content-type']).toBe('text/plain; charset=utf-8');
+      expect(raw.body).toBe(qrCode!.qr);
+      expect(json.headers['content-type']).toMatch(/^application\/json/);
+      expect(json.json().data.qr).toBe(qrCode!.qr);
+    });
+
+    it('should return 404 when no QR code is pending', async () => {
+      qrCode = null;
+
+      const response = await getQr();
+
+      expect(response.statusCode).toBe(404);
+      expect(response.json().error.message).toContain('QR code');
+    });
+
+    it('should return 404 for an unknown instance', async () => {
+      const response = await server.inject({ method: 'GET', url: '/instances/bot-2/qr', headers });
+
+      expect(response.statusCode).toBe(404);
+      expect(response.json().error.message).toContain('Instance');
+    });
+
+    it('should return 410 once the QR code expired', async () => {
+      qrCode = createQrCode(-1);
+
+      const response = await getQr('?format=png');
+
+      expect(response.statusCode).toBe(410);
+      expect(response.json().error.code).toBe('GONE');
+    });
+
+    it('should return 410 once the instance is connected', async () => {
+      status = 'connected';
+
+      const response = await getQr();
+
+      expect(response.statusCode).toBe(410);
+      expect(response.json().error.message).toContain('already connected');
+    });
+
+    it('should require authentication', async () => {
+      const response = await server.inject({ method: 'GET', url: '/instances/bot-1/qr' });
+
+      expect(response.statusCode).toBe(401);
+    });
+  });
+});
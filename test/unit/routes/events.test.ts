@@ -0,0 +1,191 @@
+/**
+ * Unit tests for event stream routes
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import Fastify, { FastifyInstance } from 'fastify';
+import websocket from '@fastify/websocket';
+import { config } from '../../../src/config';
+import { eventRoutes } from '../../../src/routes/events';
+import { EventStreamHub } from '../../../src/services/EventStreamHub';
+import { errorHandler } from '../../../src/utils/errorHandler';
+import { createStreamToken } from '../../../src/utils/streamToken';
+import { WebhookEvent, WebhookPayload } from '../../../src/types';
+
+describe('Event stream routes', () => {
+  let server: FastifyInstance;
+  let hub: EventStreamHub;
+
+  const headers = { authorization: `Bearer ${config.apiKey}` };
+
+  function payload(id: string, event: WebhookEvent = 'message', instanceId = 'bot-1'): WebhookPayload {
+    return { id, event, instanceId, timestamp: 1, data: { text: id } };
+  }
+
+  // SSE frames as { field: value } objects, comments and blank lines dropped
+  function parseFrames(body: string): Record<string, string>[] {
+    return body
+      .split('\n\n')
+      .filter((frame) => frame.trim().length > 0)
+      .map((frame) =>
+        Object.fromEntries(
+          frame
+            .split('\n')
+            .filter((line) => !line.startsWith(':'))
+            .map((line) => {
+              const index = line.indexOf(': ');
+              return [line.slice(0, index), line.slice(index + 2)];
+            })
+        )
+      );
+  }
+
+  /**
+   * Open a stream, publish events once it is subscribed and return the response
+   * after the server closed it
+   */
+  async function stream(url: string, events: WebhookPayload[] = [], extraHeaders = {}) {
+    const response = server.inject({ method: 'GET', url, headers: { ...headers, ...extraHeaders } });
+    await vi.waitFor(() => expect(hub.getSubscriberCount()).toBe(1));
+
+    events.forEach((event) => hub.publish(event));
+    await server.close();
+
+    return response;
+  }
+
+  beforeEach(async () => {
+    hub = new EventStreamHub({ bufferSize: 10 });
+
+    server = Fastify();
+    await server.register(websocket);
+    server.setErrorHandler((error, request, reply) => {
+      errorHandler(error as Error, request, reply);
+    });
+    server.decorate('instanceManager', {
+      getInstance: (instanceId: string) => (instanceId === 'bot-1' ? { instanceId } : null),
+    });
+    server.decorate('eventStreamHub', hub);
+    await server.register(eventRoutes);
+    await server.ready();
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  describe('GET /instances/:id/events/stream', () => {
+    it('should send event stream headers and a retry hint', async () => {
+      const response = await stream('/instances/bot-1/events/stream');
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['content-type']).toBe('text/event-stream; charset=utf-8');
+      expect(response.headers['cache-control']).toBe('no-cache');
+      expect(response.headers['x-accel-buffering']).toBe('no');
+      expect(response.body.startsWith('retry: 3000\n\n')).toBe(true);
+    });
+
+    it('should frame each event with id, event and data', async () => {
+      const response = await stream('/instances/bot-1/events/stream', [payload('evt-1'), payload('evt-2', 'qr')]);
+
+      expect(response.body).toContain(`id: evt-1\nevent: message\ndata: ${JSON.stringify(payload('evt-1'))}\n\n`);
+      expect(parseFrames(response.body).slice(1)).toEqual([
+        { id: 'evt-1', event: 'message', data: JSON.stringify(payload('evt-1')) },
+        { id: 'evt-2', event: 'qr', data: JSON.stringify(payload('evt-2', 'qr')) },
+      ]);
+    });
+
+    it('should only send the events listed in ?events=', async () => {
+      const response = await stream('/instances/bot-1/events/stream?events=qr,connection', [
+        payload('evt-1'),
+        payload('evt-2', 'qr'),
+        payload('evt-3', 'connection'),
+      ]);
+
+      expect(parseFrames(response.body).map((frame) => frame.id).filter(Boolean)).toEqual(['evt-2', 'evt-3']);
+    });
+
+    it('should not send events of other instances', async () => {
+      const response = await stream('/instances/bot-1/events/stream', [
+        payload('evt-1', 'message', 'bot-2'),
+        payload('evt-2'),
+      ]);
+
+      expect(parseFrames(response.body).map((frame) => frame.id).filter(Boolean)).toEqual(['evt-2']);
+    });
+
+    it('should replay events after Last-Event-ID before live events', async () => {
+      hub.publish(payload('evt-1'));
+      hub.publish(payload('evt-2', 'qr'));
+      hub.publish(payload('evt-3'));
+
+      const response = await stream('/instances/bot-1/events/stream?events=message', [payload('evt-4')], {
+        'last-event-id': 'evt-1',
+      });
+
+      expect(parseFrames(response.body).map((frame) => frame.id).filter(Boolean)).toEqual(['evt-3', 'evt-4']);
+    });
+
+    it('should send resume_failed for an unknown Last-Event-ID', async () => {
+      const response = await stream('/instances/bot-1/events/stream', [], { 'last-event-id': 'evt-gone' });
+
+      expect(parseFrames(response.body)[1]).toEqual({
+        event: 'resume_failed',
+        data: JSON.stringify({ lastEventId: 'evt-gone' }),
+      });
+    });
+
+    it('should accept a stream token instead of the API key header', async () => {
+      const token = createStreamToken({ instanceId: 'bot-1', expiresAt: Date.now() + 60000 }, config.apiKey);
+      const response = server.inject({ method: 'GET', url: `/instances/bot-1/events/stream?token=${token}` });
+      await vi.waitFor(() => expect(hub.getSubscriberCount()).toBe(1));
+      await server.close();
+
+      expect((await response).statusCode).toBe(200);
+    });
+
+    it('should require authentication', async () => {
+      const response = await server.inject({ method: 'GET', url: '/instances/bot-1/events/stream' });
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should return 404 for an unknown instance', async () => {
+      const response = await server.inject({ method: 'GET', url: '/instances/bot-2/events/stream', headers });
+
+      expect(response.statusCode).toBe(404);
+    });
+
+    it('should return 400 for unknown event names', async () => {
+      const response = await server.inject({
+        method: 'GET',
+        url: '/instances/bot-1/events/stream?events=message,nope',
+        headers,
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should end open streams when the server closes', async () => {
+      await server.listen({ port: 0, host: '127.0.0.1' });
+      const { port } = server.server.address() as AddressInfo;
+
+      const ended = new Promise<void>((resolve, reject) => {
+        http
+          .get({ port, host: '127.0.0.1', path: '/instances/bot-1/events/stream', headers }, (res) => {
+            res.resume();
+            res.on('end', resolve);
+          })
+          .on('error', reject);
+      });
+      await vi.waitFor(() => expect(hub.getSubscriberCount()).toBe(1));
+
+      await server.close();
+      await ended;
+
+      expect(hub.getSubscriberCount()).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Unit tests for messaging routes
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { config } from '../../../src/config';
+import { messagingRoutes } from '../../../src/routes/messaging';
+import { registerSchemas } from '../../../src/schemas';
+import { MessageStatusStore } from '../../../src/services/MessageStatusStore';
+import { errorHandler } from '../../../src/utils/errorHandler';
+
+describe('Messaging routes', () => {
+  let server: FastifyInstance;
+  let statuses: MessageStatusStore;
+  let client: { sendText: ReturnType<typeof vi.fn> };
+
+  const headers = { authorization: `Bearer ${config.apiKey}` };
+
+  beforeEach(async () => {
+    statuses = new MessageStatusStore();
+    client = { sendText: vi.fn().mockResolvedValue({ success: true, messageId: 'msg-1' }) };
+
+    server = Fastify();
+    registerSchemas(server);
+    server.setErrorHandler((error, request, reply) => {
+      errorHandler(error as Error, request, reply);
+    });
+    // Instance manager stand-in backed by a real status store
+    server.decorate('instanceManager', {
+      getInstance: (instanceId: string) => (instanceId === 'bot-1' ? { instanceId, status: 'connected' } : null),
+      getClient: (instanceId: string) => (instanceId === 'bot-1' ? client : null),
+      getMessageStatus: (instanceId: string, messageId: string) => statuses.get(instanceId, messageId),
+      recordSentMessage: (instanceId: string, messageId: string, to: string) =>
+        statuses.apply(instanceId, { messageId, chatId: to, status: 'sent', timestamp: 1000 }),
+    });
+    await server.register(messagingRoutes);
+    await server.ready();
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  describe('GET /instances/:id/messages/:messageId/status', () => {
+    function getStatus(messageId: string, instanceId = 'bot-1') {
+      return server.inject({ method: 'GET', url: `/instances/${instanceId}/messages/${messageId}/status`, headers });
+    }
+
+    it('should return the sent status right after a send', async () => {
+      const sent = await server.inject({
+        method: 'POST',
+        url: '/instances/bot-1/send-text',
+        headers,
+        payload: { to: '6281234567890', text: 'Hello' },
+      });
+      expect(sent.statusCode).toBe(200);
+
+      const response = await getStatus('msg-1');
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().data).toMatchObject({ messageId: 'msg-1', status: 'sent', sentAt: 1000 });
+    });
+
+    it('should return the receipts of each group participant', async () => {
+      const chatId = '120363000000000000@g.us';
+      statuses.apply('bot-1', { messageId: 'msg-2', chatId, status: 'sent', timestamp: 1000 });
+      statuses.apply('bot-1', {
+        messageId: 'msg-2',
+        chatId,
+        status: 'delivered',
+        participant: 'alice@s.whatsapp.net',
+        timestamp: 2000,
+      });
+      statuses.apply('bot-1', {
+        messageId: 'msg-2',
+        chatId,
+        status: 'read',
+        participant: 'alice@s.whatsapp.net',
+        timestamp: 3000,
+      });
+      statuses.apply('bot-1', {
+        messageId: 'msg-2',
+        chatId,
+        status: 'delivered',
+        participant: 'bob@s.whatsapp.net',
+        timestamp: 2500,
+      });
+
+      const response = await getStatus('msg-2');
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().data).toEqual({
+        messageId: 'msg-2',
+        chatId,
+        status: 'sent',
+        sentAt: 1000,
+        participants: {
+          'alice@s.whatsapp.net': { deliveredAt: 2000, readAt: 3000 },
+          'bob@s.whatsapp.net': { deliveredAt: 2500 },
+        },
+        updatedAt: 2500,
+      });
+    });
+
+    it('should return 404 for a message without a known status', async () => {
+      const response = await getStatus('msg-unknown');
+
+      expect(response.statusCode).toBe(404);
+      expect(response.json().error.message).toContain('Message status');
+    });
+
+    it('should return 404 for an unknown instance', async () => {
+      const response = await getStatus('msg-1', 'bot-2');
+
+      expect(response.statusCode).toBe(404);
+      expect(response.json().error.message).toContain('Instance');
+    });
+
+    it('should require authentication', async () => {
+      const response = await server.inject({ method: 'GET', url: '/instances/bot-1/messages/msg-1/status' });
+
+      expect(response.statusCode).toBe(401);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Unit tests for webhook management routes
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { config } from '../../../src/config';
+import { webhookRoutes } from '../../../src/routes/webhooks';
+import { registerSchemas } from '../../../src/schemas';
+import { WebhookDispatcher } from '../../../src/services/WebhookDispatcher';
+import { DeadLetter, WebhookDeadLetterStore } from '../../../src/services/WebhookDeadLetterStore';
+import { errorHandler } from '../../../src/utils/errorHandler';
+
+describe('Webhook routes', () => {
+  let server: FastifyInstance;
+  let deadLetters: WebhookDeadLetterStore;
+  let dispatcher: WebhookDispatcher;
+
+  const headers = { authorization: `Bearer ${config.apiKey}` };
+
+  function payload(id: string) {
+    return { id, event: 'message', instanceId: 'bot-1', timestamp: 1, data: { text: id } };
+  }
+
+  function createDeadLetter(overrides: Partial<DeadLetter> = {}): DeadLetter {
+    return {
+      id: 'delivery-1',
+      instanceId: 'bot-1',
+      event: 'message',
+      url: 'https://example.com/webhook',
+      payload: payload('evt-1'),
+      attempts: 3,
+      lastStatusCode: 500,
+      lastError: 'HTTP 500',
+      failedAt: 1000,
+      ...overrides,
+    };
+  }
+
+  beforeEach(async () => {
+    deadLetters = new WebhookDeadLetterStore();
+    dispatcher = new WebhookDispatcher({
+      secret: 'test-webhook-secret',
+      timeout: 5000,
+      maxRetries: 3,
+      retryDelay: 1000,
+      deadLetters,
+    });
+
+    server = Fastify();
+    registerSchemas(server);
+    server.setErrorHandler((error, request, reply) => {
+      errorHandler(error as Error, request, reply);
+    });
+    server.decorate('instanceManager', {
+      getInstance: (instanceId: string) => (instanceId === 'bot-1' ? { instanceId } : null),
+    });
+    server.decorate('webhookDispatcher', dispatcher);
+    await server.register(webhookRoutes);
+    await server.ready();
+  });
+
+  afterEach(async () => {
+    await server.close();
+    dispatcher.dispose();
+  });
+
+  describe('GET /instances/:id/webhook/dead-letters/:deliveryId', () => {
+    it('should return a single payload as an object', async () => {
+      deadLetters.add(createDeadLetter());
+
+      const response = await server.inject({
+        method: 'GET',
+        url: '/instances/bot-1/webhook/dead-letters/delivery-1',
+        headers,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().data).toMatchObject({
+        id: 'delivery-1',
+        attempts: 3,
+        lastError: 'HTTP 500',
+        payload: payload('evt-1'),
+      });
+    });
+
+    it('should return the payloads of a batched delivery as an array', async () => {
+      deadLetters.add(createDeadLetter({ event: 'batch', payload: [payload('evt-1'), payload('evt-2')] }));
+
+      const response = await server.inject({
+        method: 'GET',
+        url: '/instances/bot-1/webhook/dead-letters/delivery-1',
+        headers,
+      });
+
+      expect(response.statusCode).toBe(200);
+      const { data } = response.json();
+      expect(data.event).toBe('batch');
+      expect(data.payload).toEqual([payload('evt-1'), payload('evt-2')]);
+    });
+
+    it('should return 404 for a dead letter of another instance', async () => {
+      deadLetters.add(createDeadLetter({ instanceId: 'bot-2' }));
+
+      const response = await server.inject({
+        method: 'GET',
+        url: '/instances/bot-1/webhook/dead-letters/delivery-1',
+        headers,
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+
+    it('should require authentication', async () => {
+      const response = await server.inject({
+        method: 'GET',
+        url: '/instances/bot-1/webhook/dead-letters/delivery-1',
+      });
+
+      expect(response.statusCode).toBe(401);
+    });
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Unit tests for EventSinkManager
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { EventSinkManager, EventSinkWriter } from '../../../src/services/EventSinkManager';
+import { EventSink, WebhookPayload } from '../../../src/types';
+
+function createPayload(id: string): WebhookPayload {
+  return { id, event: 'message', instanceId: 'i1', timestamp: 1, data: { text: id } };
+}
+
+function createSink(id = 'sink-1', overrides: Partial<EventSink> = {}): EventSink {
+  return {
+    id,
+    type: 'jsonl_file',
+    events: [],
+    enabled: true,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+/**
+ * Writer whose writes complete when resolved by the test
+ */
+function createControlledWriter() {
+  const written: string[] = [];
+  const pending: Array<() => void> = [];
+  const writer: EventSinkWriter = {
+    write: vi.fn(
+      (payload: WebhookPayload) =>
+        new Promise<void>((resolve) => {
+          pending.push(() => {
+            written.push(payload.id);
+            resolve();
+          });
+        })
+    ),
+    close: vi.fn(async () => {}),
+  };
+  const flush = async () => {
+    while (pending.length > 0) {
+      pending.shift()!();
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+  };
+  return { writer, written, flush };
+}
+
+describe('EventSinkManager', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'miaw-sinks-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('write()', () => {
+    it('should write events of a sink in order, one at a time', async () => {
+      const { writer, written, flush } = createControlledWriter();
+      const manager = new EventSinkManager({ fileDir: tmpDir, createWriter: () => writer });
+
+      manager.write('i1', createSink(), createPayload('a'));
+      manager.write('i1', createSink(), createPayload('b'));
+      await new Promise((resolve) => setImmediate(resolve));
+
+      // Second write waits for the first
+      expect(writer.write).toHaveBeenCalledTimes(1);
+
+      await flush();
+      expect(written).toEqual(['a', 'b']);
+    });
+
+    it('should create one writer per sink', () => {
+      const createWriter = vi.fn(() => createControlledWriter().writer);
+      const manager = new EventSinkManager({ fileDir: tmpDir, createWriter });
+
+      manager.write('i1', createSink('s1'), createPayload('a'));
+      manager.write('i1', createSink('s1'), createPayload('b'));
+      manager.write('i1', createSink('s2'), createPayload('c'));
+
+      expect(createWriter).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep writing after a failed write', async () => {
+      const writer: EventSinkWriter = {
+        write: vi.fn().mockRejectedValueOnce(new Error('broker down')).mockResolvedValue(undefined),
+        close: vi.fn(async () => {}),
+      };
+      const manager = new EventSinkManager({ fileDir: tmpDir, createWriter: () => writer });
+
+      manager.write('i1', createSink(), createPayload('a'));
+      manager.write('i1', createSink(), createPayload('b'));
+      await manager.close('sink-1');
+
+      expect(writer.write).toHaveBeenCalledTimes(2);
+    });
+
+    it('should drop events once the backlog is full', async () => {
+      const { writer, written, flush } = createControlledWriter();
+      const manager = new EventSinkManager({
+        fileDir: tmpDir,
+        maxPendingWrites: 2,
+        createWriter: () => writer,
+      });
+
+      manager.write('i1', createSink(), createPayload('a'));
+      manager.write('i1', createSink(), createPayload('b'));
+      manager.write('i1', createSink(), createPayload('c'));
+      await flush();
+      await flush();
+
+      expect(written).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('close()', () => {
+    it('should close the writer after pending writes', async () => {
+      const { writer, written, flush } = createControlledWriter();
+      const manager = new EventSinkManager({ fileDir: tmpDir, createWriter: () => writer });
+
+      manager.write('i1', createSink(), createPayload('a'));
+      const closed = manager.close('sink-1');
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(writer.close).not.toHaveBeenCalled();
+
+      await flush();
+      await closed;
+      expect(written).toEqual(['a']);
+      expect(writer.close).toHaveBeenCalledTimes(1);
+    });
+
+    it('should create a new writer when a closed sink is written again', async () => {
+      const createWriter = vi.fn(
+        (): EventSinkWriter => ({ write: vi.fn(async () => {}), close: vi.fn(async () => {}) })
+      );
+      const manager = new EventSinkManager({ fileDir: tmpDir, createWriter });
+
+      manager.write('i1', createSink(), createPayload('a'));
+      await manager.close('sink-1');
+      manager.write('i1', createSink(), createPayload('b'));
+
+      expect(createWriter).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('JSONL file sinks', () => {
+    it('should append one payload per line', async () => {
+      const manager = new EventSinkManager({ fileDir: path.join(tmpDir, 'events') });
+      const sink = createSink('s1', { file: { fileName: 'bot.jsonl' } });
+
+      manager.write('i1', sink, createPayload('a'));
+      manager.write('i1', sink, createPayload('b'));
+      await manager.dispose();
+
+      const lines = fs.readFileSync(path.join(tmpDir, 'events', 'bot.jsonl'), 'utf-8').trim().split('\n');
+      expect(lines.map((line) => JSON.parse(line).id)).toEqual(['a', 'b']);
+    });
+
+    it('should name the file after the instance by default', () => {
+      const manager = new EventSinkManager({ fileDir: tmpDir });
+
+      expect(manager.resolveFilePath('my-bot')).toBe(path.join(tmpDir, 'my-bot.jsonl'));
+    });
+
+    it('should reject file names outside the sink directory', () => {
+      const manager = new EventSinkManager({ fileDir: tmpDir });
+
+      expect(() => manager.resolveFilePath('i1', { fileName: '../escape.jsonl' })).toThrow('Invalid sink file name');
+      expect(() => manager.resolveFilePath('i1', { fileName: '.hidden' })).toThrow('Invalid sink file name');
+    });
+  });
+});
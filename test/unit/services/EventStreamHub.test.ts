@@ -0,0 +1,73 @@
+/**
+ * Unit tests for EventStreamHub
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { EventStreamHub } from '../../../src/services/EventStreamHub';
+import { WebhookEvent, WebhookPayload } from '../../../src/types';
+
+function createPayload(id: string, event: WebhookEvent = 'message', instanceId = 'i1'): WebhookPayload {
+  return { id, event, instanceId, timestamp: 1, data: {} };
+}
+
+describe('EventStreamHub', () => {
+  let hub: EventStreamHub;
+
+  beforeEach(() => {
+    hub = new EventStreamHub({ bufferSize: 3 });
+  });
+
+  describe('subscribe()', () => {
+    it('should deliver events matching instance and event filter', () => {
+      const listener = vi.fn();
+      hub.subscribe({ instanceId: 'i1', events: ['message'] }, listener);
+
+      hub.publish(createPayload('a'));
+      hub.publish(createPayload('b', 'qr'));
+      hub.publish(createPayload('c', 'message', 'i2'));
+
+      expect(listener.mock.calls.map(([payload]) => payload.id)).toEqual(['a']);
+    });
+
+    it('should deliver all events to server-wide subscribers', () => {
+      const listener = vi.fn();
+      hub.subscribe({}, listener);
+
+      hub.publish(createPayload('a'));
+      hub.publish(createPayload('b', 'qr', 'i2'));
+
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop delivering after unsubscribe', () => {
+      const listener = vi.fn();
+      const unsubscribe = hub.subscribe({}, listener);
+
+      unsubscribe();
+      hub.publish(createPayload('a'));
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(hub.getSubscriberCount()).toBe(0);
+    });
+  });
+
+  describe('replay()', () => {
+    it('should return matching events after the last event ID', () => {
+      hub.publish(createPayload('a'));
+      hub.publish(createPayload('b', 'qr'));
+      hub.publish(createPayload('c'));
+
+      expect(hub.replay('a', { events: ['message'] })!.map((p) => p.id)).toEqual(['c']);
+      expect(hub.replay('c', {})).toEqual([]);
+    });
+
+    it('should return null for IDs no longer in the buffer', () => {
+      for (const id of ['a', 'b', 'c', 'd']) {
+        hub.publish(createPayload(id));
+      }
+
+      expect(hub.replay('a', {})).toBeNull();
+      expect(hub.replay('b', {})!.map((p) => p.id)).toEqual(['c', 'd']);
+    });
+  });
+});
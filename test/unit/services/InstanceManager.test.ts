@@ -0,0 +1,915 @@
+/**
+ * Unit tests for InstanceManager service
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { EventEmitter } from 'events';
+import { InstanceManager } from '../../../src/services/InstanceManager';
+import { InstanceRegistry } from '../../../src/services/InstanceRegistry';
+import { InstanceRecord } from '../../../src/types';
+
+const mocks = vi.hoisted(() => ({
+  clients: [] as any[],
+  connectError: undefined as Error | undefined,
+  pairingCode: undefined as string | undefined,
+}));
+const { clients } = mocks;
+
+// MiawClient stand-in: an event emitter with the methods InstanceManager calls
+vi.mock('miaw-core', async () => {
+  const { EventEmitter } = await import('events');
+
+  class MiawClient extends EventEmitter {
+    options: any;
+    connect = vi.fn(async () => {
+      if (mocks.connectError) throw mocks.connectError;
+      // miaw-core requests the pairing code of a fresh session in the background
+      if (this.options.usePairingCode && mocks.pairingCode !== undefined) {
+        Promise.resolve().then(() => this.emit('pairing_code', mocks.pairingCode));
+      }
+    });
+    disconnect = vi.fn().mockResolvedValue(undefined);
+    dispose = vi.fn().mockResolvedValue(undefined);
+    getChatsByLabel = vi.fn().mockReturnValue([]);
+
+    constructor(options: any) {
+      super();
+      this.options = options;
+      clients.push(this);
+    }
+  }
+
+  return { MiawClient };
+});
+
+describe('InstanceManager', () => {
+  let manager: InstanceManager;
+
+  function createManager(registry?: InstanceRegistry): InstanceManager {
+    return new InstanceManager({
+      sessionPath: './sessions',
+      webhookSecret: 'server-secret',
+      webhookTimeout: 5000,
+      webhookMaxRetries: 3,
+      webhookRetryDelay: 1000,
+      registry,
+    });
+  }
+
+  function createRegistry(records: InstanceRecord[] = []) {
+    return {
+      load: vi.fn(() => records),
+      save: vi.fn(),
+      remove: vi.fn(),
+    };
+  }
+
+  function createRecord(overrides: Partial<InstanceRecord> = {}): InstanceRecord {
+    return {
+      instanceId: 'bot-1',
+      webhookUrl: 'https://example.com/webhook',
+      webhookEvents: ['message'],
+      webhookEnabled: true,
+      desiredState: 'disconnected',
+      createdAt: '2025-01-01T00:00:00.000Z',
+      updatedAt: '2025-01-01T00:00:00.000Z',
+      ...overrides,
+    };
+  }
+
+  function lastClient(): any {
+    return clients[clients.length - 1];
+  }
+
+  beforeEach(() => {
+    clients.length = 0;
+    mocks.connectError = undefined;
+    mocks.pairingCode = undefined;
+    manager = createManager();
+  });
+
+  afterEach(async () => {
+    await manager.dispose();
+  });
+
+  describe('restoreInstances()', () => {
+    it('should return nothing without a registry', async () => {
+      expect(await manager.restoreInstances()).toEqual([]);
+    });
+
+    it('should recreate every instance with its webhook configuration', async () => {
+      const registry = createRegistry([
+        createRecord(),
+        createRecord({ instanceId: 'bot-2', webhookUrl: undefined, webhookEnabled: false }),
+      ]);
+      manager = createManager(registry as unknown as InstanceRegistry);
+
+      const restored = await manager.restoreInstances();
+
+      expect(restored.map((state) => state.instanceId)).toEqual(['bot-1', 'bot-2']);
+      expect(manager.getInstance('bot-1')).toMatchObject({
+        status: 'disconnected',
+        webhookUrl: 'https://example.com/webhook',
+        webhookEvents: ['message'],
+        webhookEnabled: true,
+      });
+      expect(manager.getInstance('bot-1')?.createdAt.toISOString()).toBe('2025-01-01T00:00:00.000Z');
+      expect(manager.getInstance('bot-2')?.webhookEnabled).toBe(false);
+    });
+
+    it('should reconnect only instances that were connected before shutdown', async () => {
+      const registry = createRegistry([
+        createRecord({ instanceId: 'bot-1', desiredState: 'connected' }),
+        createRecord({ instanceId: 'bot-2', desiredState: 'disconnected' }),
+      ]);
+      manager = createManager(registry as unknown as InstanceRegistry);
+
+      await manager.restoreInstances();
+
+      const [connected, disconnected] = clients;
+      expect(connected.options.instanceId).toBe('bot-1');
+      expect(connected.connect).toHaveBeenCalledTimes(1);
+      expect(disconnected.options.instanceId).toBe('bot-2');
+      expect(disconnected.connect).not.toHaveBeenCalled();
+    });
+
+    it('should keep restoring when a reconnect fails', async () => {
+      const registry = createRegistry([createRecord({ desiredState: 'connected' })]);
+      manager = createManager(registry as unknown as InstanceRegistry);
+
+      mocks.connectError = new Error('Session expired');
+
+      await expect(manager.restoreInstances()).resolves.toHaveLength(1);
+      expect(lastClient().connect).toHaveBeenCalled();
+    });
+
+    it('should skip instances that already exist', async () => {
+      await manager.createInstance({ instanceId: 'bot-1' });
+      const registry = createRegistry([createRecord({ desiredState: 'connected' })]);
+      (manager as any).options.registry = registry;
+
+      const restored = await manager.restoreInstances();
+
+      expect(restored).toEqual([]);
+      expect(clients).toHaveLength(1);
+      expect(lastClient().connect).not.toHaveBeenCalled();
+    });
+
+    it('should not write the registry while restoring', async () => {
+      const registry = createRegistry([createRecord()]);
+      manager = createManager(registry as unknown as InstanceRegistry);
+
+      await manager.restoreInstances();
+
+      expect(registry.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateInstance()', () => {
+    beforeEach(async () => {
+      await manager.createInstance({
+        instanceId: 'bot-1',
+        webhookUrl: 'https://example.com/webhook',
+        webhookEvents: ['message'],
+        webhookSecret: 'instance-secret',
+      });
+    });
+
+    it('should throw for unknown instance', () => {
+      expect(() => manager.updateInstance('missing', { webhookEnabled: false })).toThrow(
+        'Instance missing not found'
+      );
+    });
+
+    it('should leave fields that are not in the update untouched', () => {
+      const state = manager.updateInstance('bot-1', { webhookEvents: ['qr', 'ready'] });
+
+      expect(state).toMatchObject({
+        webhookUrl: 'https://example.com/webhook',
+        webhookEvents: ['qr', 'ready'],
+        webhookEnabled: true,
+        hasWebhookSecret: true,
+      });
+      expect(manager.getWebhookCredentials('bot-1')?.secret).toBe('instance-secret');
+    });
+
+    it('should keep the events when only the URL changes', () => {
+      const state = manager.updateInstance('bot-1', { webhookUrl: 'https://example.com/other' });
+
+      expect(state.webhookUrl).toBe('https://example.com/other');
+      expect(state.webhookEvents).toEqual(['message']);
+      expect(state.webhookEnabled).toBe(true);
+    });
+
+    it('should disable the webhook when the URL is cleared', () => {
+      const state = manager.updateInstance('bot-1', { webhookUrl: null });
+
+      expect(state.webhookUrl).toBeUndefined();
+      expect(state.webhookEnabled).toBe(false);
+    });
+
+    it('should enable the webhook when the first URL is set', async () => {
+      await manager.createInstance({ instanceId: 'bot-2' });
+
+      const state = manager.updateInstance('bot-2', { webhookUrl: 'https://example.com/webhook' });
+
+      expect(state.webhookEnabled).toBe(true);
+    });
+
+    it('should reject enabling the webhook without a URL', () => {
+      expect(() => manager.updateInstance('bot-1', { webhookUrl: null, webhookEnabled: true })).toThrow(
+        'Cannot enable webhook without a webhook URL'
+      );
+      expect(manager.getInstance('bot-1')?.webhookUrl).toBe('https://example.com/webhook');
+    });
+
+    it('should clear the secret with null', () => {
+      const state = manager.updateInstance('bot-1', { webhookSecret: null });
+
+      expect(state.hasWebhookSecret).toBe(false);
+      expect(manager.getWebhookCredentials('bot-1')?.secret).toBeUndefined();
+    });
+
+    it('should persist the merged configuration', async () => {
+      const registry = createRegistry();
+      manager = createManager(registry as unknown as InstanceRegistry);
+      await manager.createInstance({ instanceId: 'bot-1', webhookUrl: 'https://example.com/webhook' });
+
+      manager.updateInstance('bot-1', { webhookEnabled: false });
+
+      expect(registry.save).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          instanceId: 'bot-1',
+          webhookUrl: 'https://example.com/webhook',
+          webhookEnabled: false,
+        })
+      );
+    });
+  });
+
+  describe('requestPairingCode()', () => {
+    beforeEach(async () => {
+      await manager.createInstance({ instanceId: 'bot-1', webhookUrl: 'https://example.com/webhook' });
+    });
+
+    it('should throw for unknown instance', async () => {
+      await expect(manager.requestPairingCode('missing', '6281234567890')).rejects.toThrow(
+        'Instance missing not found'
+      );
+    });
+
+    it('should reject an instance that is already connected', async () => {
+      lastClient().emit('connection', 'connected');
+
+      await expect(manager.requestPairingCode('bot-1', '6281234567890')).rejects.toThrow(
+        'Instance bot-1 is already connected'
+      );
+    });
+
+    it('should connect a pairing code client for the digits of the number and return its code', async () => {
+      const previous = lastClient();
+      mocks.pairingCode = 'ABCD1234';
+
+      const pairingCode = await manager.requestPairingCode('bot-1', '+62 812-3456-7890');
+
+      expect(pairingCode).toBe('ABCD1234');
+      expect(previous.dispose).toHaveBeenCalled();
+      expect(manager.getClient('bot-1')).toBe(lastClient());
+      expect(lastClient().options).toMatchObject({ usePairingCode: true, phoneNumber: '6281234567890' });
+      expect(lastClient().connect).toHaveBeenCalledTimes(1);
+      expect(manager.getInstance('bot-1')).toMatchObject({
+        pendingLogin: 'pairing_code',
+        pairingCode: 'ABCD1234',
+        pairingPhoneNumber: '6281234567890',
+      });
+    });
+
+    it('should emit a pairing_code webhook for every code of the client', async () => {
+      mocks.pairingCode = 'ABCD1234';
+      const webhook = vi.fn();
+      manager.on('webhook', webhook);
+
+      await manager.requestPairingCode('bot-1', '6281234567890');
+      // miaw-core requests a new code when the connection restarts before the device is linked
+      lastClient().emit('pairing_code', 'WXYZ5678');
+
+      const pairing = webhook.mock.calls.filter(([, payload]) => payload.event === 'pairing_code');
+      expect(pairing.map(([url]) => url)).toEqual(['https://example.com/webhook', 'https://example.com/webhook']);
+      expect(pairing.map(([, payload]) => payload.data)).toEqual([
+        { pairingCode: 'ABCD1234', phoneNumber: '6281234567890' },
+        { pairingCode: 'WXYZ5678', phoneNumber: '6281234567890' },
+      ]);
+      expect(manager.getInstance('bot-1')?.pairingCode).toBe('WXYZ5678');
+    });
+
+    it('should not emit events of the replaced client', async () => {
+      const previous = lastClient();
+      mocks.pairingCode = 'ABCD1234';
+      const webhook = vi.fn();
+      manager.on('webhook', webhook);
+
+      await manager.requestPairingCode('bot-1', '6281234567890');
+      previous.emit('qr', 'qr-1');
+
+      expect(webhook.mock.calls.some(([, payload]) => payload.event === 'qr')).toBe(false);
+    });
+
+    it('should go back to QR login when no pairing code arrives in time', async () => {
+      vi.useFakeTimers();
+      try {
+        const pairing = manager.requestPairingCode('bot-1', '6281234567890');
+        const failed = expect(pairing).rejects.toThrow('Timed out waiting for a pairing code from WhatsApp');
+        const pairingClient = lastClient();
+
+        await vi.advanceTimersByTimeAsync(30000);
+        await failed;
+
+        expect(pairingClient.dispose).toHaveBeenCalled();
+        expect(manager.getClient('bot-1')).toBe(lastClient());
+        expect(lastClient().options.usePairingCode).toBeUndefined();
+        expect(manager.getInstance('bot-1')).toMatchObject({
+          status: 'disconnected',
+          pendingLogin: undefined,
+          pairingCode: undefined,
+          pairingPhoneNumber: undefined,
+        });
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should go back to QR login when connecting fails', async () => {
+      mocks.connectError = new Error('Connection failure');
+
+      await expect(manager.requestPairingCode('bot-1', '6281234567890')).rejects.toThrow('Connection failure');
+      expect(lastClient().options.usePairingCode).toBeUndefined();
+      expect(manager.getInstance('bot-1')).toMatchObject({ pendingLogin: undefined, pairingPhoneNumber: undefined });
+    });
+
+    it('should fail when WhatsApp returns no code', async () => {
+      mocks.pairingCode = '';
+      const webhook = vi.fn();
+      manager.on('webhook', webhook);
+
+      await expect(manager.requestPairingCode('bot-1', '6281234567890')).rejects.toThrow(
+        'WhatsApp did not return a pairing code'
+      );
+      expect(manager.getInstance('bot-1')).toMatchObject({ pendingLogin: undefined, pairingPhoneNumber: undefined });
+      expect(webhook.mock.calls.some(([, payload]) => payload.event === 'pairing_code')).toBe(false);
+    });
+
+    it('should leave an instance that was deleted meanwhile alone', async () => {
+      vi.useFakeTimers();
+      try {
+        const pairing = manager.requestPairingCode('bot-1', '6281234567890');
+        const failed = expect(pairing).rejects.toThrow('Timed out');
+        await manager.deleteInstance('bot-1');
+        const created = clients.length;
+
+        await vi.advanceTimersByTimeAsync(30000);
+        await failed;
+
+        expect(clients).toHaveLength(created);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe('resetPairingLogin()', () => {
+    beforeEach(async () => {
+      await manager.createInstance({ instanceId: 'bot-1' });
+      mocks.pairingCode = 'ABCD1234';
+      await manager.requestPairingCode('bot-1', '6281234567890');
+    });
+
+    it('should replace the pairing code client with a QR login client', async () => {
+      const pairingClient = lastClient();
+
+      await manager.resetPairingLogin('bot-1');
+
+      expect(pairingClient.dispose).toHaveBeenCalled();
+      expect(manager.getClient('bot-1')).toBe(lastClient());
+      expect(lastClient().options.usePairingCode).toBeUndefined();
+      expect(manager.getInstance('bot-1')).toMatchObject({ pendingLogin: undefined, pairingCode: undefined });
+    });
+
+    it('should keep a connected client', async () => {
+      const pairingClient = lastClient();
+      pairingClient.emit('connection', 'connected');
+
+      await manager.resetPairingLogin('bot-1');
+
+      expect(manager.getClient('bot-1')).toBe(pairingClient);
+      expect(pairingClient.dispose).not.toHaveBeenCalled();
+    });
+
+    it('should keep a QR login client', async () => {
+      await manager.resetPairingLogin('bot-1');
+      const client = lastClient();
+
+      await manager.resetPairingLogin('bot-1');
+
+      expect(manager.getClient('bot-1')).toBe(client);
+    });
+  });
+
+  describe('waitForState()', () => {
+    beforeEach(async () => {
+      vi.useFakeTimers();
+      await manager.createInstance({ instanceId: 'bot-1' });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should reject for unknown instance', async () => {
+      await expect(manager.waitForState('missing', 'connected', 1000)).rejects.toThrow(
+        'Instance missing not found'
+      );
+    });
+
+    it('should resolve at once when the instance is already in the state', async () => {
+      const result = await manager.waitForState('bot-1', 'disconnected', 1000);
+
+      expect(result).toEqual({ instanceId: 'bot-1', state: 'disconnected', reason: 'state_reached', waitedMs: 0 });
+    });
+
+    it('should resolve when the state is reached', async () => {
+      const waiting = manager.waitForState('bot-1', 'connected', 5000);
+
+      vi.advanceTimersByTime(1500);
+      lastClient().emit('connection', 'connecting');
+      lastClient().emit('connection', 'connected');
+
+      await expect(waiting).resolves.toMatchObject({
+        state: 'connected',
+        reason: 'state_reached',
+        waitedMs: 1500,
+      });
+    });
+
+    it('should resolve with the QR code when one arrives', async () => {
+      const waiting = manager.waitForState('bot-1', 'connected', 5000);
+
+      lastClient().emit('qr', 'qr-1');
+
+      await expect(waiting).resolves.toMatchObject({ state: 'qr_required', reason: 'qr', qr: 'qr-1' });
+    });
+
+    it('should keep waiting on QR codes during a pairing code login', async () => {
+      mocks.pairingCode = 'ABCD1234';
+      await manager.requestPairingCode('bot-1', '6281234567890');
+      const client = lastClient();
+
+      const waiting = manager.waitForState('bot-1', 'connected', 5000);
+      client.emit('qr', 'qr-2');
+      client.emit('connection', 'connected');
+
+      await expect(waiting).resolves.toMatchObject({ reason: 'state_reached' });
+    });
+
+    it('should resolve with the error of the client', async () => {
+      const waiting = manager.waitForState('bot-1', 'connected', 5000);
+
+      lastClient().emit('error', new Error('Connection failure'));
+
+      await expect(waiting).resolves.toMatchObject({ reason: 'error', error: 'Connection failure' });
+    });
+
+    it('should resolve when the instance is deleted', async () => {
+      const waiting = manager.waitForState('bot-1', 'connected', 5000);
+
+      await manager.deleteInstance('bot-1');
+
+      await expect(waiting).resolves.toMatchObject({ reason: 'deleted', state: 'disconnected' });
+    });
+
+    it('should resolve on timeout', async () => {
+      const waiting = manager.waitForState('bot-1', 'connected', 5000);
+
+      vi.advanceTimersByTime(5000);
+
+      await expect(waiting).resolves.toMatchObject({ state: 'disconnected', reason: 'timeout', waitedMs: 5000 });
+    });
+
+    it('should resolve when aborted', async () => {
+      const controller = new AbortController();
+      const waiting = manager.waitForState('bot-1', 'connected', 5000, controller.signal);
+
+      controller.abort();
+
+      await expect(waiting).resolves.toMatchObject({ reason: 'aborted' });
+    });
+
+    it('should ignore events of other instances', async () => {
+      await manager.createInstance({ instanceId: 'bot-2' });
+      const waiting = manager.waitForState('bot-1', 'connected', 5000);
+
+      lastClient().emit('connection', 'connected');
+      vi.advanceTimersByTime(5000);
+
+      await expect(waiting).resolves.toMatchObject({ reason: 'timeout' });
+    });
+
+    it('should remove its listeners and timer once finished', async () => {
+      const controller = new AbortController();
+      const removeAbort = vi.spyOn(controller.signal, 'removeEventListener');
+      const listeners = manager.listenerCount('lifecycle');
+      const timers = vi.getTimerCount();
+
+      const waiting = manager.waitForState('bot-1', 'connected', 5000, controller.signal);
+      expect(manager.listenerCount('lifecycle')).toBe(listeners + 1);
+      expect(vi.getTimerCount()).toBe(timers + 1);
+
+      lastClient().emit('connection', 'connected');
+      await waiting;
+
+      expect(manager.listenerCount('lifecycle')).toBe(listeners);
+      expect(removeAbort).toHaveBeenCalledWith('abort', expect.any(Function));
+      expect(vi.getTimerCount()).toBe(timers);
+    });
+  });
+
+  describe('webhook fan-out', () => {
+    let webhook: ReturnType<typeof vi.fn>;
+
+    beforeEach(async () => {
+      await manager.createInstance({
+        instanceId: 'bot-1',
+        webhookUrl: 'https://example.com/main',
+        webhookEvents: ['message'],
+      });
+      webhook = vi.fn();
+      manager.on('webhook', webhook);
+    });
+
+    function emitMessage(data: Record<string, unknown> = {}): void {
+      lastClient().emit('message', { id: 'msg-1', from: '6281234567890@s.whatsapp.net', fromMe: false, ...data });
+    }
+
+    function targets(): string[] {
+      return webhook.mock.calls.map(([url]) => url);
+    }
+
+    it('should send an event to the instance webhook and every matching subscription', () => {
+      const all = manager.addWebhook('bot-1', { url: 'https://example.com/all' });
+      const messages = manager.addWebhook('bot-1', { url: 'https://example.com/messages', events: ['message'] });
+
+      emitMessage();
+
+      expect(targets()).toEqual([
+        'https://example.com/main',
+        'https://example.com/all',
+        'https://example.com/messages',
+      ]);
+      const [[, mainPayload, mainOptions], [, allPayload, allOptions], [, , messagesOptions]] = webhook.mock.calls;
+      expect(mainOptions.subscriptionId).toBeUndefined();
+      expect(allOptions.subscriptionId).toBe(all.id);
+      expect(messagesOptions.subscriptionId).toBe(messages.id);
+      // One event, one payload ID for every destination
+      expect(allPayload).toBe(mainPayload);
+      expect(mainPayload).toMatchObject({ event: 'message', instanceId: 'bot-1', data: { id: 'msg-1' } });
+    });
+
+    it('should skip subscriptions to other events', () => {
+      manager.addWebhook('bot-1', { url: 'https://example.com/qr', events: ['qr'] });
+
+      emitMessage();
+
+      expect(targets()).toEqual(['https://example.com/main']);
+    });
+
+    it('should skip disabled subscriptions and a disabled instance webhook', () => {
+      manager.addWebhook('bot-1', { url: 'https://example.com/disabled', enabled: false });
+      manager.updateInstance('bot-1', { webhookEnabled: false });
+
+      emitMessage();
+
+      expect(webhook).not.toHaveBeenCalled();
+    });
+
+    it('should skip subscriptions whose filter does not match', () => {
+      manager.addWebhook('bot-1', {
+        url: 'https://example.com/incoming',
+        filter: { all: [{ field: 'data.fromMe', op: 'eq', value: false }] },
+      });
+      manager.addWebhook('bot-1', {
+        url: 'https://example.com/outgoing',
+        filter: { all: [{ field: 'data.fromMe', op: 'eq', value: true }] },
+      });
+
+      emitMessage({ fromMe: false });
+
+      expect(targets()).toEqual(['https://example.com/main', 'https://example.com/incoming']);
+    });
+
+    it('should look up chat labels only for label filters', () => {
+      const client = lastClient();
+      client.getChatsByLabel.mockImplementation((labelId: string) =>
+        labelId === 'vip' ? [{ jid: '6281234567890@s.whatsapp.net' }] : []
+      );
+      manager.addWebhook('bot-1', {
+        url: 'https://example.com/vip',
+        filter: { all: [{ field: 'chat.labels', op: 'contains', value: 'vip' }] },
+      });
+      manager.addWebhook('bot-1', {
+        url: 'https://example.com/support',
+        filter: { all: [{ field: 'chat.labels', op: 'contains', value: 'support' }] },
+      });
+
+      emitMessage();
+
+      expect(targets()).toEqual(['https://example.com/main', 'https://example.com/vip']);
+      expect(client.getChatsByLabel).toHaveBeenCalledWith('vip');
+    });
+
+    it('should hand template, format and batch settings to the dispatcher', () => {
+      const template = { text: '{{data.text}}' };
+      manager.addWebhook('bot-1', {
+        url: 'https://example.com/shaped',
+        format: 'cloudevents_structured',
+        template,
+        batch: { maxSize: 10, maxWaitMs: 1000 },
+      });
+
+      emitMessage();
+
+      const [, , options] = webhook.mock.calls.find(([url]) => url === 'https://example.com/shaped')!;
+      expect(options).toMatchObject({
+        format: 'cloudevents_structured',
+        template,
+        batch: { maxSize: 10, maxWaitMs: 1000 },
+      });
+    });
+
+    it('should not hand endpoint credentials to the dispatcher', () => {
+      manager.addWebhook('bot-1', {
+        url: 'https://example.com/secure',
+        secret: 'sub-secret',
+        headers: { 'X-Api-Key': 'key-123' },
+        auth: { type: 'bearer', token: 'tok-123' },
+        tls: { cert: 'CERT', key: 'PRIVATE KEY' },
+      });
+
+      emitMessage();
+
+      const [, , options] = webhook.mock.calls.find(([url]) => url === 'https://example.com/secure')!;
+      expect(options).not.toHaveProperty('secret');
+      for (const value of ['sub-secret', 'key-123', 'tok-123', 'PRIVATE KEY']) {
+        expect(JSON.stringify(options)).not.toContain(value);
+      }
+    });
+
+    it('should send every event to live streams, also without webhooks', () => {
+      const event = vi.fn();
+      manager.on('event', event);
+      manager.updateInstance('bot-1', { webhookEnabled: false });
+
+      emitMessage();
+
+      expect(event).toHaveBeenCalledWith(expect.objectContaining({ event: 'message', instanceId: 'bot-1' }));
+      expect(webhook).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('message statuses', () => {
+    let webhook: ReturnType<typeof vi.fn>;
+
+    beforeEach(async () => {
+      await manager.createInstance({
+        instanceId: 'bot-1',
+        webhookUrl: 'https://example.com/main',
+        webhookEvents: ['message_status'],
+      });
+      webhook = vi.fn();
+      manager.on('webhook', webhook);
+    });
+
+    function emitReceipt(data: Record<string, unknown> = {}): void {
+      lastClient().emit('message_receipt', {
+        messageId: 'msg-1',
+        chatId: '6281234567890@s.whatsapp.net',
+        recipientId: '6281234567890@s.whatsapp.net',
+        type: 'delivery',
+        timestamp: 1700000000,
+        fromMe: true,
+        ...data,
+      });
+    }
+
+    it('should emit a message_status webhook for a receipt of a sent message', () => {
+      emitReceipt();
+
+      expect(webhook).toHaveBeenCalledTimes(1);
+      const [url, payload] = webhook.mock.calls[0];
+      expect(url).toBe('https://example.com/main');
+      expect(payload).toMatchObject({
+        event: 'message_status',
+        instanceId: 'bot-1',
+        data: {
+          messageId: 'msg-1',
+          chatId: '6281234567890@s.whatsapp.net',
+          status: 'delivered',
+          timestamp: 1700000000000,
+        },
+      });
+      expect(manager.getMessageStatus('bot-1', 'msg-1')).toMatchObject({
+        status: 'delivered',
+        deliveredAt: 1700000000000,
+      });
+    });
+
+    it('should not emit again for a duplicate receipt', () => {
+      emitReceipt();
+      emitReceipt();
+
+      expect(webhook).toHaveBeenCalledTimes(1);
+    });
+
+    it('should ignore receipts of messages sent by others', () => {
+      emitReceipt({ fromMe: false });
+
+      expect(webhook).not.toHaveBeenCalled();
+      expect(manager.getMessageStatus('bot-1', 'msg-1')).toBeUndefined();
+    });
+
+    it('should record a sent message with the chat JID of the number', () => {
+      manager.recordSentMessage('bot-1', 'msg-1', '+62 812-3456-7890');
+
+      expect(manager.getMessageStatus('bot-1', 'msg-1')).toMatchObject({
+        chatId: '6281234567890@s.whatsapp.net',
+        status: 'sent',
+        sentAt: expect.any(Number),
+      });
+      expect(webhook.mock.calls[0][1]).toMatchObject({ event: 'message_status', data: { status: 'sent' } });
+    });
+  });
+
+  describe('group events', () => {
+    const groupId = '120363025246125486@g.us';
+    let webhook: ReturnType<typeof vi.fn>;
+    let ev: EventEmitter;
+
+    beforeEach(async () => {
+      await manager.createInstance({
+        instanceId: 'bot-1',
+        webhookUrl: 'https://example.com/main',
+        webhookEvents: ['group_participants_update', 'group_update', 'group_join_request'],
+      });
+      webhook = vi.fn();
+      manager.on('webhook', webhook);
+
+      // Baileys socket stand-in, group events are read from it once connected
+      ev = new EventEmitter();
+      lastClient().socket = { user: { id: '6280000000000@s.whatsapp.net' }, ev };
+      lastClient().emit('connection', 'connected');
+      webhook.mockClear();
+    });
+
+    function sent(): Array<{ event: string; data: unknown }> {
+      return webhook.mock.calls.map(([, payload]) => ({ event: payload.event, data: payload.data }));
+    }
+
+    it('should emit group_participants_update for participant changes', () => {
+      ev.emit('group-participants.update', {
+        id: groupId,
+        author: 'admin@s.whatsapp.net',
+        participants: ['alice@s.whatsapp.net', { id: 'bob@s.whatsapp.net' }],
+        action: 'add',
+      });
+
+      expect(sent()).toEqual([
+        {
+          event: 'group_participants_update',
+          data: {
+            groupId,
+            action: 'add',
+            participants: ['alice@s.whatsapp.net', 'bob@s.whatsapp.net'],
+            actor: 'admin@s.whatsapp.net',
+          },
+        },
+      ]);
+    });
+
+    it('should emit group_update for each changed group', () => {
+      ev.emit('groups.update', [{ id: groupId, subject: 'New name', announce: true }, { id: 'other@g.us' }]);
+
+      expect(sent()).toEqual([
+        { event: 'group_update', data: { groupId, subject: 'New name', settings: { announce: true } } },
+      ]);
+    });
+
+    it('should emit group_update for a group picture stub message', () => {
+      ev.emit('messages.upsert', {
+        messages: [
+          {
+            key: { remoteJid: groupId },
+            participant: 'admin@s.whatsapp.net',
+            messageStubType: 22,
+            messageStubParameters: ['pic-1'],
+          },
+          { key: { remoteJid: groupId }, message: { conversation: 'Hello' } },
+        ],
+      });
+
+      expect(sent()).toEqual([
+        {
+          event: 'group_update',
+          data: { groupId, actor: 'admin@s.whatsapp.net', picture: { action: 'set', id: 'pic-1' } },
+        },
+      ]);
+    });
+
+    it('should emit group_join_request for join requests', () => {
+      ev.emit('group.join-request', {
+        id: groupId,
+        participant: 'carol@s.whatsapp.net',
+        action: 'created',
+        method: 'invite_link',
+      });
+
+      expect(sent()).toEqual([
+        {
+          event: 'group_join_request',
+          data: { groupId, participant: 'carol@s.whatsapp.net', action: 'created', method: 'invite_link' },
+        },
+      ]);
+    });
+
+    it('should forward the events of a socket once across reconnects', () => {
+      lastClient().emit('connection', 'connected');
+      webhook.mockClear();
+
+      ev.emit('group.join-request', { id: groupId, participant: 'carol@s.whatsapp.net', action: 'revoked' });
+
+      expect(webhook).toHaveBeenCalledTimes(1);
+    });
+
+    it('should take the phone number from the socket user', () => {
+      expect(manager.getInstance('bot-1')?.phoneNumber).toBe('6280000000000');
+    });
+  });
+
+  describe('getWebhookCredentials()', () => {
+    beforeEach(async () => {
+      await manager.createInstance({
+        instanceId: 'bot-1',
+        webhookUrl: 'https://example.com/main',
+        webhookSecret: 'instance-secret',
+      });
+    });
+
+    it('should return the instance secret for the instance webhook', () => {
+      expect(manager.getWebhookCredentials('bot-1')).toEqual({ secret: 'instance-secret', previousSecret: undefined });
+    });
+
+    it('should return the current credentials of a subscription', () => {
+      const tls = { cert: 'CERT', key: 'PRIVATE KEY' };
+      const subscription = manager.addWebhook('bot-1', {
+        url: 'https://example.com/secure',
+        secret: 'sub-secret',
+        headers: { 'X-Team': 'ops' },
+        auth: { type: 'bearer', token: 'tok-123' },
+        tls,
+      });
+      manager.updateWebhook('bot-1', subscription.id, { auth: { type: 'bearer', token: 'tok-456' } });
+
+      expect(manager.getWebhookCredentials('bot-1', subscription.id)).toMatchObject({
+        secret: 'sub-secret',
+        headers: { 'X-Team': 'ops' },
+        auth: { type: 'bearer', token: 'tok-456' },
+        tls,
+      });
+    });
+
+    it('should sign subscriptions without a secret with the instance secret', () => {
+      const subscription = manager.addWebhook('bot-1', { url: 'https://example.com/plain' });
+
+      expect(manager.getWebhookCredentials('bot-1', subscription.id)?.secret).toBe('instance-secret');
+    });
+
+    it('should return null for a removed subscription or instance', async () => {
+      const subscription = manager.addWebhook('bot-1', { url: 'https://example.com/gone' });
+      manager.removeWebhook('bot-1', subscription.id);
+
+      expect(manager.getWebhookCredentials('bot-1', subscription.id)).toBeNull();
+      expect(manager.getWebhookCredentials('missing')).toBeNull();
+    });
+  });
+
+  describe('setDesiredState()', () => {
+    it('should persist the state a connected instance is restored to', async () => {
+      const registry = createRegistry();
+      manager = createManager(registry as unknown as InstanceRegistry);
+      await manager.createInstance({ instanceId: 'bot-1' });
+
+      lastClient().emit('connection', 'connected');
+
+      expect(registry.save).toHaveBeenLastCalledWith(
+        expect.objectContaining({ instanceId: 'bot-1', desiredState: 'connected' })
+      );
+    });
+  });
+});
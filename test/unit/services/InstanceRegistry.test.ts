@@ -0,0 +1,113 @@
+/**
+ * Unit tests for InstanceRegistry service
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { InstanceRegistry } from '../../../src/services/InstanceRegistry';
+import { InstanceRecord } from '../../../src/types';
+
+describe('InstanceRegistry', () => {
+  let tmpDir: string;
+  let filePath: string;
+  let registry: InstanceRegistry;
+
+  function createRecord(overrides: Partial<InstanceRecord> = {}): InstanceRecord {
+    return {
+      instanceId: 'bot-1',
+      webhookUrl: 'https://example.com/webhook',
+      webhookEvents: ['message'],
+      webhookEnabled: true,
+      desiredState: 'disconnected',
+      createdAt: '2025-01-01T00:00:00.000Z',
+      updatedAt: '2025-01-01T00:00:00.000Z',
+      ...overrides,
+    };
+  }
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'miaw-registry-'));
+    filePath = path.join(tmpDir, 'nested', 'instances.json');
+    registry = new InstanceRegistry({ filePath });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('load()', () => {
+    it('should return empty list when file does not exist', () => {
+      expect(registry.load()).toEqual([]);
+    });
+
+    it('should return empty list for corrupt file', () => {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, '{not json');
+
+      expect(registry.load()).toEqual([]);
+    });
+
+    it('should load records written by another registry', () => {
+      registry.save(createRecord());
+      registry.save(createRecord({ instanceId: 'bot-2', desiredState: 'connected' }));
+
+      const reloaded = new InstanceRegistry({ filePath });
+      const records = reloaded.load();
+
+      expect(records).toHaveLength(2);
+      expect(reloaded.get('bot-2')?.desiredState).toBe('connected');
+    });
+  });
+
+  describe('save()', () => {
+    it('should create parent directories and write file', () => {
+      registry.save(createRecord());
+
+      expect(fs.existsSync(filePath)).toBe(true);
+      const file = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      expect(file.version).toBe(1);
+      expect(file.instances[0].instanceId).toBe('bot-1');
+    });
+
+    it('should replace existing record with same instanceId', () => {
+      registry.save(createRecord());
+      registry.save(createRecord({ webhookEnabled: false }));
+
+      expect(registry.list()).toHaveLength(1);
+      expect(registry.get('bot-1')?.webhookEnabled).toBe(false);
+    });
+
+    it('should not leave temp file behind', () => {
+      registry.save(createRecord());
+
+      expect(fs.existsSync(`${filePath}.tmp`)).toBe(false);
+    });
+
+    it('should make the file readable by the owner only', () => {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(`${filePath}.tmp`, '', { mode: 0o644 });
+
+      registry.save(createRecord({ webhookSecret: 'secret' }));
+
+      expect(fs.statSync(filePath).mode & 0o777).toBe(0o600);
+    });
+  });
+
+  describe('remove()', () => {
+    it('should remove record and persist', () => {
+      registry.save(createRecord());
+      registry.remove('bot-1');
+
+      expect(registry.get('bot-1')).toBeNull();
+      const reloaded = new InstanceRegistry({ filePath });
+      expect(reloaded.load()).toEqual([]);
+    });
+
+    it('should ignore unknown instance', () => {
+      expect(() => registry.remove('missing')).not.toThrow();
+      expect(fs.existsSync(filePath)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Unit tests for MessageStatusStore
+ */
+
+import { describe, it, expect } from 'vitest';
+import { fromMessageReceipt, MessageStatusStore } from '../../../src/services/MessageStatusStore';
+import type { MessageReceiptUpdate } from 'miaw-core';
+import { MessageStatusUpdate } from '../../../src/types';
+
+function update(overrides: Partial<MessageStatusUpdate> = {}): MessageStatusUpdate {
+  return { messageId: 'm1', chatId: '628123@s.whatsapp.net', status: 'sent', timestamp: 1000, ...overrides };
+}
+
+describe('MessageStatusStore', () => {
+  describe('apply()', () => {
+    it('should record the timestamp of each status reached', () => {
+      const store = new MessageStatusStore();
+
+      store.apply('i1', update({ status: 'sent', timestamp: 1000 }));
+      store.apply('i1', update({ status: 'delivered', timestamp: 2000 }));
+      const status = store.apply('i1', update({ status: 'read', timestamp: 3000 }));
+
+      expect(status).toMatchObject({
+        messageId: 'm1',
+        status: 'read',
+        sentAt: 1000,
+        deliveredAt: 2000,
+        readAt: 3000,
+        updatedAt: 3000,
+      });
+      expect(store.get('i1', 'm1')).toBe(status);
+    });
+
+    it('should ignore duplicate and older statuses', () => {
+      const store = new MessageStatusStore();
+
+      store.apply('i1', update({ status: 'read', timestamp: 3000 }));
+
+      expect(store.apply('i1', update({ status: 'read', timestamp: 4000 }))).toBeUndefined();
+      expect(store.apply('i1', update({ status: 'delivered', timestamp: 4000 }))).toBeUndefined();
+      expect(store.get('i1', 'm1')).toMatchObject({ status: 'read', readAt: 3000 });
+    });
+
+    it('should keep a failed message failed', () => {
+      const store = new MessageStatusStore();
+
+      store.apply('i1', update({ status: 'sent' }));
+      expect(store.apply('i1', update({ status: 'failed', timestamp: 2000 }))?.failedAt).toBe(2000);
+      expect(store.apply('i1', update({ status: 'delivered' }))).toBeUndefined();
+    });
+
+    it('should keep group receipts per participant', () => {
+      const store = new MessageStatusStore();
+      const group = { chatId: '1203@g.us' };
+
+      store.apply('i1', update({ ...group, status: 'sent', timestamp: 1000 }));
+      store.apply('i1', update({ ...group, status: 'delivered', participant: 'a@s.whatsapp.net', timestamp: 2000 }));
+      store.apply('i1', update({ ...group, status: 'read', participant: 'a@s.whatsapp.net', timestamp: 3000 }));
+      store.apply('i1', update({ ...group, status: 'delivered', participant: 'b@s.whatsapp.net', timestamp: 2500 }));
+
+      expect(store.get('i1', 'm1')).toMatchObject({
+        status: 'sent',
+        participants: {
+          'a@s.whatsapp.net': { deliveredAt: 2000, readAt: 3000 },
+          'b@s.whatsapp.net': { deliveredAt: 2500 },
+        },
+      });
+      expect(
+        store.apply('i1', update({ ...group, status: 'read', participant: 'a@s.whatsapp.net', timestamp: 4000 }))
+      ).toBeUndefined();
+    });
+
+    it('should drop the oldest messages of an instance beyond the limit', () => {
+      const store = new MessageStatusStore({ maxMessagesPerInstance: 2 });
+
+      store.apply('i1', update({ messageId: 'm1' }));
+      store.apply('i1', update({ messageId: 'm2' }));
+      store.apply('i1', update({ messageId: 'm3' }));
+      store.apply('i2', update({ messageId: 'm1' }));
+
+      expect(store.get('i1', 'm1')).toBeUndefined();
+      expect(store.get('i1', 'm3')).toBeDefined();
+      expect(store.get('i2', 'm1')).toBeDefined();
+    });
+  });
+
+  describe('clear()', () => {
+    it('should drop every status of an instance', () => {
+      const store = new MessageStatusStore();
+
+      store.apply('i1', update());
+      store.clear('i1');
+
+      expect(store.get('i1', 'm1')).toBeUndefined();
+    });
+  });
+});
+
+describe('fromMessageReceipt()', () => {
+  function receipt(overrides: Partial<MessageReceiptUpdate> = {}): MessageReceiptUpdate {
+    return {
+      messageId: 'm1',
+      chatId: 'c@s.whatsapp.net',
+      recipientId: 'c@s.whatsapp.net',
+      type: 'read',
+      timestamp: 12,
+      fromMe: true,
+      ...overrides,
+    };
+  }
+
+  it('should apply receipts outside groups to the message', () => {
+    expect(fromMessageReceipt(receipt())).toEqual({
+      messageId: 'm1',
+      chatId: 'c@s.whatsapp.net',
+      status: 'read',
+      timestamp: 12000,
+    });
+    expect(fromMessageReceipt(receipt({ type: 'delivery' }))?.status).toBe('delivered');
+    expect(fromMessageReceipt(receipt({ type: 'played' }))?.status).toBe('played');
+  });
+
+  it('should map group receipts to participant updates', () => {
+    expect(fromMessageReceipt(receipt({ chatId: '1203@g.us', recipientId: 'a@s.whatsapp.net' }))).toEqual({
+      messageId: 'm1',
+      chatId: '1203@g.us',
+      status: 'read',
+      participant: 'a@s.whatsapp.net',
+      timestamp: 12000,
+    });
+  });
+
+  it('should use the current time for receipts without a timestamp', () => {
+    expect(fromMessageReceipt(receipt({ timestamp: undefined }), 5000)?.timestamp).toBe(5000);
+  });
+
+  it('should ignore receipts of incoming messages', () => {
+    expect(fromMessageReceipt(receipt({ fromMe: false }))).toBeUndefined();
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Unit tests for WebhookCircuitBreaker
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { WebhookCircuitBreaker } from '../../../src/services/WebhookCircuitBreaker';
+
+describe('WebhookCircuitBreaker', () => {
+  const url = 'https://test.com/hook';
+  let breaker: WebhookCircuitBreaker;
+
+  beforeEach(() => {
+    breaker = new WebhookCircuitBreaker({ threshold: 3, cooldownMs: 1000 });
+  });
+
+  it('should stay closed below the failure threshold', () => {
+    expect(breaker.recordFailure(url, 0)).toBe(false);
+    expect(breaker.recordFailure(url, 0)).toBe(false);
+
+    expect(breaker.getState(url)).toMatchObject({ state: 'closed', consecutiveFailures: 2 });
+    expect(breaker.allows(url, 0, true)).toBe(true);
+  });
+
+  it('should reset consecutive failures on success', () => {
+    breaker.recordFailure(url, 0);
+    breaker.recordFailure(url, 0);
+    breaker.recordSuccess(url);
+
+    expect(breaker.recordFailure(url, 0)).toBe(false);
+    expect(breaker.getState(url).consecutiveFailures).toBe(1);
+  });
+
+  it('should open after threshold and hold until cooldown passes', () => {
+    breaker.recordFailure(url, 0);
+    breaker.recordFailure(url, 0);
+    expect(breaker.recordFailure(url, 100)).toBe(true);
+
+    expect(breaker.getState(url)).toMatchObject({ state: 'open', openedAt: 100, nextProbeAt: 1100 });
+    expect(breaker.allows(url, 1099, false)).toBe(false);
+    expect(breaker.allows(url, 1100, false)).toBe(true);
+    expect(breaker.allows(url, 1100, true)).toBe(false);
+  });
+
+  it('should close when the half-open probe succeeds', () => {
+    for (let i = 0; i < 3; i++) breaker.recordFailure(url, 0);
+    breaker.onAttempt(url);
+
+    expect(breaker.getState(url).state).toBe('half_open');
+    expect(breaker.recordSuccess(url)).toBe(true);
+    expect(breaker.getState(url).state).toBe('closed');
+    expect(breaker.listTripped()).toEqual([]);
+  });
+
+  it('should reopen when the half-open probe fails', () => {
+    for (let i = 0; i < 3; i++) breaker.recordFailure(url, 0);
+    breaker.onAttempt(url);
+
+    expect(breaker.recordFailure(url, 5000)).toBe(true);
+    expect(breaker.getState(url)).toMatchObject({ state: 'open', nextProbeAt: 6000 });
+    expect(breaker.listTripped()).toHaveLength(1);
+  });
+
+  it('should never open with threshold 0', () => {
+    breaker = new WebhookCircuitBreaker({ threshold: 0, cooldownMs: 1000 });
+    for (let i = 0; i < 10; i++) {
+      expect(breaker.recordFailure(url, 0)).toBe(false);
+    }
+    expect(breaker.isTripped(url)).toBe(false);
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Unit tests for WebhookDeadLetterStore
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DeadLetter, WebhookDeadLetterStore } from '../../../src/services/WebhookDeadLetterStore';
+
+function createDeadLetter(id: string, overrides: Partial<DeadLetter> = {}): DeadLetter {
+  return {
+    id,
+    instanceId: 'i1',
+    event: 'message',
+    url: 'https://example.com/hook',
+    payload: { event: 'message', instanceId: 'i1', timestamp: 1 },
+    attempts: 6,
+    lastStatusCode: 500,
+    lastError: 'HTTP 500',
+    failedAt: 1000,
+    ...overrides,
+  };
+}
+
+describe('WebhookDeadLetterStore', () => {
+  let store: WebhookDeadLetterStore;
+
+  beforeEach(() => {
+    store = new WebhookDeadLetterStore();
+  });
+
+  describe('list()', () => {
+    it('should only return dead letters of the instance, newest first', () => {
+      store.add(createDeadLetter('a', { failedAt: 1 }));
+      store.add(createDeadLetter('b', { failedAt: 2 }));
+      store.add(createDeadLetter('c', { instanceId: 'i2' }));
+
+      expect(store.list({ instanceId: 'i1' }).map((d) => d.id)).toEqual(['b', 'a']);
+    });
+
+    it('should filter by event and time range', () => {
+      store.add(createDeadLetter('a', { failedAt: 100 }));
+      store.add(createDeadLetter('b', { failedAt: 200, event: 'qr' }));
+      store.add(createDeadLetter('c', { failedAt: 300 }));
+
+      expect(store.list({ instanceId: 'i1', from: 150, to: 300 }).map((d) => d.id)).toEqual(['c', 'b']);
+      expect(store.list({ instanceId: 'i1', event: 'qr' }).map((d) => d.id)).toEqual(['b']);
+    });
+  });
+
+  describe('get()', () => {
+    it('should not return dead letters of another instance', () => {
+      store.add(createDeadLetter('a'));
+
+      expect(store.get('i1', 'a')).not.toBeNull();
+      expect(store.get('i2', 'a')).toBeNull();
+    });
+  });
+
+  describe('remove() / removeAll()', () => {
+    it('should remove a single dead letter', () => {
+      store.add(createDeadLetter('a'));
+
+      expect(store.remove('i1', 'a')?.id).toBe('a');
+      expect(store.size()).toBe(0);
+    });
+
+    it('should remove dead letters matching filter', () => {
+      store.add(createDeadLetter('a', { failedAt: 100 }));
+      store.add(createDeadLetter('b', { failedAt: 200 }));
+
+      const removed = store.removeAll({ instanceId: 'i1', to: 150 });
+
+      expect(removed.map((d) => d.id)).toEqual(['a']);
+      expect(store.size()).toBe(1);
+    });
+  });
+
+  it('should drop oldest entries beyond maxEntries', () => {
+    store = new WebhookDeadLetterStore({ maxEntries: 2 });
+    store.add(createDeadLetter('a'));
+    store.add(createDeadLetter('b'));
+    store.add(createDeadLetter('c'));
+
+    expect(store.list({ instanceId: 'i1' }).map((d) => d.id)).toEqual(['c', 'b']);
+  });
+
+  describe('persistence', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'miaw-dlq-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    function journal(filePath: string): any[] {
+      return fs
+        .readFileSync(filePath, 'utf8')
+        .split('\n')
+        .filter(Boolean)
+        .map((line) => JSON.parse(line));
+    }
+
+    it('should reload dead letters from file', () => {
+      const filePath = path.join(tmpDir, 'dead-letters.jsonl');
+      const fileStore = new WebhookDeadLetterStore({ filePath });
+      fileStore.add(createDeadLetter('a'));
+      fileStore.add(createDeadLetter('b'));
+      fileStore.add(createDeadLetter('c'));
+      fileStore.remove('i1', 'a');
+      fileStore.add(createDeadLetter('b', { attempts: 7 }));
+      fileStore.close();
+
+      const reloaded = new WebhookDeadLetterStore({ filePath });
+
+      expect(reloaded.list({ instanceId: 'i1' }).map((d) => [d.id, d.attempts])).toEqual([
+        ['b', 7],
+        ['c', 6],
+      ]);
+      reloaded.close();
+    });
+
+    it('should append a record per change instead of rewriting the file', () => {
+      const filePath = path.join(tmpDir, 'dead-letters.jsonl');
+      const fileStore = new WebhookDeadLetterStore({ filePath, maxEntries: 2 });
+      fileStore.add(createDeadLetter('a'));
+      fileStore.add(createDeadLetter('b'));
+      fileStore.add(createDeadLetter('c'));
+      fileStore.removeAll({ instanceId: 'i1', to: 1000 });
+      fileStore.close();
+
+      expect(journal(filePath).map((record) => [record.op, record.entry?.id ?? record.id])).toEqual([
+        ['put', 'a'],
+        ['put', 'b'],
+        ['put', 'c'],
+        ['del', 'a'],
+        ['del', 'c'],
+        ['del', 'b'],
+      ]);
+    });
+
+    it('should compact the journal on load', () => {
+      const filePath = path.join(tmpDir, 'dead-letters.jsonl');
+      const fileStore = new WebhookDeadLetterStore({ filePath });
+      for (let i = 0; i < 10; i++) {
+        fileStore.add(createDeadLetter(`d${i}`));
+        fileStore.remove('i1', `d${i}`);
+      }
+      fileStore.add(createDeadLetter('kept'));
+      fileStore.close();
+
+      new WebhookDeadLetterStore({ filePath }).close();
+
+      expect(journal(filePath)).toEqual([{ op: 'put', entry: createDeadLetter('kept') }]);
+    });
+
+    it('should compact the journal when stale records exceed the threshold', () => {
+      const filePath = path.join(tmpDir, 'dead-letters.jsonl');
+      const fileStore = new WebhookDeadLetterStore({ filePath, compactThreshold: 5 });
+      for (let i = 0; i < 10; i++) {
+        fileStore.add(createDeadLetter(`d${i}`));
+        fileStore.remove('i1', `d${i}`);
+      }
+
+      expect(journal(filePath).length).toBeLessThanOrEqual(6);
+      fileStore.close();
+    });
+
+    it('should skip a torn last record', () => {
+      const filePath = path.join(tmpDir, 'dead-letters.jsonl');
+      const fileStore = new WebhookDeadLetterStore({ filePath });
+      fileStore.add(createDeadLetter('a'));
+      fileStore.close();
+      fs.appendFileSync(filePath, '{"op":"put","entry":{"id":"b"');
+
+      const reloaded = new WebhookDeadLetterStore({ filePath });
+
+      expect(reloaded.size()).toBe(1);
+      reloaded.close();
+    });
+
+    it('should only let the owner read the file', () => {
+      const filePath = path.join(tmpDir, 'dead-letters.jsonl');
+      fs.writeFileSync(filePath, '', { mode: 0o644 });
+      fs.chmodSync(filePath, 0o644);
+
+      const fileStore = new WebhookDeadLetterStore({ filePath });
+      fileStore.add(createDeadLetter('a'));
+      fileStore.close();
+
+      expect(fs.statSync(filePath).mode & 0o777).toBe(0o600);
+    });
+  });
+});
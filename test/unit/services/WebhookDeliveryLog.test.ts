@@ -0,0 +1,94 @@
+/**
+ * Unit tests for WebhookDeliveryLog
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { WebhookDeliveryAttempt, WebhookDeliveryLog } from '../../../src/services/WebhookDeliveryLog';
+
+function createAttempt(deliveryId: string, overrides: Partial<WebhookDeliveryAttempt> = {}): WebhookDeliveryAttempt {
+  return {
+    deliveryId,
+    instanceId: 'i1',
+    event: 'message',
+    url: 'https://example.com/hook',
+    attempt: 1,
+    status: 'success',
+    statusCode: 200,
+    latencyMs: 12,
+    requestHeaders: { 'Content-Type': 'application/json' },
+    requestBody: '{}',
+    startedAt: 1000,
+    ...overrides,
+  };
+}
+
+describe('WebhookDeliveryLog', () => {
+  let log: WebhookDeliveryLog;
+
+  beforeEach(() => {
+    log = new WebhookDeliveryLog();
+  });
+
+  describe('list()', () => {
+    it('should only return attempts of the instance, newest first', () => {
+      log.add(createAttempt('a'));
+      log.add(createAttempt('b'));
+      log.add(createAttempt('c', { instanceId: 'i2' }));
+
+      expect(log.list({ instanceId: 'i1' }).map((a) => a.deliveryId)).toEqual(['b', 'a']);
+    });
+
+    it('should filter by event, status and time range', () => {
+      log.add(createAttempt('a', { startedAt: 100 }));
+      log.add(createAttempt('b', { startedAt: 200, event: 'ready' }));
+      log.add(createAttempt('c', { startedAt: 300, status: 'failed', statusCode: 500 }));
+
+      expect(log.list({ instanceId: 'i1', event: 'ready' }).map((a) => a.deliveryId)).toEqual(['b']);
+      expect(log.list({ instanceId: 'i1', status: 'failed' }).map((a) => a.deliveryId)).toEqual(['c']);
+      expect(log.list({ instanceId: 'i1', from: 150, to: 250 }).map((a) => a.deliveryId)).toEqual(['b']);
+    });
+  });
+
+  describe('bounds', () => {
+    it('should drop the oldest attempts beyond the per-instance limit', () => {
+      log = new WebhookDeliveryLog({ maxEntriesPerInstance: 2 });
+      log.add(createAttempt('a'));
+      log.add(createAttempt('b'));
+      log.add(createAttempt('c'));
+      log.add(createAttempt('x', { instanceId: 'i2' }));
+
+      expect(log.list({ instanceId: 'i1' }).map((a) => a.deliveryId)).toEqual(['c', 'b']);
+      expect(log.list({ instanceId: 'i2' })).toHaveLength(1);
+    });
+
+    it('should truncate request and response bodies', () => {
+      log = new WebhookDeliveryLog({ maxBodyLength: 5 });
+      const entry = log.add(createAttempt('a', { requestBody: '0123456789' }));
+      log.setResponseBody(entry, 'abcdefgh');
+
+      const [stored] = log.list({ instanceId: 'i1' });
+      expect(stored.requestBody).toBe('01234... [truncated 5 chars]');
+      expect(stored.responseBody).toBe('abcde... [truncated 3 chars]');
+    });
+  });
+
+  describe('getDelivery()', () => {
+    it('should return all attempts of a delivery, first attempt first', () => {
+      log.add(createAttempt('a', { attempt: 1, status: 'failed' }));
+      log.add(createAttempt('b'));
+      log.add(createAttempt('a', { attempt: 2 }));
+
+      expect(log.getDelivery('i1', 'a').map((a) => a.attempt)).toEqual([1, 2]);
+      expect(log.getDelivery('i2', 'a')).toEqual([]);
+    });
+  });
+
+  describe('clear()', () => {
+    it('should drop all attempts of an instance', () => {
+      log.add(createAttempt('a'));
+      log.clear('i1');
+
+      expect(log.list({ instanceId: 'i1' })).toEqual([]);
+    });
+  });
+});
@@ -12,25 +12,39 @@ import {
   beforeAll,
   afterAll,
 } from 'vitest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Agent } from 'undici';
 import { WebhookDispatcher } from '../../../src/services/WebhookDispatcher';
+import { MemoryWebhookQueueStore } from '../../../src/services/WebhookQueueStore';
+import { WebhookDeadLetterStore } from '../../../src/services/WebhookDeadLetterStore';
+import { WebhookDeliveryLog } from '../../../src/services/WebhookDeliveryLog';
+import { DestinationPolicy, DestinationPolicyError } from '../../../src/utils/destinationPolicy';
+import { WebhookDeliveryCredentials } from '../../../src/types';
 
 // Mock fetch globally
+const realFetch = global.fetch;
 const mockFetch = vi.fn();
 global.fetch = mockFetch;
 
 describe('WebhookDispatcher', () => {
   let dispatcher: WebhookDispatcher;
 
+  // Endpoint credentials, looked up on every attempt
+  const resolveCredentials = vi.fn<(instanceId: string, subscriptionId?: string) => WebhookDeliveryCredentials | null>();
+
   const defaultOptions = {
     secret: 'test-webhook-secret',
     timeout: 5000,
     maxRetries: 3,
     retryDelay: 1000,
+    resolveCredentials,
   };
 
   beforeEach(() => {
     vi.useFakeTimers();
     mockFetch.mockReset();
+    resolveCredentials.mockReset().mockReturnValue({});
     dispatcher = new WebhookDispatcher(defaultOptions);
   });
 
@@ -292,12 +306,29 @@ describe('WebhookDispatcher', () => {
 
       expect(result).toBe(false);
     });
+
+    it('should accept any of several signatures in the header', () => {
+      const timestamp = Date.now();
+      const header = `sha256=${'0'.repeat(64)}, ${computeSignature(payload, timestamp)}`;
+
+      expect(WebhookDispatcher.verifySignature(payload, header, timestamp, secret)).toBe(true);
+      expect(WebhookDispatcher.verifySignature(payload, header, timestamp, 'wrong-secret')).toBe(false);
+    });
+
+    it('should accept any of several secrets', () => {
+      const timestamp = Date.now();
+      const signature = computeSignature(payload, timestamp);
+
+      expect(
+        WebhookDispatcher.verifySignature(payload, signature, timestamp, ['new-secret', secret])
+      ).toBe(true);
+      expect(WebhookDispatcher.verifySignature(payload, signature, timestamp, ['new-secret'])).toBe(false);
+    });
   });
 
   describe('calculateRetryDelay (via queue processing)', () => {
     it('should use exponential backoff delays', async () => {
-      // Test the documented delays: [0, 60000, 300000, 900000, 3600000]
-      // We can observe this indirectly through queue behavior
+      // Exact delays are covered in 'Retry policy'; here we only check the retry is kept
       mockFetch.mockRejectedValue(new Error('Network error'));
 
       await dispatcher.queue('https://test.com/hook', {
@@ -379,6 +410,95 @@ describe('WebhookDispatcher', () => {
     });
   });
 
+  describe('getInstanceStats()', () => {
+    it('should return empty stats for unknown instance', () => {
+      const stats = dispatcher.getInstanceStats('missing');
+
+      expect(stats.instanceId).toBe('missing');
+      expect(stats.queued).toBe(0);
+      expect(stats.delivered).toBe(0);
+      expect(stats.failed).toBe(0);
+      expect(stats.destinations).toEqual([]);
+    });
+
+    it('should count queued deliveries per instance and destination', async () => {
+      await dispatcher.queue('https://a.com/hook', { event: 'e1', instanceId: 'i1', timestamp: 1 });
+      await dispatcher.queue('https://b.com/hook', { event: 'e2', instanceId: 'i1', timestamp: 2 });
+      await dispatcher.queue('https://a.com/hook', { event: 'e3', instanceId: 'i2', timestamp: 3 });
+
+      const stats = dispatcher.getInstanceStats('i1');
+
+      expect(stats.queued).toBe(2);
+      expect(stats.destinations.map((d) => d.url).sort()).toEqual([
+        'https://a.com/hook',
+        'https://b.com/hook',
+      ]);
+    });
+
+    it('should track deliveries separately per instance', async () => {
+      mockFetch.mockImplementation(async (url: string) =>
+        url.startsWith('https://ok.com') ? { ok: true, status: 200 } : { ok: false, status: 502 }
+      );
+
+      await dispatcher.queue('https://ok.com/hook', { event: 'e1', instanceId: 'i1', timestamp: 1 });
+      await dispatcher.queue('https://down.com/hook', { event: 'e2', instanceId: 'i2', timestamp: 2 });
+
+      await vi.advanceTimersByTimeAsync(1000);
+
+      const healthy = dispatcher.getInstanceStats('i1');
+      expect(healthy.delivered).toBe(1);
+      expect(healthy.failed).toBe(0);
+      expect(healthy.lastError).toBeUndefined();
+
+      const failing = dispatcher.getInstanceStats('i2');
+      expect(failing.delivered).toBe(0);
+      expect(failing.failed).toBe(1);
+      expect(failing.lastError).toBe('HTTP 502');
+      expect(failing.destinations[0].lastStatusCode).toBe(502);
+    });
+
+    it('should record network errors as last error', async () => {
+      mockFetch.mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+      await dispatcher.queue('https://down.com/hook', { event: 'e1', instanceId: 'i1', timestamp: 1 });
+      await vi.advanceTimersByTimeAsync(1000);
+
+      const stats = dispatcher.getInstanceStats('i1');
+      expect(stats.failed).toBe(1);
+      expect(stats.lastError).toBe('connect ECONNREFUSED');
+      expect(stats.lastFailureTime).toBeDefined();
+    });
+
+    it('should compute average latency', async () => {
+      mockFetch.mockImplementation(
+        () => new Promise((resolve) => setTimeout(() => resolve({ ok: true, status: 200 }), 200))
+      );
+
+      await dispatcher.queue('https://slow.com/hook', { event: 'e1', instanceId: 'i1', timestamp: 1 });
+      await vi.advanceTimersByTimeAsync(1200);
+
+      const stats = dispatcher.getInstanceStats('i1');
+      expect(stats.delivered).toBe(1);
+      expect(stats.averageLatencyMs).toBe(200);
+      expect(stats.destinations[0].averageLatencyMs).toBe(200);
+    });
+  });
+
+  describe('getAggregateStats()', () => {
+    it('should include global totals and every instance', async () => {
+      mockFetch.mockResolvedValue({ ok: true, status: 200 });
+
+      await dispatcher.queue('https://a.com/hook', { event: 'e1', instanceId: 'i1', timestamp: 1 });
+      await dispatcher.queue('https://a.com/hook', { event: 'e2', instanceId: 'i2', timestamp: 2 });
+      await vi.advanceTimersByTimeAsync(1000);
+
+      const stats = dispatcher.getAggregateStats();
+
+      expect(stats.delivered).toBe(2);
+      expect(stats.instances.map((i) => i.instanceId).sort()).toEqual(['i1', 'i2']);
+    });
+  });
+
   describe('resetStats()', () => {
     it('should reset all stats to zero', async () => {
       mockFetch.mockResolvedValue({ ok: true, status: 200 });
@@ -450,6 +570,115 @@ describe('WebhookDispatcher', () => {
     });
   });
 
+  describe('Queue persistence', () => {
+    it('should write queued webhooks to the store', async () => {
+      const store = new MemoryWebhookQueueStore();
+      dispatcher.dispose();
+      dispatcher = new WebhookDispatcher({ ...defaultOptions, store });
+
+      await dispatcher.queue('https://test.com/hook', {
+        event: 'test',
+        instanceId: 'i1',
+        timestamp: 1,
+      });
+
+      expect(store.load()).toHaveLength(1);
+      expect(store.load()[0].url).toBe('https://test.com/hook');
+    });
+
+    it('should restore pending webhooks from the store on start', () => {
+      const store = new MemoryWebhookQueueStore();
+      store.save({
+        id: 'pending-1',
+        url: 'https://test.com/hook',
+        payload: { event: 'test', instanceId: 'i1', timestamp: 1 },
+        attempt: 2,
+      });
+
+      dispatcher.dispose();
+      dispatcher = new WebhookDispatcher({ ...defaultOptions, store });
+
+      expect(dispatcher.getQueueSize()).toBe(1);
+    });
+
+    it('should remove delivered webhooks from the store', async () => {
+      mockFetch.mockResolvedValue({ ok: true, status: 200 });
+      const store = new MemoryWebhookQueueStore();
+      dispatcher.dispose();
+      dispatcher = new WebhookDispatcher({ ...defaultOptions, store });
+
+      await dispatcher.queue('https://test.com/hook', {
+        event: 'test',
+        instanceId: 'i1',
+        timestamp: 1,
+      });
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(store.load()).toHaveLength(0);
+    });
+
+    it('should persist retry schedule after a failed attempt', async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 500 });
+      const store = new MemoryWebhookQueueStore();
+      dispatcher.dispose();
+      dispatcher = new WebhookDispatcher({ ...defaultOptions, store });
+
+      await dispatcher.queue('https://test.com/hook', {
+        event: 'test',
+        instanceId: 'i1',
+        timestamp: 1,
+      });
+      await vi.advanceTimersByTimeAsync(1000);
+
+      const [entry] = store.load();
+      expect(entry.attempt).toBe(1);
+      expect(entry.nextRetryTime).toBeGreaterThan(Date.now());
+    });
+
+    it('should not write endpoint credentials to the store', async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 500 });
+      resolveCredentials.mockReturnValue({
+        secret: 'endpoint-secret',
+        headers: { 'X-Api-Key': 'key-123' },
+        auth: { type: 'bearer', token: 'tok-123' },
+        tls: { cert: 'CERT', key: 'PRIVATE KEY' },
+      });
+      const store = new MemoryWebhookQueueStore();
+      dispatcher.dispose();
+      dispatcher = new WebhookDispatcher({ ...defaultOptions, store });
+
+      await dispatcher.queue(
+        'https://test.com/hook',
+        { event: 'test', instanceId: 'i1', timestamp: 1 },
+        { subscriptionId: 'sub-1' }
+      );
+      await vi.advanceTimersByTimeAsync(1000);
+
+      const [entry] = store.load();
+      expect(entry.subscriptionId).toBe('sub-1');
+      const stored = JSON.stringify(entry);
+      for (const value of ['endpoint-secret', 'key-123', 'tok-123', 'PRIVATE KEY']) {
+        expect(stored).not.toContain(value);
+      }
+    });
+
+    it('should keep pending webhooks in the store on dispose', async () => {
+      const store = new MemoryWebhookQueueStore();
+      dispatcher.dispose();
+      dispatcher = new WebhookDispatcher({ ...defaultOptions, store });
+
+      await dispatcher.queue('https://test.com/hook', {
+        event: 'test',
+        instanceId: 'i1',
+        timestamp: 1,
+      });
+      dispatcher.dispose();
+
+      expect(dispatcher.getQueueSize()).toBe(0);
+      expect(store.load()).toHaveLength(1);
+    });
+  });
+
   describe('Delivery behavior', () => {
     it('should send POST request with correct headers', async () => {
       mockFetch.mockResolvedValue({ ok: true, status: 200 });
@@ -475,6 +704,162 @@ describe('WebhookDispatcher', () => {
       );
     });
 
+    it('should send delivery ID and attempt headers', async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 500 });
+      dispatcher.dispose();
+      dispatcher = new WebhookDispatcher({ ...defaultOptions, maxRetries: 2 });
+
+      const deliveryId = await dispatcher.queue('https://test.com/hook', {
+        event: 'test',
+        instanceId: 'i1',
+        timestamp: 1,
+      });
+      await vi.advanceTimersByTimeAsync(1000);
+      await vi.advanceTimersByTimeAsync(60000);
+
+      const headers = mockFetch.mock.calls.map(([, init]) => init.headers);
+      expect(headers).toHaveLength(2);
+      expect(headers[0]['X-Miaw-Delivery-Id']).toBe(deliveryId);
+      expect(headers[0]['X-Miaw-Attempt']).toBe('1');
+      expect(headers[1]['X-Miaw-Delivery-Id']).toBe(deliveryId);
+      expect(headers[1]['X-Miaw-Attempt']).toBe('2');
+    });
+
+    it('should sign with endpoint secret and send custom headers', async () => {
+      mockFetch.mockResolvedValue({ ok: true, status: 200 });
+      resolveCredentials.mockReturnValue({
+        secret: 'endpoint-secret',
+        headers: { 'X-Team': 'ops', 'content-type': 'text/plain', 'x-miaw-signature': 'forged' },
+      });
+      const payload = { event: 'test', instanceId: 'i1', timestamp: 1 };
+
+      await dispatcher.queue('https://test.com/hook', payload, { subscriptionId: 'sub-1' });
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(resolveCredentials).toHaveBeenCalledWith('i1', 'sub-1');
+      const headers = mockFetch.mock.calls[0][1].headers;
+      expect(headers['X-Team']).toBe('ops');
+      expect(headers['content-type']).toBeUndefined();
+      expect(headers['x-miaw-signature']).toBeUndefined();
+      expect(
+        WebhookDispatcher.verifySignature(
+          payload,
+          headers['X-Miaw-Signature'],
+          Number(headers['X-Miaw-Timestamp']),
+          'endpoint-secret'
+        )
+      ).toBe(true);
+    });
+
+    it('should send bearer credentials instead of a custom Authorization header', async () => {
+      mockFetch.mockResolvedValue({ ok: true, status: 200 });
+      resolveCredentials.mockReturnValue({
+        headers: { authorization: 'Bearer stale', 'X-Team': 'ops' },
+        auth: { type: 'bearer', token: 'tok-123' },
+      });
+
+      await dispatcher.queue('https://test.com/hook', { event: 'test', instanceId: 'i1', timestamp: 1 });
+      await vi.advanceTimersByTimeAsync(1000);
+
+      const headers = mockFetch.mock.calls[0][1].headers;
+      expect(headers.Authorization).toBe('Bearer tok-123');
+      expect(headers.authorization).toBeUndefined();
+      expect(headers['X-Team']).toBe('ops');
+    });
+
+    it('should send basic credentials', async () => {
+      mockFetch.mockResolvedValue({ ok: true, status: 200 });
+      resolveCredentials.mockReturnValue({ auth: { type: 'basic', username: 'miaw', password: 'p:ss' } });
+
+      await dispatcher.queue('https://test.com/hook', { event: 'test', instanceId: 'i1', timestamp: 1 });
+      await vi.advanceTimersByTimeAsync(1000);
+
+      const headers = mockFetch.mock.calls[0][1].headers;
+      expect(headers.Authorization).toBe(`Basic ${Buffer.from('miaw:p:ss').toString('base64')}`);
+    });
+
+    it('should send through one client certificate agent per TLS setting', async () => {
+      mockFetch.mockResolvedValue({ ok: true, status: 200 });
+      const tls = { cert: 'CERT', key: 'KEY', ca: 'CA' };
+      resolveCredentials.mockImplementation((_instanceId, subscriptionId) => (subscriptionId ? { tls } : {}));
+
+      const options = { subscriptionId: 'sub-1' };
+      await dispatcher.queue('https://a.test.com/hook', { event: 'test', instanceId: 'i1', timestamp: 1 }, options);
+      await dispatcher.queue('https://b.test.com/hook', { event: 'test', instanceId: 'i1', timestamp: 2 }, options);
+      await dispatcher.queue('https://c.test.com/hook', { event: 'test', instanceId: 'i1', timestamp: 3 });
+      await vi.advanceTimersByTimeAsync(1000);
+
+      const agents = mockFetch.mock.calls.map((call) => call[1].dispatcher);
+      expect(agents[0]).toBeInstanceOf(Agent);
+      expect(agents[1]).toBe(agents[0]);
+      expect(agents[2]).toBeUndefined();
+    });
+
+    it('should sign with the previous secret too during its grace period', async () => {
+      mockFetch.mockResolvedValue({ ok: true, status: 200 });
+      const payload = { event: 'test', instanceId: 'i1', timestamp: 1 };
+      const previousSecret = { secret: 'old-secret', expiresAt: new Date(Date.now() + 60000).toISOString() };
+      resolveCredentials.mockReturnValue({ secret: 'new-secret', previousSecret });
+
+      await dispatcher.queue('https://test.com/hook', payload);
+      await vi.advanceTimersByTimeAsync(1000);
+
+      const headers = mockFetch.mock.calls[0][1].headers;
+      const timestamp = Number(headers['X-Miaw-Timestamp']);
+      expect(headers['X-Miaw-Signature'].split(', ')).toHaveLength(2);
+      expect(WebhookDispatcher.verifySignature(payload, headers['X-Miaw-Signature'], timestamp, 'new-secret')).toBe(true);
+      expect(WebhookDispatcher.verifySignature(payload, headers['X-Miaw-Signature'], timestamp, 'old-secret')).toBe(true);
+    });
+
+    it('should stop signing with the previous secret once it expired', async () => {
+      mockFetch.mockResolvedValue({ ok: true, status: 200 });
+      const payload = { event: 'test', instanceId: 'i1', timestamp: 1 };
+      const previousSecret = { secret: 'old-secret', expiresAt: new Date(Date.now() + 500).toISOString() };
+      resolveCredentials.mockReturnValue({ secret: 'new-secret', previousSecret });
+
+      await dispatcher.queue('https://test.com/hook', payload);
+      await vi.advanceTimersByTimeAsync(1000);
+
+      const headers = mockFetch.mock.calls[0][1].headers;
+      expect(headers['X-Miaw-Signature'].split(', ')).toHaveLength(1);
+      expect(
+        WebhookDispatcher.verifySignature(payload, headers['X-Miaw-Signature'], Number(headers['X-Miaw-Timestamp']), 'old-secret')
+      ).toBe(false);
+    });
+
+    it('should send and sign the templated body', async () => {
+      mockFetch.mockResolvedValue({ ok: true, status: 200 });
+
+      await dispatcher.queue(
+        'https://test.com/hook',
+        { event: 'message', instanceId: 'i1', timestamp: 1, data: { from: '123@s.whatsapp.net', text: 'hi' } },
+        { template: { content: '{{data.text}}', source: 'miaw:{{instanceId}}' } }
+      );
+      await vi.advanceTimersByTimeAsync(1000);
+
+      const { body, headers } = mockFetch.mock.calls[0][1];
+      expect(JSON.parse(body)).toEqual({ content: 'hi', source: 'miaw:i1' });
+      expect(
+        WebhookDispatcher.verifySignature(
+          JSON.parse(body),
+          headers['X-Miaw-Signature'],
+          Number(headers['X-Miaw-Timestamp']),
+          'test-webhook-secret'
+        )
+      ).toBe(true);
+      expect(dispatcher.getInstanceStats('i1').delivered).toBe(1);
+    });
+
+    it('should keep webhooks with identical event, instance and timestamp', async () => {
+      const payload = { event: 'message', instanceId: 'i1', timestamp: 1 };
+
+      const first = await dispatcher.queue('https://test.com/hook', payload);
+      const second = await dispatcher.queue('https://test.com/hook', { ...payload });
+
+      expect(first).not.toBe(second);
+      expect(dispatcher.getQueueSize()).toBe(2);
+    });
+
     it('should remove webhook from queue on successful delivery', async () => {
       mockFetch.mockResolvedValue({ ok: true, status: 200 });
 
@@ -524,24 +909,857 @@ describe('WebhookDispatcher', () => {
         timestamp: 1,
       });
 
-      // Process multiple times to exhaust retries
       // Attempt 1
-      vi.advanceTimersByTime(1000);
-      await Promise.resolve();
-
-      // Attempt 2
-      vi.advanceTimersByTime(1000);
-      await Promise.resolve();
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(dispatcher.getQueueSize()).toBe(1);
 
-      // Attempt 3 (reaches max)
-      vi.advanceTimersByTime(1000);
-      await Promise.resolve();
+      // Attempt 2 after the first retry delay (reaches max)
+      await vi.advanceTimersByTimeAsync(60000);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
 
       // Should be removed after max retries
       expect(dispatcher.getQueueSize()).toBe(0);
     });
   });
 
+  describe('Dead letters', () => {
+    let deadLetters: WebhookDeadLetterStore;
+
+    beforeEach(() => {
+      deadLetters = new WebhookDeadLetterStore();
+      dispatcher.dispose();
+      dispatcher = new WebhookDispatcher({ ...defaultOptions, maxRetries: 1, deadLetters });
+    });
+
+    it('should move delivery to dead letters after max retries', async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 503 });
+
+      await dispatcher.queue('https://test.com/hook', {
+        event: 'message',
+        instanceId: 'i1',
+        timestamp: 1,
+      });
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(dispatcher.getQueueSize()).toBe(0);
+      const [deadLetter] = dispatcher.listDeadLetters({ instanceId: 'i1' });
+      expect(deadLetter.url).toBe('https://test.com/hook');
+      expect(deadLetter.event).toBe('message');
+      expect(deadLetter.attempts).toBe(1);
+      expect(deadLetter.lastStatusCode).toBe(503);
+      expect(deadLetter.lastError).toBe('HTTP 503');
+    });
+
+    it('should record network error of last attempt', async () => {
+      mockFetch.mockRejectedValue(new Error('socket hang up'));
+
+      await dispatcher.queue('https://test.com/hook', {
+        event: 'message',
+        instanceId: 'i1',
+        timestamp: 1,
+      });
+      await vi.advanceTimersByTimeAsync(1000);
+
+      const [deadLetter] = dispatcher.listDeadLetters({ instanceId: 'i1' });
+      expect(deadLetter.lastStatusCode).toBeUndefined();
+      expect(deadLetter.lastError).toBe('socket hang up');
+    });
+
+    it('should replay a single dead letter', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 500 });
+
+      await dispatcher.queue('https://test.com/hook', {
+        event: 'message',
+        instanceId: 'i1',
+        timestamp: 1,
+      });
+      await vi.advanceTimersByTimeAsync(1000);
+      const [deadLetter] = dispatcher.listDeadLetters({ instanceId: 'i1' });
+
+      mockFetch.mockResolvedValue({ ok: true, status: 200 });
+      expect(dispatcher.replayDeadLetter('i1', deadLetter.id)).toBe(true);
+      expect(dispatcher.getQueueSize()).toBe(1);
+
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(dispatcher.getQueueSize()).toBe(0);
+      expect(dispatcher.listDeadLetters({ instanceId: 'i1' })).toHaveLength(0);
+      expect(dispatcher.getInstanceStats('i1').delivered).toBe(1);
+    });
+
+    it('should send the current endpoint credentials when replaying', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 500 });
+      resolveCredentials.mockReturnValue({ secret: 'old-secret', headers: { 'X-Team': 'ops' } });
+
+      await dispatcher.queue(
+        'https://test.com/hook',
+        { event: 'message', instanceId: 'i1', timestamp: 1 },
+        { subscriptionId: 'sub-1', format: 'cloudevents_structured' }
+      );
+      await vi.advanceTimersByTimeAsync(1000);
+      const [deadLetter] = dispatcher.listDeadLetters({ instanceId: 'i1' });
+      expect(deadLetter.subscriptionId).toBe('sub-1');
+      expect(deadLetter.format).toBe('cloudevents_structured');
+      expect(JSON.stringify(deadLetter)).not.toContain('old-secret');
+
+      mockFetch.mockResolvedValue({ ok: true, status: 200 });
+      resolveCredentials.mockReturnValue({ secret: 'new-secret', headers: { 'X-Team': 'sre' } });
+      dispatcher.replayDeadLetter('i1', deadLetter.id);
+      await vi.advanceTimersByTimeAsync(1000);
+
+      const { headers, body } = mockFetch.mock.calls[1][1];
+      expect(headers['X-Team']).toBe('sre');
+      expect(
+        WebhookDispatcher.verifySignature(JSON.parse(body), headers['X-Miaw-Signature'], Number(headers['X-Miaw-Timestamp']), 'new-secret')
+      ).toBe(true);
+    });
+
+    it('should dead-letter deliveries of a removed endpoint without sending', async () => {
+      resolveCredentials.mockReturnValue(null);
+
+      await dispatcher.queue(
+        'https://test.com/hook',
+        { event: 'message', instanceId: 'i1', timestamp: 1 },
+        { subscriptionId: 'sub-1' }
+      );
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      const [deadLetter] = dispatcher.listDeadLetters({ instanceId: 'i1' });
+      expect(deadLetter.lastError).toBe('Invalid request: Webhook subscription no longer exists');
+    });
+
+    it('should not replay dead letters of another instance', () => {
+      deadLetters.add({
+        id: 'd1',
+        instanceId: 'i2',
+        event: 'message',
+        url: 'https://test.com/hook',
+        payload: {},
+        attempts: 1,
+        failedAt: 1,
+      });
+
+      expect(dispatcher.replayDeadLetter('i1', 'd1')).toBe(false);
+      expect(dispatcher.getQueueSize()).toBe(0);
+    });
+
+    it('should replay and purge dead letters by time range', () => {
+      for (const failedAt of [100, 200, 300]) {
+        deadLetters.add({
+          id: `d${failedAt}`,
+          instanceId: 'i1',
+          event: 'message',
+          url: 'https://test.com/hook',
+          payload: {},
+          attempts: 1,
+          failedAt,
+        });
+      }
+
+      expect(dispatcher.replayDeadLetters({ instanceId: 'i1', from: 150 })).toBe(2);
+      expect(dispatcher.getQueueSize()).toBe(2);
+      expect(dispatcher.purgeDeadLetters({ instanceId: 'i1' })).toBe(1);
+      expect(deadLetters.size()).toBe(0);
+    });
+  });
+
+  describe('Retry policy', () => {
+    const payload = { event: 'test', instanceId: 'i1', timestamp: 1 };
+
+    function createDispatcher(overrides: Record<string, unknown> = {}) {
+      dispatcher.dispose();
+      dispatcher = new WebhookDispatcher({
+        ...defaultOptions,
+        retryDelay: 1000,
+        retryMultiplier: 2,
+        retryJitter: 0,
+        maxRetries: 4,
+        ...overrides,
+      });
+    }
+
+    it('should back off exponentially from the base delay', async () => {
+      createDispatcher();
+      mockFetch.mockResolvedValue({ ok: false, status: 500 });
+
+      await dispatcher.queue('https://test.com/hook', payload);
+      await vi.advanceTimersByTimeAsync(1000); // attempt 1, retry in 1s
+      await vi.advanceTimersByTimeAsync(1000); // attempt 2, retry in 2s
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+
+      await vi.advanceTimersByTimeAsync(1999);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should cap delays at the max delay', async () => {
+      createDispatcher({ retryMultiplier: 10, retryMaxDelay: 2000 });
+      mockFetch.mockResolvedValue({ ok: false, status: 500 });
+
+      await dispatcher.queue('https://test.com/hook', payload);
+      await vi.advanceTimersByTimeAsync(2000); // attempts 1 and 2
+      await vi.advanceTimersByTimeAsync(2000); // capped from 10s
+
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should honour Retry-After on 429', async () => {
+      createDispatcher();
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 429,
+        headers: new Headers({ 'Retry-After': '30' }),
+      });
+      mockFetch.mockResolvedValue({ ok: true, status: 200 });
+
+      await dispatcher.queue('https://test.com/hook', payload);
+      await vi.advanceTimersByTimeAsync(1000);
+      await vi.advanceTimersByTimeAsync(29000);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should cap Retry-After at the max delay', async () => {
+      createDispatcher({ retryMaxDelay: 60000 });
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 503,
+        headers: new Headers({ 'Retry-After': '99999999' }),
+      });
+      mockFetch.mockResolvedValue({ ok: true, status: 200 });
+
+      await dispatcher.queue('https://test.com/hook', payload);
+      await vi.advanceTimersByTimeAsync(1000);
+      await vi.advanceTimersByTimeAsync(59000);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(dispatcher.getQueueSize()).toBe(0);
+    });
+
+    it('should cap a Retry-After date at the endpoint max delay', async () => {
+      createDispatcher();
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 429,
+        headers: new Headers({ 'Retry-After': new Date(Date.now() + 86400000).toUTCString() }),
+      });
+      mockFetch.mockResolvedValue({ ok: true, status: 200 });
+
+      await dispatcher.queue('https://test.com/hook', payload, { retryPolicy: { maxDelayMs: 5000 } });
+      await vi.advanceTimersByTimeAsync(1000);
+      await vi.advanceTimersByTimeAsync(6000);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry other 4xx responses', async () => {
+      createDispatcher();
+      mockFetch.mockResolvedValue({ ok: false, status: 400 });
+
+      await dispatcher.queue('https://test.com/hook', payload);
+      await vi.advanceTimersByTimeAsync(5000);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(dispatcher.getQueueSize()).toBe(0);
+      expect(dispatcher.listDeadLetters({ instanceId: 'i1' })[0].lastStatusCode).toBe(400);
+    });
+
+    it('should report endpoint gone on 410 without retrying', async () => {
+      createDispatcher();
+      mockFetch.mockResolvedValue({ ok: false, status: 410 });
+      const onGone = vi.fn();
+      dispatcher.on('endpoint_gone', onGone);
+
+      await dispatcher.queue('https://test.com/hook', payload, { subscriptionId: 'sub-1' });
+      await vi.advanceTimersByTimeAsync(5000);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(onGone).toHaveBeenCalledWith({
+        instanceId: 'i1',
+        url: 'https://test.com/hook',
+        subscriptionId: 'sub-1',
+      });
+    });
+
+    it('should apply endpoint retry policy overrides', async () => {
+      createDispatcher();
+      mockFetch.mockResolvedValue({ ok: false, status: 503 });
+
+      await dispatcher.queue('https://test.com/hook', payload, { retryPolicy: { maxAttempts: 1 } });
+      await vi.advanceTimersByTimeAsync(5000);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(dispatcher.listDeadLetters({ instanceId: 'i1' })).toHaveLength(1);
+    });
+  });
+
+  describe('Circuit breaker', () => {
+    const payload = { event: 'test', instanceId: 'i1', timestamp: 1 };
+
+    beforeEach(() => {
+      dispatcher.dispose();
+      dispatcher = new WebhookDispatcher({
+        ...defaultOptions,
+        maxRetries: 10,
+        retryDelay: 1000,
+        retryJitter: 0,
+        retryMultiplier: 1,
+        circuitThreshold: 2,
+        circuitCooldown: 10000,
+      });
+    });
+
+    it('should open after consecutive failures and hold deliveries', async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 503 });
+      const onOpen = vi.fn();
+      dispatcher.on('circuit_open', onOpen);
+
+      await dispatcher.queue('https://down.com/hook', payload);
+      await vi.advanceTimersByTimeAsync(2000); // attempts 1 and 2 -> open
+      await dispatcher.queue('https://down.com/hook', { ...payload, instanceId: 'i2' });
+      await vi.advanceTimersByTimeAsync(5000);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(onOpen).toHaveBeenCalledWith(expect.objectContaining({ url: 'https://down.com/hook', state: 'open' }));
+
+      const [destination] = dispatcher.getInstanceStats('i1').destinations;
+      expect(destination.circuit.state).toBe('open');
+      const aggregate = dispatcher.getAggregateStats();
+      expect(aggregate.circuitOpens).toBe(1);
+      expect(aggregate.circuits.map((c) => c.url)).toEqual(['https://down.com/hook']);
+    });
+
+    it('should not affect other destinations', async () => {
+      mockFetch.mockImplementation(async (url: string) =>
+        url.startsWith('https://down.com') ? { ok: false, status: 500 } : { ok: true, status: 200 }
+      );
+
+      await dispatcher.queue('https://down.com/hook', payload);
+      await vi.advanceTimersByTimeAsync(2000);
+      await dispatcher.queue('https://up.com/hook', payload);
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(mockFetch).toHaveBeenLastCalledWith('https://up.com/hook', expect.anything());
+    });
+
+    it('should send one probe after cooldown and close on success', async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 500 });
+
+      await dispatcher.queue('https://down.com/hook', payload);
+      await vi.advanceTimersByTimeAsync(2000);
+      await dispatcher.queue('https://down.com/hook', { ...payload, instanceId: 'i2' });
+
+      mockFetch.mockResolvedValue({ ok: true, status: 200 });
+      await vi.advanceTimersByTimeAsync(10000);
+
+      // Probe first, then the held delivery once the circuit closed
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+      expect(dispatcher.getQueueSize()).toBe(0);
+      expect(dispatcher.getAggregateStats().circuits).toEqual([]);
+    });
+
+    it('should not count client errors as failures', async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 422 });
+
+      for (let i = 0; i < 3; i++) {
+        await dispatcher.queue('https://test.com/hook', { ...payload, timestamp: i });
+      }
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(dispatcher.getInstanceStats('i1').destinations[0].circuit.state).toBe('closed');
+    });
+  });
+
+  describe('Concurrent delivery', () => {
+    // fetch mock whose responses are resolved by the test
+    function deferFetch() {
+      const pending: ((value: any) => void)[] = [];
+      mockFetch.mockImplementation(
+        () => new Promise((resolve) => pending.push(resolve))
+      );
+      return pending;
+    }
+
+    beforeEach(() => {
+      dispatcher.dispose();
+      dispatcher = new WebhookDispatcher({ ...defaultOptions, concurrency: 2 });
+    });
+
+    it('should not wait for a slow endpoint before delivering to others', async () => {
+      const pending = deferFetch();
+
+      await dispatcher.queue('https://slow.com/hook', { event: 'message', instanceId: 'i1', timestamp: 1 });
+      await dispatcher.queue('https://fast.com/hook', { event: 'message', instanceId: 'i2', timestamp: 1 });
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(mockFetch.mock.calls.map(([url]) => url)).toEqual([
+        'https://slow.com/hook',
+        'https://fast.com/hook',
+      ]);
+      expect(pending).toHaveLength(2);
+    });
+
+    it('should not exceed configured concurrency', async () => {
+      const pending = deferFetch();
+
+      for (let i = 0; i < 5; i++) {
+        await dispatcher.queue(`https://test.com/hook-${i}`, { event: 'test', instanceId: 'i1', timestamp: i });
+      }
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(dispatcher.getBackpressure()).toMatchObject({
+        concurrency: 2,
+        inFlight: 2,
+        queued: 5,
+        waitingForWorker: 3,
+        blocked: 0,
+      });
+
+      // A finished delivery frees its worker for the next one right away
+      pending[0]({ ok: true, status: 200 });
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should deliver events of the same chat to a URL in order', async () => {
+      const pending = deferFetch();
+      const message = (text: string) => ({
+        event: 'message',
+        instanceId: 'i1',
+        timestamp: 1,
+        data: { from: 'chat-1', text },
+      });
+
+      await dispatcher.queue('https://test.com/hook', message('first'));
+      await dispatcher.queue('https://test.com/hook', message('second'));
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(dispatcher.getBackpressure().blocked).toBe(1);
+
+      pending[0]({ ok: true, status: 200 });
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(JSON.parse(mockFetch.mock.calls[1][1].body).data.text).toBe('second');
+    });
+
+    it('should hold later events of a chat while an earlier one waits for retry', async () => {
+      dispatcher.dispose();
+      dispatcher = new WebhookDispatcher({ ...defaultOptions, concurrency: 2, retryDelay: 60000 });
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 500 });
+      mockFetch.mockResolvedValue({ ok: true, status: 200 });
+      const message = { event: 'message', instanceId: 'i1', timestamp: 1, data: { from: 'chat-1' } };
+
+      await dispatcher.queue('https://test.com/hook', message);
+      await dispatcher.queue('https://test.com/hook', { ...message, timestamp: 2 });
+      await vi.advanceTimersByTimeAsync(5000);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(dispatcher.getQueueSize()).toBe(2);
+    });
+
+    it('should share workers round-robin across instances', async () => {
+      deferFetch();
+
+      for (let i = 0; i < 3; i++) {
+        await dispatcher.queue(`https://busy.com/hook-${i}`, { event: 'test', instanceId: 'busy', timestamp: i });
+      }
+      await dispatcher.queue('https://quiet.com/hook', { event: 'test', instanceId: 'quiet', timestamp: 1 });
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(mockFetch.mock.calls.map(([url]) => url)).toEqual([
+        'https://busy.com/hook-0',
+        'https://quiet.com/hook',
+      ]);
+      expect(dispatcher.getInstanceStats('busy').inFlight).toBe(1);
+      expect(dispatcher.getAggregateStats().backpressure.inFlight).toBe(2);
+    });
+  });
+
+  describe('Batched delivery', () => {
+    const batch = { maxSize: 3, maxWaitMs: 500 };
+
+    function event(i: number, instanceId = 'i1') {
+      return { id: `evt-${i}`, event: 'message', instanceId, timestamp: i };
+    }
+
+    it('should deliver a signed array once the batch is full', async () => {
+      mockFetch.mockResolvedValue({ ok: true, status: 200 });
+
+      const ids = [];
+      for (let i = 0; i < 3; i++) {
+        ids.push(await dispatcher.queue('https://test.com/hook', event(i), { subscriptionId: 'sub-1', batch }));
+      }
+      expect(new Set(ids).size).toBe(1);
+      expect(dispatcher.getQueueSize()).toBe(1);
+
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      const { body, headers } = mockFetch.mock.calls[0][1];
+      expect(JSON.parse(body).map((e: any) => e.id)).toEqual(['evt-0', 'evt-1', 'evt-2']);
+      expect(headers['X-Miaw-Batch-Size']).toBe('3');
+      expect(headers['X-Miaw-Delivery-Id']).toBe(ids[0]);
+      expect(
+        WebhookDispatcher.verifySignature(
+          JSON.parse(body),
+          headers['X-Miaw-Signature'],
+          Number(headers['X-Miaw-Timestamp']),
+          'test-webhook-secret'
+        )
+      ).toBe(true);
+    });
+
+    it('should queue a partial batch after maxWaitMs', async () => {
+      mockFetch.mockResolvedValue({ ok: true, status: 200 });
+
+      await dispatcher.queue('https://test.com/hook', event(1), { batch });
+      await dispatcher.queue('https://test.com/hook', event(2), { batch });
+      expect(dispatcher.getQueueSize()).toBe(0);
+
+      await vi.advanceTimersByTimeAsync(500);
+      expect(dispatcher.getQueueSize()).toBe(1);
+
+      await vi.advanceTimersByTimeAsync(500);
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toHaveLength(2);
+    });
+
+    it('should keep batches of different instances apart', async () => {
+      await dispatcher.queue('https://test.com/hook', event(1, 'i1'), { batch });
+      await dispatcher.queue('https://test.com/hook', event(2, 'i2'), { batch });
+      await vi.advanceTimersByTimeAsync(500);
+
+      expect(dispatcher.getInstanceStats('i1').queued).toBe(1);
+      expect(dispatcher.getInstanceStats('i2').queued).toBe(1);
+    });
+
+    it('should retry and dead-letter a batch as a whole', async () => {
+      const deadLetters = new WebhookDeadLetterStore();
+      dispatcher.dispose();
+      dispatcher = new WebhookDispatcher({ ...defaultOptions, maxRetries: 1, deadLetters });
+      mockFetch.mockResolvedValue({ ok: false, status: 500 });
+
+      await dispatcher.queue('https://test.com/hook', event(1), { batch: { maxSize: 2, maxWaitMs: 500 } });
+      await dispatcher.queue('https://test.com/hook', event(2), { batch: { maxSize: 2, maxWaitMs: 500 } });
+      await vi.advanceTimersByTimeAsync(1000);
+
+      const [deadLetter] = dispatcher.listDeadLetters({ instanceId: 'i1' });
+      expect(deadLetter.event).toBe('batch');
+      expect(deadLetter.payload).toHaveLength(2);
+    });
+
+    it('should apply the template to each event', async () => {
+      mockFetch.mockResolvedValue({ ok: true, status: 200 });
+
+      await dispatcher.queue('https://test.com/hook', event(1), {
+        batch: { maxSize: 2, maxWaitMs: 500 },
+        template: { ref: '{{id}}' },
+      });
+      await dispatcher.queue('https://test.com/hook', event(2), {
+        batch: { maxSize: 2, maxWaitMs: 500 },
+        template: { ref: '{{id}}' },
+      });
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toEqual([{ ref: 'evt-1' }, { ref: 'evt-2' }]);
+    });
+
+    it('should keep open batches in the store on dispose', async () => {
+      const store = new MemoryWebhookQueueStore();
+      dispatcher.dispose();
+      dispatcher = new WebhookDispatcher({ ...defaultOptions, store });
+
+      await dispatcher.queue('https://test.com/hook', event(1), { batch });
+      dispatcher.dispose();
+
+      const [entry] = store.load();
+      expect(entry.payload).toHaveLength(1);
+    });
+  });
+
+  describe('CloudEvents format', () => {
+    const payload = { id: 'evt-1', event: 'message', instanceId: 'i1', timestamp: 1700000000000, data: { text: 'hi' } };
+
+    it('should send a structured CloudEvent signed as sent', async () => {
+      mockFetch.mockResolvedValue({ ok: true, status: 200 });
+
+      await dispatcher.queue('https://test.com/hook', payload, { format: 'cloudevents_structured' });
+      await vi.advanceTimersByTimeAsync(1000);
+
+      const { headers, body } = mockFetch.mock.calls[0][1];
+      const event = JSON.parse(body);
+      expect(headers['Content-Type']).toBe('application/cloudevents+json; charset=utf-8');
+      expect(event).toMatchObject({
+        specversion: '1.0',
+        id: 'evt-1',
+        type: 'dev.miaw.message',
+        source: 'i1',
+        time: '2023-11-14T22:13:20.000Z',
+        data: { text: 'hi' },
+      });
+      expect(
+        WebhookDispatcher.verifySignature(
+          event,
+          headers['X-Miaw-Signature'],
+          Number(headers['X-Miaw-Timestamp']),
+          'test-webhook-secret'
+        )
+      ).toBe(true);
+    });
+
+    it('should send binary mode as ce-* headers with the data as body', async () => {
+      mockFetch.mockResolvedValue({ ok: true, status: 200 });
+
+      resolveCredentials.mockReturnValue({ headers: { 'ce-type': 'forged' } });
+
+      await dispatcher.queue('https://test.com/hook', payload, { format: 'cloudevents_binary' });
+      await vi.advanceTimersByTimeAsync(1000);
+
+      const { headers, body } = mockFetch.mock.calls[0][1];
+      expect(JSON.parse(body)).toEqual({ text: 'hi' });
+      expect(headers['Content-Type']).toBe('application/json');
+      expect(headers['ce-id']).toBe('evt-1');
+      expect(headers['ce-type']).toBe('dev.miaw.message');
+      expect(headers['ce-source']).toBe('i1');
+      expect(headers['X-Miaw-Signature']).toMatch(/^sha256=/);
+    });
+
+    it('should render templates into the CloudEvent data', async () => {
+      mockFetch.mockResolvedValue({ ok: true, status: 200 });
+
+      await dispatcher.queue('https://test.com/hook', payload, {
+        format: 'cloudevents_structured',
+        template: { message: '{{data.text}}' },
+      });
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).data).toEqual({ message: 'hi' });
+    });
+
+    it('should send batches as a CloudEvents batch', async () => {
+      mockFetch.mockResolvedValue({ ok: true, status: 200 });
+      const options = { format: 'cloudevents_binary' as const, batch: { maxSize: 2, maxWaitMs: 500 } };
+
+      await dispatcher.queue('https://test.com/hook', payload, options);
+      await dispatcher.queue('https://test.com/hook', { ...payload, id: 'evt-2' }, options);
+      await vi.advanceTimersByTimeAsync(1000);
+
+      const { headers, body } = mockFetch.mock.calls[0][1];
+      expect(headers['Content-Type']).toBe('application/cloudevents-batch+json; charset=utf-8');
+      expect(JSON.parse(body).map((event: any) => event.id)).toEqual(['evt-1', 'evt-2']);
+    });
+  });
+
+  describe('Destination policy', () => {
+    let policy: DestinationPolicy;
+
+    beforeEach(() => {
+      policy = new DestinationPolicy();
+      dispatcher.dispose();
+      dispatcher = new WebhookDispatcher({ ...defaultOptions, destinationPolicy: policy });
+    });
+
+    it('should send through the policy dispatcher', async () => {
+      mockFetch.mockResolvedValue({ ok: true, status: 200 });
+
+      await dispatcher.queue('https://test.com/hook', { event: 'message', instanceId: 'i1', timestamp: 1 });
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://test.com/hook',
+        expect.objectContaining({ dispatcher: policy.getDispatcher() })
+      );
+    });
+
+    it('should dead-letter a blocked address without sending or retrying', async () => {
+      await dispatcher.queue('http://169.254.169.254/latest', { event: 'message', instanceId: 'i1', timestamp: 1 });
+      await vi.advanceTimersByTimeAsync(10000);
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(dispatcher.getQueueSize()).toBe(0);
+      const [deadLetter] = dispatcher.listDeadLetters({ instanceId: 'i1' });
+      expect(deadLetter.attempts).toBe(1);
+      expect(deadLetter.lastError).toBe('Destination blocked: Address 169.254.169.254 is not a public address');
+    });
+
+    it('should not retry when the resolved address is blocked', async () => {
+      mockFetch.mockRejectedValue(
+        new TypeError('fetch failed', { cause: new DestinationPolicyError('Address 10.0.0.1 is not a public address') })
+      );
+
+      await dispatcher.queue('https://rebind.test/hook', { event: 'message', instanceId: 'i1', timestamp: 1 });
+      await vi.advanceTimersByTimeAsync(10000);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      const [deadLetter] = dispatcher.listDeadLetters({ instanceId: 'i1' });
+      expect(deadLetter.lastError).toBe('Destination blocked: Address 10.0.0.1 is not a public address');
+      expect(dispatcher.getInstanceStats('i1').destinations[0].circuit.consecutiveFailures).toBe(0);
+    });
+
+    it('should not follow redirects past the policy', async () => {
+      vi.useRealTimers();
+      mockFetch.mockImplementation(realFetch);
+
+      // 127.0.0.2 is loopback too, but outside the allowed range
+      let internalRequests = 0;
+      const internal = http.createServer((_req, res) => {
+        internalRequests++;
+        res.end('secret');
+      });
+      await new Promise<void>((resolve) => internal.listen(0, '127.0.0.2', resolve));
+      const internalPort = (internal.address() as AddressInfo).port;
+
+      const redirecting = http.createServer((req, res) => {
+        req.resume();
+        res.writeHead(302, { Location: `http://127.0.0.2:${internalPort}/internal` }).end();
+      });
+      await new Promise<void>((resolve) => redirecting.listen(0, '127.0.0.1', resolve));
+      const port = (redirecting.address() as AddressInfo).port;
+
+      try {
+        dispatcher.dispose();
+        dispatcher = new WebhookDispatcher({
+          ...defaultOptions,
+          destinationPolicy: new DestinationPolicy({ allowedCidrs: ['127.0.0.1/32'] }),
+        });
+
+        await dispatcher.queue(`http://127.0.0.1:${port}/hook`, { event: 'message', instanceId: 'i1', timestamp: 1 });
+        await vi.waitFor(() => expect(dispatcher.listDeadLetters({ instanceId: 'i1' })).toHaveLength(1), {
+          timeout: 5000,
+        });
+
+        const [deadLetter] = dispatcher.listDeadLetters({ instanceId: 'i1' });
+        expect(deadLetter.attempts).toBe(1);
+        expect(deadLetter.lastStatusCode).toBe(302);
+        expect(deadLetter.lastError).toBe('HTTP 302 (redirects are not followed)');
+        expect(internalRequests).toBe(0);
+      } finally {
+        redirecting.close();
+        internal.close();
+      }
+    });
+  });
+
+  describe('Delivery log', () => {
+    it('should record each attempt with status code and response body', async () => {
+      mockFetch
+        .mockResolvedValueOnce(new Response('boom', { status: 500 }))
+        .mockResolvedValueOnce(new Response('ok', { status: 200 }));
+
+      const deliveryId = await dispatcher.queue('https://test.com/hook', {
+        event: 'message',
+        instanceId: 'i1',
+        timestamp: 1,
+      });
+      await vi.advanceTimersByTimeAsync(1000);
+      await vi.advanceTimersByTimeAsync(2000);
+
+      const attempts = dispatcher.listDeliveryAttempts({ instanceId: 'i1' });
+      expect(attempts.map((a) => [a.attempt, a.status, a.statusCode])).toEqual([
+        [2, 'success', 200],
+        [1, 'failed', 500],
+      ]);
+      expect(attempts[1].error).toBe('HTTP 500');
+
+      const delivery = dispatcher.getDelivery('i1', deliveryId)!;
+      expect(delivery.state).toBe('delivered');
+      expect(delivery.attempts.map((a) => a.responseBody)).toEqual(['boom', 'ok']);
+      expect(delivery.attempts[0].requestHeaders['X-Miaw-Delivery-Id']).toBe(deliveryId);
+      expect(JSON.parse(delivery.attempts[0].requestBody).event).toBe('message');
+    });
+
+    it('should redact credentials in recorded request headers', async () => {
+      mockFetch.mockResolvedValue({ ok: true, status: 200 });
+      resolveCredentials.mockReturnValue({
+        headers: { 'X-Api-Key': 'key-123', 'X-Team': 'ops' },
+        auth: { type: 'bearer', token: 'tok-123' },
+      });
+
+      const deliveryId = await dispatcher.queue('https://test.com/hook', {
+        event: 'message',
+        instanceId: 'i1',
+        timestamp: 1,
+      });
+      await vi.advanceTimersByTimeAsync(1000);
+
+      const { requestHeaders } = dispatcher.getDelivery('i1', deliveryId)!.attempts[0];
+      expect(requestHeaders.Authorization).toBe('***');
+      expect(requestHeaders['X-Api-Key']).toBe('***');
+      expect(requestHeaders['X-Team']).toBe('ops');
+    });
+
+    it('should record network errors and report pending retries', async () => {
+      mockFetch.mockRejectedValue(new Error('socket hang up'));
+
+      const deliveryId = await dispatcher.queue('https://test.com/hook', {
+        event: 'message',
+        instanceId: 'i1',
+        timestamp: 1,
+      });
+      await vi.advanceTimersByTimeAsync(1000);
+
+      const delivery = dispatcher.getDelivery('i1', deliveryId)!;
+      expect(delivery.state).toBe('pending');
+      expect(delivery.nextRetryTime).toBeGreaterThan(Date.now());
+      expect(delivery.attempts[0].status).toBe('failed');
+      expect(delivery.attempts[0].statusCode).toBeUndefined();
+      expect(delivery.attempts[0].error).toBe('socket hang up');
+    });
+
+    it('should filter attempts by status and event', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200 });
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 400 });
+
+      await dispatcher.queue('https://a.com/hook', { event: 'message', instanceId: 'i1', timestamp: 1 });
+      await dispatcher.queue('https://b.com/hook', { event: 'ready', instanceId: 'i1', timestamp: 2 });
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(dispatcher.listDeliveryAttempts({ instanceId: 'i1', status: 'failed' })).toHaveLength(1);
+      expect(dispatcher.listDeliveryAttempts({ instanceId: 'i1', event: 'message' })[0].url).toBe(
+        'https://a.com/hook'
+      );
+    });
+
+    it('should read only the start of a large response and cancel the rest', async () => {
+      let pulls = 0;
+      const cancel = vi.fn();
+      const endless = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          pulls++;
+          controller.enqueue(new TextEncoder().encode('x'.repeat(256)));
+        },
+        cancel,
+      });
+      mockFetch.mockResolvedValue(new Response(endless, { status: 200 }));
+
+      const deliveryId = await dispatcher.queue('https://test.com/hook', {
+        event: 'message',
+        instanceId: 'i1',
+        timestamp: 1,
+      });
+      await vi.advanceTimersByTimeAsync(1000);
+
+      const [attempt] = dispatcher.getDelivery('i1', deliveryId)!.attempts;
+      expect(attempt.responseBody).toBe(`${'x'.repeat(1024)}... [truncated]`);
+      expect(pulls).toBeLessThan(10);
+      expect(cancel).toHaveBeenCalled();
+    });
+
+    it('should return null for unknown deliveries', () => {
+      expect(dispatcher.getDelivery('i1', 'missing')).toBeNull();
+    });
+  });
+
   describe('Error handling in processQueue', () => {
     it('should not crash on unexpected errors', async () => {
       // This tests the try-catch wrapper we added
@@ -561,4 +1779,64 @@ describe('WebhookDispatcher', () => {
       }).not.toThrow();
     });
   });
+
+  describe('Unexpected errors', () => {
+    // Real timers: a delivery picked up again at once would starve them
+    beforeEach(() => {
+      dispatcher.dispose();
+      vi.useRealTimers();
+      dispatcher = new WebhookDispatcher(defaultOptions);
+    });
+
+    const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+    it('should dead-letter a payload that cannot be serialised', async () => {
+      await dispatcher.queue('https://test.com/hook', {
+        event: 'message',
+        instanceId: 'i1',
+        timestamp: 1,
+        data: { count: BigInt(1) },
+      });
+      await sleep(1200);
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(dispatcher.getQueueSize()).toBe(0);
+      const [deadLetter] = dispatcher.listDeadLetters({ instanceId: 'i1' });
+      expect(deadLetter.attempts).toBe(1);
+      expect(deadLetter.lastError).toMatch(/^Invalid request: .*BigInt/);
+      expect(dispatcher.listDeliveryAttempts({ instanceId: 'i1' })[0].error).toBe(deadLetter.lastError);
+    });
+
+    it('should reschedule an attempt that fails unexpectedly', async () => {
+      const deliveryLog = new WebhookDeliveryLog();
+      vi.spyOn(deliveryLog, 'add').mockImplementation(() => {
+        throw new Error('Log unavailable');
+      });
+      dispatcher.dispose();
+      dispatcher = new WebhookDispatcher({ ...defaultOptions, retryDelay: 60000, deliveryLog });
+      mockFetch.mockResolvedValue({ ok: false, status: 500 });
+
+      await dispatcher.queue('https://test.com/hook', { event: 'message', instanceId: 'i1', timestamp: 1 });
+      await sleep(1200);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(dispatcher.getBackpressure()).toMatchObject({ inFlight: 0, queued: 1, blocked: 1 });
+    });
+
+    it('should dead-letter an attempt that fails unexpectedly on the last try', async () => {
+      const deliveryLog = new WebhookDeliveryLog();
+      vi.spyOn(deliveryLog, 'add').mockImplementation(() => {
+        throw new Error('Log unavailable');
+      });
+      dispatcher.dispose();
+      dispatcher = new WebhookDispatcher({ ...defaultOptions, maxRetries: 1, deliveryLog });
+      mockFetch.mockResolvedValue({ ok: false, status: 500 });
+
+      await dispatcher.queue('https://test.com/hook', { event: 'message', instanceId: 'i1', timestamp: 1 });
+      await sleep(1200);
+
+      expect(dispatcher.getQueueSize()).toBe(0);
+      expect(dispatcher.listDeadLetters({ instanceId: 'i1' })[0].lastError).toBe('Log unavailable');
+    });
+  });
 });
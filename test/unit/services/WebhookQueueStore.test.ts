@@ -0,0 +1,138 @@
+/**
+ * Unit tests for webhook queue stores
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  FileWebhookQueueStore,
+  MemoryWebhookQueueStore,
+  QueuedWebhook,
+} from '../../../src/services/WebhookQueueStore';
+
+function createEntry(id: string, overrides: Partial<QueuedWebhook> = {}): QueuedWebhook {
+  return {
+    id,
+    url: 'https://example.com/hook',
+    payload: { event: 'message', instanceId: 'i1', timestamp: 1 },
+    attempt: 0,
+    ...overrides,
+  };
+}
+
+describe('MemoryWebhookQueueStore', () => {
+  it('should save, load and remove entries', () => {
+    const store = new MemoryWebhookQueueStore();
+
+    store.save(createEntry('a'));
+    store.save(createEntry('b'));
+    store.remove('a');
+
+    expect(store.load().map((e) => e.id)).toEqual(['b']);
+  });
+});
+
+describe('FileWebhookQueueStore', () => {
+  let tmpDir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'miaw-queue-'));
+    filePath = path.join(tmpDir, 'queue', 'webhook-queue.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should start empty when journal does not exist', () => {
+    const store = new FileWebhookQueueStore({ filePath });
+
+    expect(store.load()).toEqual([]);
+    store.close();
+  });
+
+  it('should persist entries across store instances', () => {
+    const store = new FileWebhookQueueStore({ filePath });
+    store.load();
+    store.save(createEntry('a'));
+    store.save(createEntry('b'));
+    store.close();
+
+    const reopened = new FileWebhookQueueStore({ filePath });
+    expect(reopened.load().map((e) => e.id).sort()).toEqual(['a', 'b']);
+    reopened.close();
+  });
+
+  it('should keep latest version of updated entries', () => {
+    const store = new FileWebhookQueueStore({ filePath });
+    store.load();
+    store.save(createEntry('a'));
+    store.save(createEntry('a', { attempt: 2, nextRetryTime: 5000 }));
+    store.close();
+
+    const reopened = new FileWebhookQueueStore({ filePath });
+    const [entry] = reopened.load();
+    expect(entry.attempt).toBe(2);
+    expect(entry.nextRetryTime).toBe(5000);
+    reopened.close();
+  });
+
+  it('should not restore removed entries', () => {
+    const store = new FileWebhookQueueStore({ filePath });
+    store.load();
+    store.save(createEntry('a'));
+    store.remove('a');
+    store.close();
+
+    const reopened = new FileWebhookQueueStore({ filePath });
+    expect(reopened.load()).toEqual([]);
+    reopened.close();
+  });
+
+  it('should skip a torn last line', () => {
+    const store = new FileWebhookQueueStore({ filePath });
+    store.load();
+    store.save(createEntry('a'));
+    store.close();
+    fs.appendFileSync(filePath, '{"op":"put","entry":{"id":"b"');
+
+    const reopened = new FileWebhookQueueStore({ filePath });
+    expect(reopened.load().map((e) => e.id)).toEqual(['a']);
+    reopened.close();
+  });
+
+  it('should compact journal on load', () => {
+    const store = new FileWebhookQueueStore({ filePath });
+    store.load();
+    for (let i = 0; i < 10; i++) {
+      store.save(createEntry(`e${i}`));
+      store.remove(`e${i}`);
+    }
+    store.save(createEntry('kept'));
+    store.close();
+
+    const reopened = new FileWebhookQueueStore({ filePath });
+    reopened.load();
+    reopened.close();
+
+    const lines = fs.readFileSync(filePath, 'utf8').trim().split('\n');
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0]).entry.id).toBe('kept');
+  });
+
+  it('should compact journal when stale records exceed threshold', () => {
+    const store = new FileWebhookQueueStore({ filePath, compactThreshold: 5 });
+    store.load();
+    for (let i = 0; i < 10; i++) {
+      store.save(createEntry(`e${i}`));
+      store.remove(`e${i}`);
+    }
+
+    const lines = fs.readFileSync(filePath, 'utf8').split('\n').filter(Boolean);
+    expect(lines.length).toBeLessThanOrEqual(6);
+    store.close();
+  });
+});
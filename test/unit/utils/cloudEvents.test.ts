@@ -0,0 +1,45 @@
+/**
+ * Unit tests for the CloudEvents mapping
+ */
+
+import { describe, it, expect } from 'vitest';
+import { cloudEventHeaders, toCloudEvent } from '../../../src/utils/cloudEvents';
+import { WebhookPayload } from '../../../src/types';
+
+const payload: WebhookPayload = {
+  id: 'evt-1',
+  event: 'message',
+  instanceId: 'my-bot',
+  timestamp: 0,
+  data: { text: 'hi' },
+};
+
+describe('toCloudEvent()', () => {
+  it('should map the payload to CloudEvents attributes', () => {
+    expect(toCloudEvent(payload)).toEqual({
+      specversion: '1.0',
+      id: 'evt-1',
+      type: 'dev.miaw.message',
+      source: 'my-bot',
+      time: '1970-01-01T00:00:00.000Z',
+      datacontenttype: 'application/json',
+      data: { text: 'hi' },
+    });
+  });
+
+  it('should use the given data', () => {
+    expect(toCloudEvent(payload, { body: 1 }).data).toEqual({ body: 1 });
+  });
+});
+
+describe('cloudEventHeaders()', () => {
+  it('should return the binary mode headers', () => {
+    expect(cloudEventHeaders(toCloudEvent(payload))).toEqual({
+      'ce-specversion': '1.0',
+      'ce-id': 'evt-1',
+      'ce-type': 'dev.miaw.message',
+      'ce-source': 'my-bot',
+      'ce-time': '1970-01-01T00:00:00.000Z',
+    });
+  });
+});
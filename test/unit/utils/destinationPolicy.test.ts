@@ -0,0 +1,139 @@
+/**
+ * Unit tests for the webhook destination policy
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  assertWebhookDestination,
+  DestinationPolicy,
+  DestinationPolicyError,
+  parseCidr,
+} from '../../../src/utils/destinationPolicy';
+import { ValidationError } from '../../../src/utils/errorHandler';
+
+/**
+ * Run the delivery-time lookup and return the error or resolved addresses
+ */
+function lookup(policy: DestinationPolicy, hostname: string): Promise<{ err?: Error; addresses?: any }> {
+  return new Promise((resolve) => {
+    policy.lookup(hostname, { all: true }, (err: Error | null, addresses?: any) => {
+      resolve(err ? { err } : { addresses });
+    });
+  });
+}
+
+describe('parseCidr()', () => {
+  it('should parse IPv4 and IPv6 ranges', () => {
+    expect(parseCidr('10.0.0.0/8')).toEqual({ address: '10.0.0.0', prefix: 8, type: 'ipv4' });
+    expect(parseCidr('fc00::/7')).toEqual({ address: 'fc00::', prefix: 7, type: 'ipv6' });
+  });
+
+  it('should treat a bare address as a single host', () => {
+    expect(parseCidr('203.0.113.7')).toEqual({ address: '203.0.113.7', prefix: 32, type: 'ipv4' });
+  });
+
+  it('should reject invalid ranges', () => {
+    expect(parseCidr('example.com/8')).toBeNull();
+    expect(parseCidr('10.0.0.0/33')).toBeNull();
+    expect(parseCidr('10.0.0.0/abc')).toBeNull();
+    expect(parseCidr('10.0.0.0/8/1')).toBeNull();
+  });
+});
+
+describe('DestinationPolicy', () => {
+  describe('checkUrl()', () => {
+    it('should allow public http and https URLs by default', () => {
+      const policy = new DestinationPolicy();
+
+      expect(() => policy.checkUrl('https://hooks.example.com/miaw')).not.toThrow();
+      expect(() => policy.checkUrl('http://93.184.216.34/miaw')).not.toThrow();
+    });
+
+    it('should reject other schemes and http in HTTPS-only mode', () => {
+      expect(() => new DestinationPolicy().checkUrl('file:///etc/passwd')).toThrow(
+        'Only http and https URLs are allowed'
+      );
+      expect(() => new DestinationPolicy({ httpsOnly: true }).checkUrl('http://hooks.example.com')).toThrow(
+        'Only https URLs are allowed'
+      );
+    });
+
+    it('should reject literal non-public addresses', () => {
+      const policy = new DestinationPolicy();
+
+      for (const url of [
+        'http://127.0.0.1:3000/',
+        'http://169.254.169.254/latest/meta-data',
+        'http://10.1.2.3/',
+        'http://[::1]/',
+        'http://[fd00::1]/',
+        'http://[::ffff:192.168.1.1]/',
+      ]) {
+        expect(() => policy.checkUrl(url), url).toThrow(DestinationPolicyError);
+      }
+    });
+
+    it('should allow non-public addresses when enabled or listed', () => {
+      expect(() => new DestinationPolicy({ allowPrivateNetworks: true }).checkUrl('http://10.1.2.3/')).not.toThrow();
+      expect(() => new DestinationPolicy({ allowedCidrs: ['10.1.0.0/16'] }).checkUrl('http://10.1.2.3/')).not.toThrow();
+      expect(() => new DestinationPolicy({ allowedCidrs: ['10.1.0.0/16'] }).checkUrl('http://10.2.0.1/')).toThrow(
+        'Address 10.2.0.1 is not a public address'
+      );
+    });
+
+    it('should reject denied addresses even when allowed', () => {
+      const policy = new DestinationPolicy({
+        allowPrivateNetworks: true,
+        allowedCidrs: ['10.0.0.0/8'],
+        deniedCidrs: ['10.0.0.5', '93.184.216.0/24'],
+      });
+
+      expect(() => policy.checkUrl('http://10.0.0.5/')).toThrow('Address 10.0.0.5 is denied');
+      expect(() => policy.checkUrl('http://93.184.216.34/')).toThrow('Address 93.184.216.34 is denied');
+    });
+
+    it('should apply denied and allowed host lists', () => {
+      const policy = new DestinationPolicy({
+        allowedHosts: ['hooks.example.com', '*.example.org'],
+        deniedHosts: ['bad.example.org'],
+      });
+
+      expect(() => policy.checkUrl('https://hooks.example.com/')).not.toThrow();
+      expect(() => policy.checkUrl('https://a.b.example.org/')).not.toThrow();
+      expect(() => policy.checkUrl('https://example.org/')).toThrow('Host example.org is not in the allowed hosts');
+      expect(() => policy.checkUrl('https://BAD.example.org./')).toThrow('Host bad.example.org is denied');
+    });
+  });
+
+  describe('lookup()', () => {
+    it('should fail when a resolved address is not allowed', async () => {
+      const { err } = await lookup(new DestinationPolicy(), 'localhost');
+
+      expect(err).toBeInstanceOf(DestinationPolicyError);
+      expect((err as DestinationPolicyError).code).toBe('DESTINATION_BLOCKED');
+    });
+
+    it('should return the checked addresses when allowed', async () => {
+      const { err, addresses } = await lookup(new DestinationPolicy({ allowPrivateNetworks: true }), 'localhost');
+
+      expect(err).toBeUndefined();
+      expect(addresses.length).toBeGreaterThan(0);
+    });
+  });
+
+  describe('assertWebhookDestination()', () => {
+    it('should turn policy errors into validation errors', async () => {
+      const error = await assertWebhookDestination(new DestinationPolicy(), 'http://localhost/hook', 'webhookUrl').catch(
+        (err) => err
+      );
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.statusCode).toBe(400);
+      expect(error.message).toMatch(/^webhookUrl not allowed: Address .* is not a public address$/);
+    });
+
+    it('should allow everything without a policy', async () => {
+      await expect(assertWebhookDestination(undefined, 'http://127.0.0.1/')).resolves.toBeUndefined();
+    });
+  });
+});
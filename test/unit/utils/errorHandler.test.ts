@@ -9,6 +9,7 @@ import {
   BadRequestError,
   NotFoundError,
   ConflictError,
+  GoneError,
   ServiceUnavailableError,
   ValidationError,
   errorHandler,
@@ -123,6 +124,16 @@ describe('Error Classes', () => {
     });
   });
 
+  describe('GoneError', () => {
+    it('should create gone error', () => {
+      const error = new GoneError('Instance is already connected');
+
+      expect(error.statusCode).toBe(410);
+      expect(error.code).toBe('GONE');
+      expect(error.message).toBe('Instance is already connected');
+    });
+  });
+
   describe('ServiceUnavailableError', () => {
     it('should create service unavailable error', () => {
       const error = new ServiceUnavailableError('Instance not connected');
@@ -319,6 +330,7 @@ describe('errorHandler', () => {
       expect(new BadRequestError('test')).toBeInstanceOf(ApiError);
       expect(new NotFoundError('test')).toBeInstanceOf(ApiError);
       expect(new ConflictError('test')).toBeInstanceOf(ApiError);
+      expect(new GoneError('test')).toBeInstanceOf(ApiError);
       expect(new ServiceUnavailableError('test')).toBeInstanceOf(ApiError);
       expect(new ValidationError('test')).toBeInstanceOf(ApiError);
     });
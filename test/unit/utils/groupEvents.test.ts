@@ -0,0 +1,115 @@
+/**
+ * Unit tests for group event normalization
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  fromGroupsUpdate,
+  fromJoinRequest,
+  fromParticipantsUpdate,
+  fromPictureStub,
+} from '../../../src/utils/groupEvents';
+
+const GROUP = '120363025246125486@g.us';
+
+describe('fromParticipantsUpdate()', () => {
+  it('should normalize participant changes with the actor', () => {
+    expect(
+      fromParticipantsUpdate({
+        id: GROUP,
+        author: 'admin@s.whatsapp.net',
+        participants: ['a@s.whatsapp.net', { id: 'b@s.whatsapp.net', admin: null }],
+        action: 'promote',
+      })
+    ).toEqual({
+      groupId: GROUP,
+      action: 'promote',
+      participants: ['a@s.whatsapp.net', 'b@s.whatsapp.net'],
+      actor: 'admin@s.whatsapp.net',
+    });
+  });
+
+  it('should ignore other actions', () => {
+    expect(fromParticipantsUpdate({ id: GROUP, participants: ['a@s.whatsapp.net'], action: 'modify' })).toBeUndefined();
+  });
+});
+
+describe('fromGroupsUpdate()', () => {
+  it('should normalize subject, description and settings', () => {
+    expect(
+      fromGroupsUpdate({
+        id: GROUP,
+        author: 'admin@s.whatsapp.net',
+        subject: 'Moderators',
+        desc: 'Be nice',
+        announce: true,
+        memberAddMode: false,
+        ephemeralDuration: 86400,
+      })
+    ).toEqual({
+      groupId: GROUP,
+      actor: 'admin@s.whatsapp.net',
+      subject: 'Moderators',
+      description: 'Be nice',
+      settings: { announce: true, memberAddMode: false, ephemeralDuration: 86400 },
+    });
+  });
+
+  it('should report a removed description and disabled disappearing messages', () => {
+    expect(fromGroupsUpdate({ id: GROUP, desc: null, ephemeralDuration: null })).toEqual({
+      groupId: GROUP,
+      description: '',
+      settings: { ephemeralDuration: 0 },
+    });
+  });
+
+  it('should skip updates without a reported change', () => {
+    expect(fromGroupsUpdate({ id: GROUP, author: 'admin@s.whatsapp.net', inviteCode: 'abc' })).toBeUndefined();
+  });
+});
+
+describe('fromPictureStub()', () => {
+  it('should report a new group picture', () => {
+    expect(
+      fromPictureStub({
+        key: { remoteJid: GROUP, fromMe: false },
+        participant: 'admin@s.whatsapp.net',
+        messageStubType: 22,
+        messageStubParameters: ['1700000000'],
+      })
+    ).toEqual({ groupId: GROUP, actor: 'admin@s.whatsapp.net', picture: { action: 'set', id: '1700000000' } });
+  });
+
+  it('should report a removed group picture', () => {
+    expect(fromPictureStub({ key: { remoteJid: GROUP }, messageStubType: 22 })?.picture).toEqual({ action: 'remove' });
+  });
+
+  it('should ignore other messages', () => {
+    expect(fromPictureStub({ key: { remoteJid: GROUP }, message: { conversation: 'hi' } })).toBeUndefined();
+    expect(fromPictureStub({ key: { remoteJid: 'a@s.whatsapp.net' }, messageStubType: 22 })).toBeUndefined();
+  });
+});
+
+describe('fromJoinRequest()', () => {
+  it('should normalize join requests', () => {
+    expect(
+      fromJoinRequest({
+        id: GROUP,
+        author: 'a@s.whatsapp.net',
+        participant: 'a@s.whatsapp.net',
+        action: 'created',
+        method: 'invite_link',
+      })
+    ).toEqual({
+      groupId: GROUP,
+      participant: 'a@s.whatsapp.net',
+      action: 'created',
+      method: 'invite_link',
+      actor: 'a@s.whatsapp.net',
+    });
+  });
+
+  it('should ignore requests without a participant', () => {
+    expect(fromJoinRequest({ id: GROUP, action: 'created' })).toBeUndefined();
+  });
+});
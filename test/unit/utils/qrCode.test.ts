@@ -0,0 +1,70 @@
+/**
+ * Unit tests for QR code rendering utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import { negotiateQrCodeFormat, renderQrCode } from '../../../src/utils/qrCode';
+
+describe('QR code utilities', () => {
+  const qr = '2@abc123,def456,ghi789==';
+
+  describe('negotiateQrCodeFormat()', () => {
+    it('should default to json without Accept header', () => {
+      expect(negotiateQrCodeFormat()).toBe('json');
+    });
+
+    it('should default to json for wildcard Accept header', () => {
+      expect(negotiateQrCodeFormat('*/*')).toBe('json');
+    });
+
+    it('should map image types', () => {
+      expect(negotiateQrCodeFormat('image/png')).toBe('png');
+      expect(negotiateQrCodeFormat('image/svg+xml')).toBe('svg');
+    });
+
+    it('should map text/plain to raw', () => {
+      expect(negotiateQrCodeFormat('text/plain')).toBe('raw');
+    });
+
+    it('should use first supported type in Accept order', () => {
+      expect(negotiateQrCodeFormat('text/html, image/svg+xml;q=0.9, image/png;q=0.8')).toBe('svg');
+    });
+  });
+
+  describe('renderQrCode()', () => {
+    it('should render PNG buffer', async () => {
+      const rendered = await renderQrCode(qr, 'png');
+
+      expect(rendered.contentType).toBe('image/png');
+      expect(Buffer.isBuffer(rendered.body)).toBe(true);
+      expect((rendered.body as Buffer).subarray(1, 4).toString()).toBe('PNG');
+    });
+
+    it('should render SVG markup', async () => {
+      const rendered = await renderQrCode(qr, 'svg');
+
+      expect(rendered.contentType).toBe('image/svg+xml');
+      expect(rendered.body).toContain('<svg');
+    });
+
+    it('should render PNG data URL', async () => {
+      const rendered = await renderQrCode(qr, 'dataurl');
+
+      expect(rendered.body).toMatch(/^data:image\/png;base64,/);
+    });
+
+    it('should return raw QR string', async () => {
+      const rendered = await renderQrCode(qr, 'raw');
+
+      expect(rendered.contentType).toContain('text/plain');
+      expect(rendered.body).toBe(qr);
+    });
+
+    it('should render terminal output', async () => {
+      const rendered = await renderQrCode(qr, 'terminal');
+
+      expect(typeof rendered.body).toBe('string');
+      expect((rendered.body as string).length).toBeGreaterThan(qr.length);
+    });
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Unit tests for credential redaction
+ */
+
+import { describe, it, expect } from 'vitest';
+import { redactHeaders, redactUrl } from '../../../src/utils/redact';
+
+describe('redactHeaders()', () => {
+  it('should hide credential header values', () => {
+    expect(
+      redactHeaders({
+        Authorization: 'Bearer abc',
+        cookie: 'session=1',
+        'X-Api-Key': 'k',
+        'X-Auth-Token': 't',
+        'X-Client-Secret': 's',
+      })
+    ).toEqual({
+      Authorization: '***',
+      cookie: '***',
+      'X-Api-Key': '***',
+      'X-Auth-Token': '***',
+      'X-Client-Secret': '***',
+    });
+  });
+
+  it('should keep other headers', () => {
+    const headers = { 'X-Team': 'ops', 'X-Miaw-Delivery-Id': 'd1' };
+
+    expect(redactHeaders(headers)).toEqual(headers);
+  });
+});
+
+describe('redactUrl()', () => {
+  it('should hide token and API key query values', () => {
+    expect(redactUrl('/events/stream?token=abc.def&events=message&apiKey=k&api_key=k2')).toBe(
+      '/events/stream?token=***&events=message&apiKey=***&api_key=***'
+    );
+  });
+
+  it('should keep URLs without credentials', () => {
+    expect(redactUrl('/instances/bot-1/events/stream?events=message')).toBe(
+      '/instances/bot-1/events/stream?events=message'
+    );
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Unit tests for event stream tokens
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createStreamToken, verifyStreamToken } from '../../../src/utils/streamToken';
+
+describe('streamToken', () => {
+  const secret = 'test-api-key';
+  const now = 1_000_000;
+
+  it('should round-trip instance claims', () => {
+    const token = createStreamToken({ instanceId: 'bot-1', expiresAt: now + 1000 }, secret);
+
+    expect(verifyStreamToken(token, secret, now)).toEqual({ instanceId: 'bot-1', expiresAt: now + 1000 });
+  });
+
+  it('should round-trip tokens for all instances', () => {
+    const token = createStreamToken({ expiresAt: now + 1000 }, secret);
+
+    expect(verifyStreamToken(token, secret, now)).toEqual({ instanceId: undefined, expiresAt: now + 1000 });
+  });
+
+  it('should not contain the secret', () => {
+    expect(createStreamToken({ expiresAt: now + 1000 }, secret)).not.toContain(secret);
+  });
+
+  it('should reject expired tokens', () => {
+    const token = createStreamToken({ expiresAt: now }, secret);
+
+    expect(verifyStreamToken(token, secret, now)).toBeNull();
+  });
+
+  it('should reject tokens signed with another secret', () => {
+    const token = createStreamToken({ expiresAt: now + 1000 }, 'other-secret');
+
+    expect(verifyStreamToken(token, secret, now)).toBeNull();
+  });
+
+  it('should reject tampered claims', () => {
+    const token = createStreamToken({ instanceId: 'bot-1', expiresAt: now + 1000 }, secret);
+    const [, signature] = token.split('.');
+    const body = Buffer.from(JSON.stringify({ e: now + 1000 })).toString('base64url');
+
+    expect(verifyStreamToken(`${body}.${signature}`, secret, now)).toBeNull();
+  });
+
+  it('should reject malformed tokens', () => {
+    expect(verifyStreamToken('', secret, now)).toBeNull();
+    expect(verifyStreamToken('abc', secret, now)).toBeNull();
+    expect(verifyStreamToken('a.b.c', secret, now)).toBeNull();
+  });
+});
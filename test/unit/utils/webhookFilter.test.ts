@@ -0,0 +1,88 @@
+/**
+ * Unit tests for webhook subscription filters and templates
+ */
+
+import { describe, it, expect } from 'vitest';
+import { matchesWebhookFilter, renderWebhookTemplate } from '../../../src/utils/webhookFilter';
+import { WebhookPayload } from '../../../src/types';
+
+function createPayload(data: any): WebhookPayload {
+  return { id: 'evt-1', event: 'message', instanceId: 'i1', timestamp: 1000, data };
+}
+
+describe('Webhook filter utilities', () => {
+  const groupMessage = createPayload({ from: '123@g.us', isGroup: true, fromMe: false, text: 'hello world' });
+  const ownMessage = createPayload({ from: '456@s.whatsapp.net', isGroup: false, fromMe: true, text: 'hi' });
+
+  describe('matchesWebhookFilter()', () => {
+    it('should match everything without a filter', () => {
+      expect(matchesWebhookFilter(undefined, ownMessage)).toBe(true);
+    });
+
+    it('should require every all condition', () => {
+      const filter = {
+        all: [
+          { field: 'data.isGroup', op: 'eq' as const, value: true },
+          { field: 'data.fromMe', op: 'eq' as const, value: false },
+        ],
+      };
+
+      expect(matchesWebhookFilter(filter, groupMessage)).toBe(true);
+      expect(matchesWebhookFilter(filter, ownMessage)).toBe(false);
+    });
+
+    it('should require one any condition', () => {
+      const filter = {
+        any: [
+          { field: 'data.from', op: 'in' as const, value: ['456@s.whatsapp.net', '789@s.whatsapp.net'] },
+          { field: 'data.text', op: 'contains' as const, value: 'world' },
+        ],
+      };
+
+      expect(matchesWebhookFilter(filter, groupMessage)).toBe(true);
+      expect(matchesWebhookFilter(filter, ownMessage)).toBe(true);
+      expect(matchesWebhookFilter(filter, createPayload({ from: 'x', text: 'nope' }))).toBe(false);
+    });
+
+    it('should support ne, nin and exists', () => {
+      expect(matchesWebhookFilter({ all: [{ field: 'event', op: 'ne', value: 'presence' }] }, ownMessage)).toBe(true);
+      expect(matchesWebhookFilter({ all: [{ field: 'event', op: 'nin', value: ['message'] }] }, ownMessage)).toBe(false);
+      expect(matchesWebhookFilter({ all: [{ field: 'data.media', op: 'exists' }] }, ownMessage)).toBe(false);
+      expect(matchesWebhookFilter({ all: [{ field: 'data.media', op: 'exists', value: false }] }, ownMessage)).toBe(true);
+    });
+
+    it('should answer chat label conditions from the context', () => {
+      const filter = { all: [{ field: 'chat.labels', op: 'contains' as const, value: 'vip' }] };
+      const chatHasLabel = (labelId: string) => labelId === 'vip';
+
+      expect(matchesWebhookFilter(filter, groupMessage, { chatHasLabel })).toBe(true);
+      expect(matchesWebhookFilter(filter, groupMessage, { chatHasLabel: () => false })).toBe(false);
+      expect(matchesWebhookFilter(filter, groupMessage)).toBe(false);
+      expect(
+        matchesWebhookFilter({ all: [{ field: 'chat.labels', op: 'nin', value: ['vip'] }] }, groupMessage, {
+          chatHasLabel,
+        })
+      ).toBe(false);
+    });
+  });
+
+  describe('renderWebhookTemplate()', () => {
+    it('should keep the value type of whole placeholders', () => {
+      expect(
+        renderWebhookTemplate({ group: '{{data.isGroup}}', message: '{{data}}', missing: '{{data.nope}}' }, groupMessage)
+      ).toEqual({ group: true, message: groupMessage.data, missing: null });
+    });
+
+    it('should interpolate placeholders inside strings', () => {
+      expect(renderWebhookTemplate({ text: '{{data.from}}: {{data.text}}{{data.nope}}' }, ownMessage)).toEqual({
+        text: '456@s.whatsapp.net: hi',
+      });
+    });
+
+    it('should render nested objects and arrays and keep literals', () => {
+      expect(
+        renderWebhookTemplate({ blocks: [{ type: 'text', value: '{{event}}' }], count: 1, ok: false }, ownMessage)
+      ).toEqual({ blocks: [{ type: 'text', value: 'message' }], count: 1, ok: false });
+    });
+  });
+});